@@ -0,0 +1,200 @@
+// Backtest the visibility model against past launches
+//
+// Usage:
+//   npm run backtest -- [--sites vandenberg,cape-canaveral] [--limit 20]
+//                       [--launches run.json] [--model weighted] [--tuning tuning/profile-v2.json]
+//                       [--out backtests] [--compare backtests/run-….json]
+//                       [--threshold 5] [--max-drop 5]
+//
+// Recomputes what the model would have predicted for each reference city (REFERENCE_OBSERVERS
+// in src/lib/backtest.ts) at every past launch, using the weather archived for the launch
+// time (src/lib/weatherArchive.ts), and prints a per-launch table and summary means.
+//
+// Each run is written to <out>/run-<timestamp>.json together with the launches it scored,
+// so a later run can reuse them (--launches) and compare against it (--compare). For a
+// fully offline rerun, record the weather once with WEATHER_FIXTURE_RECORD=true, then set
+// WEATHER_ARCHIVE_PROVIDER=fixture.
+//
+// With --max-drop the script exits 1 when any site/city/lighting group's mean falls by
+// more than that many points against the compared run.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { getLaunchProvider, getPastLaunches } from "../src/lib/launchProvider";
+import { getAllSiteIds, getLaunchSite } from "../src/lib/launchSites";
+import { DEFAULT_TUNING_PROFILE } from "../src/lib/visibility";
+import { getVisibilityModel, VISIBILITY_MODELS } from "../src/lib/visibilityModels";
+import { readTuningProfile } from "../src/lib/tuningProfile";
+import { getArchiveProvider, getArchivedWeather } from "../src/lib/weatherArchive";
+import {
+  compareBacktests,
+  DEFAULT_CHANGE_THRESHOLD,
+  REFERENCE_OBSERVERS,
+  runBacktest,
+  type BacktestLaunch,
+  type BacktestRun,
+  type BacktestWeather,
+} from "../src/lib/backtest";
+
+interface BacktestFile extends BacktestRun {
+  launches: BacktestLaunch[];
+}
+
+/**
+ * Launches from a file (a previous run or a plain array), or the most recent past
+ * launches for each site
+ */
+async function loadLaunches(file: string | undefined, siteIds: string[], limit: number): Promise<BacktestLaunch[]> {
+  if (file) {
+    const data = JSON.parse(await fs.readFile(file, "utf8")) as BacktestLaunch[] | { launches?: BacktestLaunch[] };
+    const launches = Array.isArray(data) ? data : data.launches ?? [];
+    return launches.filter((l) => siteIds.includes(l.siteId || "vandenberg"));
+  }
+
+  const perSite = await Promise.all(siteIds.map((siteId) => getPastLaunches(siteId, limit)));
+  return perSite.flat().map((launch) => ({
+    id: launch.id,
+    name: launch.name,
+    date_unix: launch.date_unix,
+    siteId: launch.siteId,
+    rocket: launch.rocket,
+    mission: launch.mission,
+  }));
+}
+
+/**
+ * Archived weather at the pad and each reference city, one launch at a time to stay
+ * within the archive API's rate limits
+ */
+async function loadWeather(launches: BacktestLaunch[]): Promise<Map<string, BacktestWeather>> {
+  const weather = new Map<string, BacktestWeather>();
+
+  for (const launch of launches) {
+    const siteId = launch.siteId || "vandenberg";
+    const site = getLaunchSite(siteId);
+    const observers = REFERENCE_OBSERVERS[siteId] ?? [];
+
+    const [launchSite, ...viewing] = await Promise.all([
+      site ? getArchivedWeather(site.lat, site.lon, site.name, launch.date_unix) : Promise.resolve(null),
+      ...observers.map((o) => getArchivedWeather(o.lat, o.lon, o.name, launch.date_unix)),
+    ]);
+
+    weather.set(launch.id, {
+      launchSite,
+      observers: Object.fromEntries(observers.map((o, i) => [o.id, viewing[i]])),
+    });
+  }
+
+  return weather;
+}
+
+function printRun(run: BacktestRun) {
+  console.log(
+    ["Launch time (UTC)".padEnd(17), "Launch".padEnd(36), "City".padEnd(15), "Lighting".padEnd(10), "km".padStart(6), "%".padStart(4), "Rating"].join("  ")
+  );
+  for (const row of run.rows) {
+    console.log(
+      [
+        new Date(row.launchTime * 1000).toISOString().slice(0, 16).replace("T", " "),
+        row.launchName.slice(0, 36).padEnd(36),
+        row.observerId.padEnd(15),
+        row.lighting.padEnd(10),
+        String(Math.round(row.distanceKm)).padStart(6),
+        String(row.percentage).padStart(4),
+        `${row.rating}${row.fatal ? " (blocked)" : ""}${row.hasWeather ? "" : " (no weather)"}`,
+      ].join("  ")
+    );
+  }
+
+  const { summary } = run;
+  console.log(`\n${summary.launches} launches, ${summary.rows} predictions, mean ${summary.meanPercentage}%`);
+  console.log(`Ratings: ${Object.entries(summary.ratings).map(([rating, n]) => `${rating} ${n}`).join(", ")}`);
+  for (const group of summary.groups) {
+    console.log(`  ${group.key.padEnd(40)} n=${String(group.count).padStart(3)}  mean ${group.meanPercentage}%`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      sites: { type: "string" },
+      limit: { type: "string", default: "20" },
+      launches: { type: "string" },
+      model: { type: "string" },
+      tuning: { type: "string" },
+      out: { type: "string", default: "backtests" },
+      compare: { type: "string" },
+      threshold: { type: "string", default: String(DEFAULT_CHANGE_THRESHOLD) },
+      "max-drop": { type: "string" },
+    },
+  });
+
+  const siteIds = values.sites ? values.sites.split(",") : getAllSiteIds();
+  const unknownSite = siteIds.find((id) => !getLaunchSite(id));
+  if (unknownSite) {
+    console.error(`Unknown site "${unknownSite}". Available: ${getAllSiteIds().join(", ")}`);
+    process.exit(1);
+  }
+
+  const model = getVisibilityModel(values.model);
+  if (!model) {
+    console.error(`Unknown model "${values.model}". Available: ${VISIBILITY_MODELS.map((m) => m.id).join(", ")}`);
+    process.exit(1);
+  }
+
+  const tuning = values.tuning ? await readTuningProfile(values.tuning) : DEFAULT_TUNING_PROFILE;
+  if (!tuning) process.exit(1);
+
+  const limit = parseInt(values.limit, 10);
+  const threshold = parseFloat(values.threshold);
+  const maxDrop = values["max-drop"] !== undefined ? parseFloat(values["max-drop"]) : null;
+  if (isNaN(limit) || limit < 1 || isNaN(threshold) || (maxDrop !== null && isNaN(maxDrop))) {
+    console.error("--limit, --threshold and --max-drop must be numbers");
+    process.exit(1);
+  }
+
+  const launches = await loadLaunches(values.launches, siteIds, limit);
+  if (launches.length === 0) {
+    console.error("No past launches to backtest");
+    process.exit(1);
+  }
+
+  console.log(`Backtesting ${model.id}@${model.version} (tuning ${tuning.version}) on ${launches.length} launches from ${getLaunchProvider().name}, weather from ${getArchiveProvider().name}...\n`);
+  const weather = await loadWeather(launches);
+  const run = runBacktest(launches, weather, model, tuning);
+  printRun(run);
+
+  const file: BacktestFile = { ...run, launches };
+  await fs.mkdir(values.out, { recursive: true });
+  const outFile = path.join(values.out, `run-${run.createdAt.replace(/[:.]/g, "-")}.json`);
+  await fs.writeFile(outFile, JSON.stringify(file, null, 2) + "\n");
+  console.log(`\nWrote ${outFile}`);
+
+  if (!values.compare) return;
+
+  const previous = JSON.parse(await fs.readFile(values.compare, "utf8")) as BacktestRun;
+  const comparison = compareBacktests(previous, run, threshold);
+
+  console.log(`\nCompared with ${path.basename(values.compare)} (${previous.model}, tuning ${previous.tuningVersion}): mean ${comparison.meanDelta >= 0 ? "+" : ""}${comparison.meanDelta} points`);
+  for (const group of comparison.changedGroups) {
+    console.log(`  ${group.key.padEnd(40)} ${group.before}% → ${group.meanPercentage}% (${group.delta > 0 ? "+" : ""}${group.delta})`);
+  }
+  for (const change of comparison.changedRows) {
+    console.log(`  ${change.launchName.slice(0, 36).padEnd(36)} ${change.observerId.padEnd(15)} ${change.before}% → ${change.after}%`);
+  }
+  if (comparison.changedGroups.length === 0 && comparison.changedRows.length === 0) {
+    console.log(`  No prediction moved by ${threshold} points or more`);
+  }
+
+  const regressions = comparison.changedGroups.filter((g) => maxDrop !== null && g.delta < -maxDrop);
+  if (regressions.length > 0) {
+    console.error(`\n${regressions.length} group(s) dropped by more than ${maxDrop} points`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Backtest failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+// Fit the visibility model's weights and distance tables to recorded sightings
+//
+// Usage:
+//   npm run calibrate -- --dataset sightings.json [--base tuning/profile-v1.json]
+//                        [--out tuning] [--holdout 0.2]
+//
+// The dataset is a JSON file {"records": [...]}, each record a historical launch, an
+// observer location, the weather archived for the launch site and the observer at launch
+// time, and whether the observer saw it (CalibrationRecord in src/lib/weightFitting.ts).
+// A share of the records (every 5th by default) is held out of the fit so the "after"
+// metrics aren't only measured on data the fit has seen.
+//
+// Writes the next free tuning/profile-v<N>.json. Set VISIBILITY_TUNING_PROFILE to that
+// file to have the API routes use it.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { DEFAULT_TUNING_PROFILE } from "../src/lib/visibility";
+import { evaluateProfile, fitTuningProfile, type CalibrationRecord } from "../src/lib/weightFitting";
+import {
+  readTuningProfile,
+  type ProfileMetrics,
+  type TuningProfileFile,
+} from "../src/lib/tuningProfile";
+
+// Holdout needs enough records on both sides to mean anything
+const MIN_RECORDS_FOR_HOLDOUT = 20;
+
+const PROFILE_FILE = /^profile-v(\d+)\.json$/;
+
+/**
+ * Next free profile version in the output directory
+ */
+async function nextVersion(dir: string): Promise<number> {
+  try {
+    const versions = (await fs.readdir(dir))
+      .map((name) => PROFILE_FILE.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => parseInt(match[1], 10));
+    return versions.length > 0 ? Math.max(...versions) + 1 : 1;
+  } catch {
+    return 1;
+  }
+}
+
+function formatMetrics(label: string, before: ProfileMetrics, after: ProfileMetrics): string {
+  const row = (name: string, a: number | null, b: number | null) =>
+    `  ${name.padEnd(12)} ${String(a ?? "-").padStart(8)} → ${String(b ?? "-").padStart(8)}`;
+  return [
+    `${label} (${before.samples} records)`,
+    row("Brier score", before.brierScore, after.brierScore),
+    row("Log loss", before.logLoss, after.logLoss),
+    row("Hit rate", before.hitRate, after.hitRate),
+  ].join("\n");
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: "string" },
+      base: { type: "string" },
+      out: { type: "string", default: "tuning" },
+      holdout: { type: "string", default: "0.2" },
+    },
+  });
+
+  if (!values.dataset) {
+    console.error("Usage: npm run calibrate -- --dataset <file.json> [--base <profile.json>] [--out <dir>] [--holdout <0-0.5>]");
+    process.exit(1);
+  }
+
+  const holdoutFraction = parseFloat(values.holdout);
+  if (isNaN(holdoutFraction) || holdoutFraction < 0 || holdoutFraction > 0.5) {
+    console.error("--holdout must be between 0 and 0.5");
+    process.exit(1);
+  }
+
+  const dataset = JSON.parse(await fs.readFile(values.dataset, "utf8")) as { records?: CalibrationRecord[] };
+  const records = dataset.records ?? [];
+  if (records.length === 0) {
+    console.error(`No records in ${values.dataset}`);
+    process.exit(1);
+  }
+
+  const base = values.base ? await readTuningProfile(values.base) : DEFAULT_TUNING_PROFILE;
+  if (!base) process.exit(1);
+
+  // Deterministic split: every k-th record is held out
+  const stride = holdoutFraction > 0 && records.length >= MIN_RECORDS_FOR_HOLDOUT
+    ? Math.round(1 / holdoutFraction)
+    : 0;
+  const training = records.filter((_, i) => stride === 0 || i % stride !== stride - 1);
+  const holdout = records.filter((_, i) => stride !== 0 && i % stride === stride - 1);
+
+  const version = await nextVersion(values.out);
+  console.log(`Fitting profile v${version} from ${base.version} on ${training.length} records...`);
+
+  const { profile, distanceGroupsFitted } = fitTuningProfile(training, base, `v${version}`);
+
+  const metrics: TuningProfileFile["metrics"] = {
+    training: { before: evaluateProfile(training, base), after: evaluateProfile(training, profile) },
+    holdout: holdout.length > 0
+      ? { before: evaluateProfile(holdout, base), after: evaluateProfile(holdout, profile) }
+      : null,
+  };
+
+  const file: TuningProfileFile = {
+    ...profile,
+    createdAt: new Date().toISOString(),
+    baseVersion: base.version,
+    dataset: {
+      file: path.basename(values.dataset),
+      records: records.length,
+      training: training.length,
+      holdout: holdout.length,
+    },
+    metrics,
+  };
+
+  await fs.mkdir(values.out, { recursive: true });
+  const outFile = path.join(values.out, `profile-v${version}.json`);
+  await fs.writeFile(outFile, JSON.stringify(file, null, 2) + "\n");
+
+  console.log(formatMetrics("Training", metrics.training.before, metrics.training.after));
+  if (metrics.holdout) {
+    console.log(formatMetrics("Holdout", metrics.holdout.before, metrics.holdout.after));
+  }
+  console.log(`Weights: ${JSON.stringify(profile.weights)}`);
+  console.log(`Distance tables refitted: ${distanceGroupsFitted.join(", ") || "none (too few records per group)"}`);
+  console.log(`Wrote ${outFile}`);
+}
+
+main().catch((error) => {
+  console.error("Calibration failed:", error);
+  process.exit(1);
+});
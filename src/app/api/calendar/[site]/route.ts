@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUpcomingLaunchesAllSites } from "@/lib/launchProvider";
+import { getLaunchChangeSummaries } from "@/lib/launchHistory";
+import { LAUNCH_SITES } from "@/lib/launchSites";
+import { predictLaunchVisibilities } from "@/lib/launchVisibility";
+import { getLaunchPath, parseLinkViewer } from "@/lib/launchLinks";
+import { buildLaunchCalendar, type CalendarLaunch } from "@/lib/launchCalendar";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+export const revalidate = 300; // Revalidate every 5 minutes
+
+/**
+ * Upcoming launches as an iCalendar feed: /api/calendar/vandenberg.ics, or all.ics
+ * for every site. With ?lat=&lon=(&name=) each event also carries the predicted
+ * visibility from there and where to look.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ site: string }> }
+) {
+  // Rate limit: 30 requests per minute per IP
+  const rateCheck = checkRateLimit(request, 30, 60_000);
+  if (!rateCheck.allowed) return rateCheck.response!;
+
+  const { site: file } = await params;
+  const siteId = file.replace(/\.ics$/, "");
+  const site = LAUNCH_SITES[siteId];
+  if (!file.endsWith(".ics") || (siteId !== "all" && !site)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unknown calendar. Available: ${["all", ...Object.keys(LAUNCH_SITES)].map((id) => `${id}.ics`).join(", ")}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const viewer = parseLinkViewer(
+    searchParams.get("lat"),
+    searchParams.get("lon"),
+    searchParams.get("name")
+  );
+  if ((searchParams.has("lat") || searchParams.has("lon")) && !viewer) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid coordinates. Latitude must be -90 to 90, longitude -180 to 180.",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const launches = (await getUpcomingLaunchesAllSites())
+      .filter((launch) => siteId === "all" || launch.siteId === siteId);
+
+    const [summaries, predictions] = await Promise.all([
+      getLaunchChangeSummaries(launches.map((l) => l.id)),
+      viewer ? predictLaunchVisibilities(launches, viewer) : null,
+    ]);
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://falconwatch.app";
+    const events: CalendarLaunch[] = launches.map((launch, i) => {
+      const visibility = predictions?.[i].visibility;
+      return {
+        launch,
+        url: `${baseUrl}${getLaunchPath(launch.id, viewer)}`,
+        changes: summaries.get(launch.id) ?? null,
+        visibility: viewer && visibility
+          ? {
+              viewerName: viewer.name,
+              percentage: visibility.percentage,
+              rating: visibility.rating,
+              guidance: visibility.skyTrack.summary.guidance,
+            }
+          : null,
+      };
+    });
+
+    const name = `FalconWatch: ${site ? site.name : "SpaceX"} launches${viewer ? ` from ${viewer.name}` : ""}`;
+
+    return new NextResponse(buildLaunchCalendar(name, events), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="falconwatch-${siteId}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to build launch calendar:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build launch calendar" },
+      { status: 500 }
+    );
+  }
+}
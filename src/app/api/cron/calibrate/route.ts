@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCalibrationSamples,
+  getLastCalibrationRun,
+  getLaunchesBetween,
+  saveCalibrationMetrics,
+} from "@/lib/predictionStore";
+import { computeCalibrationMetrics } from "@/lib/calibration";
+import { timingSafeEqual } from "@/lib/security";
+
+// Vercel Cron configuration
+export const maxDuration = 60;
+
+// Sighting reports keep arriving for a while after a launch, so a launch
+// triggers recalibration on every run within this window
+const REPORTING_WINDOW_HOURS = 48;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret with constant-time comparison to prevent timing attacks
+  const authHeader = request.headers.get("authorization") || "";
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET || ""}`;
+  if (!process.env.CRON_SECRET || !timingSafeEqual(authHeader, expectedAuth)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - REPORTING_WINDOW_HOURS * 3600 * 1000);
+    const lastRun = await getLastCalibrationRun();
+    const since = lastRun && lastRun < windowStart ? lastRun : windowStart;
+
+    const launches = await getLaunchesBetween(since, now);
+    if (launches.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: "No launches since the last calibration",
+        groups: 0,
+      });
+    }
+
+    const result = await getCalibrationSamples();
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: "Failed to load sighting reports" },
+        { status: 500 }
+      );
+    }
+
+    const metrics = computeCalibrationMetrics(result.samples);
+    if (metrics.length > 0 && !(await saveCalibrationMetrics(metrics, now))) {
+      return NextResponse.json(
+        { success: false, error: "Failed to save calibration metrics" },
+        { status: 500 }
+      );
+    }
+
+    // Headline numbers per scoring model
+    const models = metrics
+      .filter((m) => m.siteId === "all")
+      .map((m) => ({ model: m.model, samples: m.sampleCount, brierScore: m.brierScore, hitRate: m.hitRate }));
+
+    return NextResponse.json({
+      success: true,
+      message: `Calibrated on ${result.samples.length} report/model pairs after ${launches.length} recent launches`,
+      groups: metrics.length,
+      unmatchedReports: result.unmatched,
+      models,
+    });
+  } catch (error) {
+    console.error("Calibration job error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to compute calibration metrics",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Resend } from "resend";
 import { getAllActiveSubscriptions, updateLastNotified } from "@/lib/supabaseStore";
-import { getUpcomingLaunchesAllSites } from "@/lib/spacex";
+import { getUpcomingLaunchSnapshotAllSites } from "@/lib/launchProvider";
+import { getUnnotifiedLaunchChangesSince, markLaunchChangesNotified } from "@/lib/launchHistory";
+import { describeLaunchChange, type LaunchChangeEvent } from "@/lib/launchChanges";
 import { LAUNCH_SITES } from "@/lib/launchSites";
 import { timingSafeEqual } from "@/lib/security";
 
@@ -15,7 +17,6 @@ function getResend(): Resend {
 }
 
 // Vercel Cron configuration
-export const runtime = "edge";
 export const maxDuration = 60;
 
 interface Launch {
@@ -26,15 +27,31 @@ interface Launch {
   siteId?: string;
 }
 
+// The cron runs daily; changes are marked once emailed, so a retried run only picks up
+// the rest, and changes older than this are too stale to send
+const CHANGE_LOOKBACK_SEC = 24 * 3600;
+
+// NET moves smaller than this aren't worth an email unless they are scrubs
+const NOTIFY_MIN_SHIFT_SEC = 3600;
+
+/**
+ * Changes worth telling a subscriber about: scrubs, NET moves of an hour or
+ * more, and pad changes
+ */
+function isNotifiableChange(event: LaunchChangeEvent): boolean {
+  if (event.type === "pad") return true;
+  return event.type === "net" && (event.scrub || Math.abs(event.shiftSec ?? 0) >= NOTIFY_MIN_SHIFT_SEC);
+}
+
 /**
  * Check if a launch is within the reminder window
  * For daily cron with 24hr reminder: check if launch is 12-36 hours away
  */
 function isWithinReminderWindow(
   launchTime: number,
-  reminderMinutes: number
+  reminderMinutes: number,
+  now = Date.now()
 ): boolean {
-  const now = Date.now();
   const launchMs = launchTime * 1000;
   const hoursUntilLaunch = (launchMs - now) / (1000 * 60 * 60);
 
@@ -70,13 +87,14 @@ const SITE_VIEWING_TIPS: Record<string, string> = {
 };
 
 /**
- * Generate email HTML
+ * Generate email HTML. With changes it is a schedule update rather than a reminder.
  */
 function generateEmailHtml(
   launch: Launch,
   unsubscribeToken: string,
   baseUrl: string,
-  siteId: string
+  siteId: string,
+  changes: string[] = []
 ): string {
   const unsubscribeUrl = `${baseUrl}/api/alerts/unsubscribe?token=${unsubscribeToken}`;
   const preferencesUrl = `${baseUrl}/api/alerts/preferences?token=${unsubscribeToken}`;
@@ -113,7 +131,7 @@ function generateEmailHtml(
           <tr>
             <td style="padding: 40px 30px; background: rgba(10, 14, 26, 0.95); border-left: 1px solid rgba(11, 61, 145, 0.4); border-right: 1px solid rgba(11, 61, 145, 0.4);">
               <h2 style="margin: 0 0 20px; color: #00FF41; font-size: 18px; text-transform: uppercase; letter-spacing: 1px;">
-                Launching Tomorrow
+                ${changes.length > 0 ? "Schedule Change" : "Launching Tomorrow"}
               </h2>
 
               <h3 style="margin: 0 0 10px; color: #E8E8E8; font-size: 24px; font-weight: bold;">
@@ -127,6 +145,11 @@ function generateEmailHtml(
               <p style="margin: 0 0 30px; color: #E8E8E8; font-size: 16px; opacity: 0.8;">
                 Scheduled: ${formatLaunchTime(launch.date_utc)}
               </p>
+${changes.map((change) => `
+              <p style="margin: 0 0 10px; color: #FFB000; font-size: 14px;">
+                ${change}
+              </p>
+`).join("")}
 
               <a href="https://falconwatch.app" style="display: inline-block; padding: 15px 30px; background: linear-gradient(180deg, rgba(255, 107, 53, 0.9) 0%, rgba(255, 107, 53, 0.7) 100%); color: #FFFFFF; text-decoration: none; border-radius: 6px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px; font-size: 14px;">
                 View Launch Details
@@ -168,12 +191,13 @@ export async function GET(request: NextRequest) {
 
   try {
     // Get upcoming launches from all sites
-    const launches = await getUpcomingLaunchesAllSites();
+    const { launches, stale } = await getUpcomingLaunchSnapshotAllSites();
     if (!launches || launches.length === 0) {
       return NextResponse.json({
         success: true,
         message: "No upcoming launches",
         emailsSent: 0,
+        stale,
       });
     }
 
@@ -189,7 +213,9 @@ export async function GET(request: NextRequest) {
 
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://falconwatch.app";
     let emailsSent = 0;
+    let updatesSent = 0;
     const errors: string[] = [];
+    const remindedThisRun = new Set<string>();
     // Check each launch against each subscription
     for (const launch of launches) {
 
@@ -236,6 +262,7 @@ export async function GET(request: NextRequest) {
             } else {
               // Track when we last notified this subscriber
               await updateLastNotified(subscription.id);
+              remindedThisRun.add(subscription.id);
               emailsSent++;
               // Pace sends to stay under Resend rate limit (2/sec)
               await new Promise((r) => setTimeout(r, 600));
@@ -248,11 +275,70 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Schedule changes not yet emailed about, for subscribers already reminded about the
+    // old time (or following that launch) who haven't just had a reminder for the new one
+    const changesCheckedAt = Math.floor(Date.now() / 1000);
+    const changes = (await getUnnotifiedLaunchChangesSince(changesCheckedAt - CHANGE_LOOKBACK_SEC))
+      .filter(isNotifiableChange);
+
+    for (const launch of launches) {
+      const launchChanges = changes.filter((e) => e.launchId === launch.id);
+      if (launchChanges.length === 0) continue;
+
+      const launchSiteId = launch.siteId || "vandenberg";
+      const siteName = LAUNCH_SITES[launchSiteId]?.shortName || launchSiteId;
+      // NET the launch had before the first of these changes
+      const previousNet = launchChanges.find((e) => e.type === "net")?.from;
+      const previousUnix = previousNet ? Math.floor(new Date(previousNet).getTime() / 1000) : launch.date_unix;
+
+      for (const subscription of subscriptions) {
+        if (remindedThisRun.has(subscription.id)) continue;
+        if (subscription.launchId && subscription.launchId !== launch.id) continue;
+        if (subscription.siteIds && !subscription.siteIds.includes(launchSiteId)) continue;
+
+        const followsLaunch = subscription.launchId === launch.id;
+        const wasReminded = subscription.lastNotifiedAt !== null &&
+          isWithinReminderWindow(previousUnix, subscription.reminderMinutes, subscription.lastNotifiedAt.getTime());
+        if (!followsLaunch && !wasReminded) continue;
+
+        try {
+          const { error: sendError } = await getResend().emails.send({
+            from: "FalconWatch <alerts@falconwatch.app>",
+            to: subscription.email,
+            subject: `Launch Update from ${siteName}: ${launch.name}`,
+            html: generateEmailHtml(
+              launch,
+              subscription.unsubscribeToken,
+              baseUrl,
+              launchSiteId,
+              launchChanges.map((e) => describeLaunchChange(e, formatLaunchTime))
+            ),
+          });
+          if (sendError) {
+            console.error(`Resend error:`, sendError);
+            errors.push(`Failed to send update to one subscriber: ${sendError.message}`);
+          } else {
+            updatesSent++;
+            // Pace sends to stay under Resend rate limit (2/sec)
+            await new Promise((r) => setTimeout(r, 600));
+          }
+        } catch (emailError) {
+          console.error(`Failed to send update email to subscription:`, emailError);
+          errors.push(`Failed to send update to one subscriber`);
+        }
+      }
+
+      // Marked per launch, so a retry after a failed run skips the launches already handled
+      await markLaunchChangesNotified([launch.id], changesCheckedAt);
+    }
+
     return NextResponse.json({
       success: true,
       message: `Processed ${launches.length} launches, ${subscriptions.length} subscriptions`,
       emailsSent,
+      updatesSent,
       errors: errors.length > 0 ? errors : undefined,
+      stale,
     });
   } catch (error) {
     console.error("Cron job error:", error);
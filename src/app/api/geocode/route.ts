@@ -1,5 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { checkRateLimit } from "@/lib/rateLimit";
+import { reverseGeocode } from "@/lib/geocode";
+import { enrichLocation } from "@/lib/locationEnrichment";
+
+/**
+ * Add elevation and urban class to geocoder results. Open-Meteo results
+ * already carry an elevation, which is kept.
+ */
+async function withEnrichment<T extends { latitude: number; longitude: number; elevation?: number }>(
+  results: T[]
+) {
+  return Promise.all(
+    results.map(async (result) => {
+      const { elevation, urbanClass, bortle } = await enrichLocation(
+        result.latitude,
+        result.longitude,
+        result.elevation
+      );
+      return { ...result, elevation, urbanClass, bortle };
+    })
+  );
+}
 
 export async function GET(request: NextRequest) {
   // Rate limit: 30 requests per minute per IP
@@ -18,38 +39,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Invalid coordinates" }, { status: 400 });
     }
 
-    try {
-      const res = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?lat=${latNum}&lon=${lonNum}&format=json&zoom=10`,
-        {
-          signal: AbortSignal.timeout(5000),
-          headers: { "User-Agent": "FalconWatch/1.0 (https://falconwatch.app)" },
-        }
-      );
-
-      if (!res.ok) {
-        return NextResponse.json({ name: null });
-      }
-
-      const data = await res.json();
-      const city =
-        data.address?.city ||
-        data.address?.town ||
-        data.address?.village ||
-        data.address?.county;
-      const state = data.address?.state;
-
-      let name: string | null = null;
-      if (city && state) {
-        name = `${city}, ${state}`;
-      } else if (city) {
-        name = city;
-      }
-
-      return NextResponse.json({ name });
-    } catch {
-      return NextResponse.json({ name: null });
-    }
+    // Elevation and urban class ride along so the client can show them
+    const [name, enrichment] = await Promise.all([
+      reverseGeocode(latNum, lonNum),
+      enrichLocation(latNum, lonNum),
+    ]);
+    return NextResponse.json({ name, ...enrichment });
   }
 
   // Forward geocode mode: query → results
@@ -71,7 +66,7 @@ export async function GET(request: NextRequest) {
       }
 
       const data = await res.json();
-      const results = (data.places || []).map(
+      const places = (data.places || []).map(
         (place: {
           "place name": string;
           "state abbreviation": string;
@@ -86,7 +81,7 @@ export async function GET(request: NextRequest) {
         })
       );
 
-      return NextResponse.json({ results });
+      return NextResponse.json({ results: await withEnrichment(places) });
     } else {
       // City name → Open-Meteo geocoding
       const res = await fetch(
@@ -102,7 +97,7 @@ export async function GET(request: NextRequest) {
       }
 
       const data = await res.json();
-      return NextResponse.json({ results: data.results || [] });
+      return NextResponse.json({ results: await withEnrichment(data.results || []) });
     }
   } catch {
     return NextResponse.json(
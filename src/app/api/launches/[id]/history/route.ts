@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLaunchHistory } from "@/lib/launchHistory";
+import { summarizeLaunchChanges } from "@/lib/launchChanges";
+import { isValidLaunchId } from "@/lib/launchLinks";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+/**
+ * Recorded schedule changes for a launch: NET slips, scrubs, status, pad and
+ * window changes, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Rate limit: 60 requests per minute per IP
+  const rateCheck = checkRateLimit(request, 60, 60_000);
+  if (!rateCheck.allowed) return rateCheck.response!;
+
+  const { id } = await params;
+  if (!isValidLaunchId(id)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid launch ID" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const events = await getLaunchHistory(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        launchId: id,
+        events,
+        summary: summarizeLaunchChanges(events),
+      },
+    });
+  } catch (error) {
+    console.error("Launch history error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch launch history" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  getUpcomingLaunches,
-  getUpcomingLaunchesAllSites,
-  getPastLaunches,
-  type EnrichedLaunch,
-} from "@/lib/spacex";
+  getLaunchProvider,
+  getUpcomingLaunchSnapshot,
+  getUpcomingLaunchSnapshotAllSites,
+  getPastLaunchSnapshot,
+} from "@/lib/launchProvider";
+import type { LaunchSnapshot } from "@/lib/launchCache";
+import { getLaunchChangeSummaries } from "@/lib/launchHistory";
 import { checkRateLimit } from "@/lib/rateLimit";
 
 export const revalidate = 300; // Revalidate every 5 minutes
@@ -19,25 +21,35 @@ export async function GET(request: NextRequest) {
   const site = searchParams.get("site") || "all";
 
   try {
-    let launches: EnrichedLaunch[];
+    let snapshot: LaunchSnapshot;
 
     if (type === "past") {
-      launches = await getPastLaunches(site === "all" ? undefined : site, 10);
+      snapshot = await getPastLaunchSnapshot(site === "all" ? undefined : site, 10);
     } else {
       if (site === "all") {
-        launches = await getUpcomingLaunchesAllSites();
+        snapshot = await getUpcomingLaunchSnapshotAllSites();
       } else {
-        launches = await getUpcomingLaunches(site);
+        snapshot = await getUpcomingLaunchSnapshot(site);
       }
     }
 
+    // Schedule changes seen so far, for the card's "slipped 2× (+26h)" line
+    const summaries = await getLaunchChangeSummaries(snapshot.launches.map((l) => l.id));
+    const launches = snapshot.launches.map((launch) => ({
+      ...launch,
+      changes: summaries.get(launch.id) ?? null,
+    }));
+
     return NextResponse.json({
       success: true,
       data: launches,
       count: launches.length,
       type,
       site,
-      source: "Launch Library 2 (The Space Devs)",
+      source: getLaunchProvider().source,
+      // Stale: served from the cache past its refresh time, or the last refresh failed
+      stale: snapshot.stale,
+      fetchedAt: snapshot.fetchedAt ? new Date(snapshot.fetchedAt * 1000).toISOString() : null,
     });
   } catch (error) {
     console.error("Failed to fetch launches:", error);
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { saveSightingReport } from "@/lib/predictionStore";
+import { hashReporter } from "@/lib/encryption";
+import { checkRateLimit, getClientIp } from "@/lib/rateLimit";
+
+// Validation schema — coordinates are only used to find the location cell
+const sightingSchema = z.object({
+  launchId: z.string().min(1).max(64),
+  siteId: z.enum(["vandenberg", "cape-canaveral", "boca-chica"]),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  sawIt: z.boolean(),
+  predictedPercentage: z.number().int().min(0).max(100).nullable().optional(),
+});
+
+/**
+ * "Did you see it?" answers for calibrating the visibility model
+ */
+export async function POST(request: NextRequest) {
+  // Rate limit: 5 reports per minute per IP
+  const rateCheck = checkRateLimit(request, 5, 60_000);
+  if (!rateCheck.allowed) return rateCheck.response!;
+
+  try {
+    const body = await request.json();
+
+    const result = sightingSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: "Invalid sighting report" },
+        { status: 400 }
+      );
+    }
+
+    // One answer per reporter, launch and cell, however often the button is pressed
+    const saved = await saveSightingReport({
+      ...result.data,
+      predictedPercentage: result.data.predictedPercentage ?? null,
+      reporterHash: await hashReporter(getClientIp(request), result.data.launchId),
+    });
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: "Failed to save sighting report" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Sighting report error:", error);
+    return NextResponse.json(
+      { success: false, error: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
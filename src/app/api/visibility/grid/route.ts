@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveLaunchParams } from "@/lib/launchParams";
+import { getLaunchSite } from "@/lib/launchSites";
+import { identifyVehicle } from "@/lib/vehicles";
+import {
+  buildGridLayout,
+  evaluateVisibilityGrid,
+  getGridRadiusKm,
+  getWeatherCell,
+  getWeatherCells,
+} from "@/lib/visibilityGrid";
+import { getWeatherForecastForPoints, type ExtendedWeatherData } from "@/lib/weather";
+import { VISIBILITY_MODELS, getVisibilityModel } from "@/lib/visibilityModels";
+import { getActiveTuningProfile } from "@/lib/tuningProfile";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+export const revalidate = 1800; // Grid weather is cached for 30 minutes
+
+// Responses depend on the query string, so shared caches hold them for as long instead
+const CACHE_HEADERS = { "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=${revalidate}` };
+
+export async function GET(request: NextRequest) {
+  // Rate limit: 10 requests per minute per IP (each grid is hundreds of model runs)
+  const rateCheck = checkRateLimit(request, 10, 60_000);
+  if (!rateCheck.allowed) return rateCheck.response!;
+
+  const { searchParams } = new URL(request.url);
+
+  // Scoring model (see visibilityModels.ts)
+  const model = getVisibilityModel(searchParams.get("model"));
+  if (!model) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unknown model. Available: ${VISIBILITY_MODELS.map((m) => m.id).join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const resolved = await resolveLaunchParams(searchParams);
+    if ("error" in resolved) {
+      return NextResponse.json(
+        { success: false, error: resolved.error },
+        { status: resolved.status }
+      );
+    }
+    const { launch } = resolved;
+
+    const site = getLaunchSite(launch.siteId || "vandenberg");
+    if (!site) {
+      return NextResponse.json(
+        { success: false, error: "Unknown launch site" },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = identifyVehicle(launch.rocket?.configuration, launch.name, site.defaultVehicle);
+    const tuning = await getActiveTuningProfile();
+    const layout = buildGridLayout(site.lat, site.lon, getGridRadiusKm(vehicle.key, tuning));
+
+    // One batched forecast call covers the site plus every coarse weather block
+    const weatherCells = getWeatherCells(layout.cells);
+    const forecasts = await getWeatherForecastForPoints(
+      [
+        { lat: site.lat, lon: site.lon, name: site.name },
+        ...weatherCells.map((cell) => ({ lat: cell.lat, lon: cell.lon, name: cell.key })),
+      ],
+      launch.date_unix
+    );
+    const [launchSiteWeather, ...cellForecasts] = forecasts;
+
+    const weatherByCell = new Map<string, ExtendedWeatherData | null>();
+    weatherCells.forEach((cell, i) => weatherByCell.set(cell.key, cellForecasts[i]));
+
+    const grid = evaluateVisibilityGrid(
+      launch,
+      layout,
+      launchSiteWeather,
+      (lat, lon) => weatherByCell.get(getWeatherCell(lat, lon).key) ?? null,
+      tuning,
+      model
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        grid,
+        launchTime: launch.date_unix,
+        missionName: launch.name,
+        siteId: site.id,
+        rocketType: vehicle.key,
+        // So the map's radius ring follows the same distance tables as the scores
+        maxVisibleDistance: tuning.maxVisibleDistance,
+      },
+    }, { headers: CACHE_HEADERS });
+  } catch (error) {
+    console.error("Failed to calculate visibility grid:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to calculate visibility grid",
+      },
+      { status: 500 }
+    );
+  }
+}
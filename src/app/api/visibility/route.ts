@@ -1,19 +1,57 @@
-import { NextRequest, NextResponse } from "next/server";
-import { calculateVisibility } from "@/lib/visibility";
-import {
-  getAllWeather,
-  getWeatherForecast,
-  getWeatherForCoords,
-  getWeatherForecastForCoords,
-  type LocationKey,
-} from "@/lib/weather";
+import { NextRequest, NextResponse, after } from "next/server";
+import type { ViewingLocation } from "@/lib/visibility";
+import { DEFAULT_MODEL_ID, VISIBILITY_MODELS, getVisibilityModel } from "@/lib/visibilityModels";
+import { resolveLaunchParams } from "@/lib/launchParams";
+import { DEFAULT_SWEEP_STEP_SEC, getSweepTimes, sweepLaunchWindow, type SweepWeather } from "@/lib/windowSweep";
+import { LOCATIONS, type ExtendedWeatherData, type LocationKey } from "@/lib/weather";
+import { ENSEMBLE_MAX_LEAD_HOURS, getEnsembleForecast } from "@/lib/weatherEnsemble";
+import { calculateVisibilityDistribution } from "@/lib/visibilityEnsemble";
+import { findCounterfactuals } from "@/lib/sensitivity";
+import { getWeatherSiteKey, resolveViewingLocation, resolveWeather } from "@/lib/launchVisibility";
+import { getActiveTuningProfile } from "@/lib/tuningProfile";
+import type { PredictionSnapshot } from "@/lib/predictionStore";
 import { checkRateLimit } from "@/lib/rateLimit";
 import { validateCoords } from "@/lib/security";
 
 export const revalidate = 300; // Revalidate every 5 minutes
 
-// Valid launch site IDs that map to weather locations
-const VALID_SITE_IDS: LocationKey[] = ["vandenberg", "cape-canaveral", "boca-chica"];
+// Responses depend on the query string, so shared caches hold them for as long instead
+const CACHE_HEADERS = { "Cache-Control": `public, s-maxage=${revalidate}, stale-while-revalidate=${revalidate}` };
+
+/**
+ * Ensemble members at the launch site and viewing location for a launch time.
+ * Null when the launch is outside the ensemble's range or the fetch failed.
+ */
+async function resolveEnsemble(
+  weatherSiteKey: LocationKey,
+  viewingLocation: { lat: number; lon: number; name: string } | null,
+  launchTimestamp: number
+): Promise<{ launchSite: ExtendedWeatherData[]; viewing: ExtendedWeatherData[] } | null> {
+  const hoursUntilLaunch = (launchTimestamp - Date.now() / 1000) / 3600;
+  if (hoursUntilLaunch <= 0 || hoursUntilLaunch > ENSEMBLE_MAX_LEAD_HOURS) {
+    return null;
+  }
+
+  const site = LOCATIONS[weatherSiteKey];
+  const viewer = viewingLocation ?? LOCATIONS.phoenix;
+  const [launchSite, viewing] = await Promise.all([
+    getEnsembleForecast(site.lat, site.lon, site.name, launchTimestamp),
+    getEnsembleForecast(viewer.lat, viewer.lon, viewer.name, launchTimestamp),
+  ]);
+
+  return viewing ? { launchSite: launchSite ?? [], viewing } : null;
+}
+
+/**
+ * Snapshot a served prediction for calibration when Supabase is configured.
+ * The store is loaded lazily so the route works without it.
+ */
+async function recordPrediction(snapshot: PredictionSnapshot): Promise<void> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return;
+
+  const { savePredictionSnapshot } = await import("@/lib/predictionStore");
+  await savePredictionSnapshot(snapshot);
+}
 
 export async function GET(request: NextRequest) {
   // Rate limit: 30 requests per minute per IP
@@ -21,48 +59,46 @@ export async function GET(request: NextRequest) {
   if (!rateCheck.allowed) return rateCheck.response!;
 
   const { searchParams } = new URL(request.url);
-  const launchTime = searchParams.get("launchTime");
-  const missionName = searchParams.get("missionName") || "Unknown Mission";
-  const siteId = searchParams.get("siteId") || "vandenberg";
 
   // Custom viewing location parameters
   const customLat = searchParams.get("lat");
   const customLon = searchParams.get("lon");
   const locationName = searchParams.get("locationName") || "Custom Location";
 
-  if (!launchTime) {
+  // Scoring model (see visibilityModels.ts); compare mode runs all of them
+  const model = getVisibilityModel(searchParams.get("model"));
+  if (!model) {
     return NextResponse.json(
       {
         success: false,
-        error: "launchTime parameter is required (Unix timestamp)",
+        error: `Unknown model. Available: ${VISIBILITY_MODELS.map((m) => m.id).join(", ")}`,
       },
       { status: 400 }
     );
   }
 
   try {
-    const launchTimestamp = parseInt(launchTime, 10);
-    if (isNaN(launchTimestamp)) {
+    const resolved = await resolveLaunchParams(searchParams);
+    if ("error" in resolved) {
       return NextResponse.json(
-        { success: false, error: "Invalid launchTime" },
-        { status: 400 }
+        { success: false, error: resolved.error },
+        { status: resolved.status }
       );
     }
+    const { launch, windowBounds } = resolved;
+    const tuning = await getActiveTuningProfile();
 
-    const now = Math.floor(Date.now() / 1000);
-
-    // Determine if we should use current weather or forecast
-    const hoursUntilLaunch = (launchTimestamp - now) / 3600;
+    const launchTimestamp = launch.date_unix;
+    const missionName = launch.name;
+    // LL2 ID of the launch; inline launch descriptions can pass it as launchRef
+    const snapshotLaunchId = searchParams.get("launchId") || searchParams.get("launchRef");
+    const siteId = launch.siteId || "vandenberg";
 
     // Resolve the weather location key for the launch site
-    const weatherSiteKey: LocationKey = VALID_SITE_IDS.includes(siteId as LocationKey)
-      ? (siteId as LocationKey)
-      : "vandenberg";
-
-    let weatherLaunchSite, weatherViewing;
+    const weatherSiteKey = getWeatherSiteKey(siteId);
 
     // Parse and validate custom location if provided
-    let viewingLocation = null;
+    let viewingLocation: ViewingLocation | null = null;
     if (customLat && customLon) {
       const lat = parseFloat(customLat);
       const lon = parseFloat(customLon);
@@ -77,56 +113,157 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      viewingLocation = { lat, lon, name: locationName };
+      viewingLocation = await resolveViewingLocation({ lat, lon, name: locationName });
     }
 
-    if (hoursUntilLaunch <= 0 || hoursUntilLaunch > 120) {
-      // Launch is in the past or too far in the future (>5 days)
-      // Use current weather as approximation
-      const currentWeather = await getAllWeather(weatherSiteKey);
-      weatherLaunchSite = currentWeather.launchSite;
-
-      // Get weather for custom location or use Phoenix default
-      if (viewingLocation) {
-        weatherViewing = await getWeatherForCoords(
-          viewingLocation.lat,
-          viewingLocation.lon,
-          viewingLocation.name
-        );
-      } else {
-        weatherViewing = currentWeather.phoenix;
-      }
-    } else {
-      // Use forecast data for the launch time
-      weatherLaunchSite = await getWeatherForecast(weatherSiteKey, launchTimestamp);
-
-      // Get forecast for viewing location at launch time
-      if (viewingLocation) {
-        weatherViewing = await getWeatherForecastForCoords(
-          viewingLocation.lat,
-          viewingLocation.lon,
-          viewingLocation.name,
-          launchTimestamp
-        );
-      } else {
-        weatherViewing = await getWeatherForecast("phoenix", launchTimestamp);
+    const windowStart = parseInt(searchParams.get("windowStart") || "", 10) || windowBounds.start;
+    const windowEnd = parseInt(searchParams.get("windowEnd") || "", 10) || windowBounds.end;
+
+    if (windowEnd < windowStart) {
+      return NextResponse.json(
+        { success: false, error: "windowEnd must not be before windowStart" },
+        { status: 400 }
+      );
+    }
+
+    // Sweep mode: evaluate visibility across the launch window instead of a single time
+    if (searchParams.get("mode") === "sweep") {
+      // Forecasts are hourly, so fetch each hour once and reuse it across steps
+      const { times } = getSweepTimes(windowStart, windowEnd);
+      const weatherByHour = new Map<number, SweepWeather>();
+      for (const time of times) {
+        const hour = Math.floor(time / 3600);
+        if (!weatherByHour.has(hour)) {
+          weatherByHour.set(hour, await resolveWeather(weatherSiteKey, viewingLocation, time));
+        }
       }
+
+      const sweep = sweepLaunchWindow(
+        launch,
+        windowStart,
+        windowEnd,
+        (time) => weatherByHour.get(Math.floor(time / 3600))!,
+        viewingLocation || undefined,
+        DEFAULT_SWEEP_STEP_SEC,
+        tuning,
+        model
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          sweep,
+          missionName,
+          siteId,
+        },
+      }, { headers: CACHE_HEADERS });
     }
 
-    // Calculate visibility with site-aware algorithm
-    const visibility = calculateVisibility(
-      launchTimestamp,
-      missionName,
+    const { launchSite: weatherLaunchSite, viewing: weatherViewing } = await resolveWeather(
+      weatherSiteKey,
+      viewingLocation,
+      launchTimestamp
+    );
+
+    // Compare mode: every registered model on the same launch, location and weather
+    if (searchParams.get("mode") === "compare") {
+      return NextResponse.json({
+        success: true,
+        data: {
+          defaultModel: DEFAULT_MODEL_ID,
+          results: VISIBILITY_MODELS.map((m) => ({
+            ...m.calculate(launch, weatherLaunchSite, weatherViewing, viewingLocation || undefined, tuning),
+            description: m.description,
+          })),
+          launchTime: launchTimestamp,
+          missionName,
+          siteId,
+          weather: {
+            launchSite: weatherLaunchSite,
+            viewing: weatherViewing,
+          },
+        },
+      }, { headers: CACHE_HEADERS });
+    }
+
+    // Counterfactuals mode: the smallest changes (clouds, launch time, where and how high
+    // you stand) that would lift the rating a tier. That is about a hundred more model
+    // runs, so clients ask for them only when the details are opened.
+    if (searchParams.get("mode") === "counterfactuals") {
+      return NextResponse.json({
+        success: true,
+        data: {
+          counterfactuals: findCounterfactuals(
+            launch,
+            weatherLaunchSite,
+            weatherViewing,
+            viewingLocation || undefined,
+            { start: windowStart, end: windowEnd },
+            model,
+            tuning
+          ),
+          launchTime: launchTimestamp,
+          missionName,
+          siteId,
+        },
+      }, { headers: CACHE_HEADERS });
+    }
+
+    // Calculate visibility with the selected model
+    const visibility = model.calculate(
+      launch,
       weatherLaunchSite,
       weatherViewing,
       viewingLocation || undefined,
-      siteId
+      tuning
     );
 
+    // Keep upcoming-launch predictions for custom locations to check against sighting reports
+    if (snapshotLaunchId && viewingLocation && launchTimestamp > Date.now() / 1000) {
+      const location = viewingLocation;
+      after(() =>
+        recordPrediction({
+          launchId: snapshotLaunchId,
+          siteId,
+          launchTime: launchTimestamp,
+          lat: location.lat,
+          lon: location.lon,
+          percentage: visibility.percentage,
+          rating: visibility.rating,
+          modelId: visibility.model.id,
+          modelVersion: visibility.model.version,
+          tuningVersion: tuning.version,
+          solarElevation: visibility.factors.rawData.solarElevation,
+          distanceKm: visibility.factors.rawData.distanceKm,
+        })
+      );
+    }
+
+    // Ensemble mode: score every forecast member and use their spread as the
+    // confidence band instead of the fixed ± band
+    let distribution = null;
+    if (searchParams.get("ensemble") === "true") {
+      const ensemble = await resolveEnsemble(weatherSiteKey, viewingLocation, launchTimestamp);
+      if (ensemble) {
+        distribution = calculateVisibilityDistribution(
+          launch,
+          ensemble.launchSite,
+          ensemble.viewing,
+          viewingLocation || undefined,
+          tuning,
+          model
+        );
+      }
+    }
+
     return NextResponse.json({
       success: true,
       data: {
         ...visibility,
+        confidence: distribution
+          ? { low: distribution.p10, high: distribution.p90 }
+          : visibility.confidence,
+        distribution,
         launchTime: launchTimestamp,
         missionName,
         siteId,
@@ -135,7 +272,7 @@ export async function GET(request: NextRequest) {
           viewing: weatherViewing,
         },
       },
-    });
+    }, { headers: CACHE_HEADERS });
   } catch (error) {
     console.error("Failed to calculate visibility:", error);
     return NextResponse.json(
@@ -162,8 +299,21 @@ export async function POST(request: NextRequest) {
       weatherViewing,
       viewingLocation,
       siteId,
+      rocket,
+      mission,
     } = body;
 
+    const model = getVisibilityModel(body.model);
+    if (!model) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown model. Available: ${VISIBILITY_MODELS.map((m) => m.id).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
     if (!launchTime) {
       return NextResponse.json(
         {
@@ -187,14 +337,23 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Elevation and urban density where the caller left them out, and the
+    // terrain skyline around the viewer when elevation tiles are configured
+    const location = viewingLocation ? await resolveViewingLocation(viewingLocation) : undefined;
+
     // Calculate visibility with provided weather data and optional custom location
-    const visibility = calculateVisibility(
-      launchTime,
-      missionName || "Unknown Mission",
+    const visibility = model.calculate(
+      {
+        name: missionName || "Unknown Mission",
+        date_unix: launchTime,
+        siteId: siteId || "vandenberg",
+        rocket: rocket || undefined,
+        mission: mission || null,
+      },
       weatherLaunchSite || null,
       weatherViewing || null,
-      viewingLocation || undefined,
-      siteId || "vandenberg"
+      location,
+      await getActiveTuningProfile()
     );
 
     return NextResponse.json({
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveLaunchParams } from "@/lib/launchParams";
+import { getLaunchSite } from "@/lib/launchSites";
+import { getCandidatePoints, rankViewingSpots, type SpotCandidate } from "@/lib/spotFinder";
+import { getWeatherForecastForPoints } from "@/lib/weather";
+import { getElevations } from "@/lib/elevation";
+import { estimateLightPollution } from "@/lib/lightPollution";
+import { reverseGeocode } from "@/lib/geocode";
+import { VISIBILITY_MODELS, getVisibilityModel } from "@/lib/visibilityModels";
+import { getActiveTuningProfile } from "@/lib/tuningProfile";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { validateCoords } from "@/lib/security";
+
+export const revalidate = 1800;
+
+const DEFAULT_RADIUS_KM = 100;
+const MAX_RADIUS_KM = 300;
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 5;
+
+export async function GET(request: NextRequest) {
+  // Rate limit: 5 requests per minute per IP (weather, elevation and geocoding per search)
+  const rateCheck = checkRateLimit(request, 5, 60_000);
+  if (!rateCheck.allowed) return rateCheck.response!;
+
+  const { searchParams } = new URL(request.url);
+  const lat = parseFloat(searchParams.get("lat") || "");
+  const lon = parseFloat(searchParams.get("lon") || "");
+  const locationName = searchParams.get("locationName") || "Your location";
+
+  if (!validateCoords(lat, lon)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "lat and lon are required. Latitude must be -90 to 90, longitude -180 to 180.",
+      },
+      { status: 400 }
+    );
+  }
+
+  // Scoring model (see visibilityModels.ts)
+  const model = getVisibilityModel(searchParams.get("model"));
+  if (!model) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unknown model. Available: ${VISIBILITY_MODELS.map((m) => m.id).join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const radiusKm = Math.min(
+    MAX_RADIUS_KM,
+    Math.max(10, parseFloat(searchParams.get("radiusKm") || "") || DEFAULT_RADIUS_KM)
+  );
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, parseInt(searchParams.get("limit") || "", 10) || DEFAULT_LIMIT)
+  );
+
+  try {
+    const resolved = await resolveLaunchParams(searchParams);
+    if ("error" in resolved) {
+      return NextResponse.json(
+        { success: false, error: resolved.error },
+        { status: resolved.status }
+      );
+    }
+    const { launch } = resolved;
+
+    const site = getLaunchSite(launch.siteId || "vandenberg");
+    if (!site) {
+      return NextResponse.json(
+        { success: false, error: "Unknown launch site" },
+        { status: 400 }
+      );
+    }
+
+    // The user's location first, then the search grid
+    const points = [{ lat, lon }, ...getCandidatePoints(lat, lon, radiusKm)];
+
+    const [forecasts, elevations] = await Promise.all([
+      getWeatherForecastForPoints(
+        [
+          { lat: site.lat, lon: site.lon, name: site.name },
+          ...points.map((p) => ({ ...p, name: `${p.lat.toFixed(3)}, ${p.lon.toFixed(3)}` })),
+        ],
+        launch.date_unix
+      ),
+      getElevations(points),
+    ]);
+    const [launchSiteWeather, ...pointWeather] = forecasts;
+
+    const candidates: SpotCandidate[] = points.map((p, i) => ({
+      lat: p.lat,
+      lon: p.lon,
+      elevation: elevations[i],
+      lightPollution: estimateLightPollution(p.lat, p.lon),
+      weather: pointWeather[i],
+    }));
+    const [origin, ...searchCandidates] = candidates;
+
+    const result = rankViewingSpots(
+      launch,
+      { ...origin, name: locationName },
+      searchCandidates,
+      launchSiteWeather,
+      radiusKm,
+      limit,
+      await getActiveTuningProfile(),
+      model
+    );
+
+    // Name each spot; reverseGeocode spaces requests for Nominatim's 1 request/second policy
+    for (const spot of result.spots) {
+      spot.name = await reverseGeocode(spot.lat, spot.lon);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        radiusKm,
+        launchTime: launch.date_unix,
+        missionName: launch.name,
+        siteId: site.id,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to find viewing spots:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to find viewing spots",
+      },
+      { status: 500 }
+    );
+  }
+}
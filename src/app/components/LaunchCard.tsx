@@ -1,8 +1,9 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { motion } from "framer-motion";
 import { DataRow, LEDText } from "./RetroDisplay";
+import type { LaunchChangeSummary } from "../../lib/launchChanges";
 
 const SITE_NAMES: Record<string, string> = {
   vandenberg: "Vandenberg",
@@ -14,7 +15,7 @@ interface LaunchCardProps {
   mission: {
     name: string;
     date_utc: string;
-    date_local: string;
+    date_local?: string;
     details: string | null;
     links: {
       patch: { small: string | null };
@@ -37,11 +38,15 @@ interface LaunchCardProps {
     }>;
     siteId?: string;
     spacexUrl?: string | null;
+    changes?: LaunchChangeSummary | null;
   } | null;
   lastRefresh?: Date | null;
+  shareHref?: string; // launch page link, copied by the Share action
 }
 
-export default function LaunchCard({ mission, lastRefresh }: LaunchCardProps) {
+export default function LaunchCard({ mission, lastRefresh, shareHref }: LaunchCardProps) {
+  const [copiedHref, setCopiedHref] = useState<string | null>(null);
+
   if (!mission) {
     return (
       <div className="retro-panel p-6">
@@ -203,6 +208,9 @@ export default function LaunchCard({ mission, lastRefresh }: LaunchCardProps) {
           label="Launch Site"
           value={mission.siteId ? SITE_NAMES[mission.siteId] || mission.launchpadData?.name || "Unknown" : mission.launchpadData?.name || "SLC-4E"}
         />
+        {mission.changes?.text && (
+          <DataRow label="Schedule" value={mission.changes.text} />
+        )}
         {payload && (
           <>
             <DataRow
@@ -257,6 +265,26 @@ export default function LaunchCard({ mission, lastRefresh }: LaunchCardProps) {
             Add to Calendar
           </span>
         </button>
+        {shareHref && (
+          <a
+            href={shareHref}
+            onClick={(e) => {
+              e.preventDefault();
+              navigator.clipboard
+                .writeText(new URL(shareHref, window.location.origin).href)
+                .then(() => setCopiedHref(shareHref))
+                .catch(() => window.location.assign(shareHref));
+            }}
+            className="inline-flex items-center gap-2 text-nasa-blue hover:text-nasa-blue/80 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+            </svg>
+            <span className="font-mono text-sm uppercase tracking-wider">
+              {copiedHref === shareHref ? "Link Copied" : "Share"}
+            </span>
+          </a>
+        )}
       </div>
 
       {/* Last refresh */}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useSyncExternalStore, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import useSWR from "swr";
+import { motion } from "framer-motion";
+import LaunchCard from "./LaunchCard";
+import VisibilityHero from "./VisibilityHero";
+import VisibilityMap from "./VisibilityMap";
+import { calculateSolarElevation } from "../../lib/visibility";
+import { getMaxVisibleRadiusKm, detectRocketType, getLightingCondition, getLightingLabel } from "../../lib/visibilityRadius";
+import { getLaunchSite } from "../../lib/launchSites";
+import { getLaunchPath, type LinkViewer } from "../../lib/launchLinks";
+import type { EnrichedLaunch } from "../../lib/spacex";
+import type { LaunchChangeSummary } from "../../lib/launchChanges";
+
+// SWR fetcher with error handling
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error(`Request failed: ${res.status}`);
+    return res.json();
+  });
+
+// Hero, map and card format times in the browser's time zone, so they render
+// only after hydration
+const subscribeNever = () => () => {};
+
+// The server's prediction for the viewer in the link, trimmed to what the hero shows
+export interface LaunchDetailVisibility {
+  percentage: number;
+  rating: "poor" | "fair" | "good" | "excellent";
+  optimalWindow: {
+    startFormatted: string | null;
+    endFormatted: string | null;
+    description: string;
+  };
+  recommendations: string[];
+  viewingLocation: {
+    name: string;
+    distance: number;
+  };
+  factors: {
+    subScores: {
+      cloud: number;
+      sun: number;
+      distance: number;
+      clarity: number;
+    };
+    rawData: {
+      cloudFraction: number;
+      solarElevation: number;
+      distanceKm: number;
+      surfaceVisibilityKm: number;
+      rocketType: string;
+      launchAzimuth: number;
+    };
+  };
+  fatalBlocker: string | null;
+  firstVisible: {
+    tPlusFormatted: string;
+    elevation: number;
+    compass: string;
+  } | null;
+}
+
+interface LaunchDetailProps {
+  launch: EnrichedLaunch & { changes: LaunchChangeSummary | null };
+  viewer: LinkViewer | null;
+  visibility: LaunchDetailVisibility | null;
+}
+
+export default function LaunchDetail({ launch, viewer, visibility }: LaunchDetailProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const isClient = useSyncExternalStore(subscribeNever, () => true, () => false);
+
+  const siteId = launch.siteId || "vandenberg";
+  const site = getLaunchSite(siteId);
+
+  // The viewer lives in the URL, so a new location is a new link
+  const handleLocationChange = (location: LinkViewer) => {
+    startTransition(() => {
+      router.replace(getLaunchPath(launch.id, location), { scroll: false });
+    });
+  };
+
+  // Visibility heatmap across the region for the map
+  const { data: gridData } = useSWR(
+    `/api/visibility/grid?launchId=${encodeURIComponent(launch.id)}`,
+    fetcher,
+    { refreshInterval: 1800000 }
+  );
+
+  const rocketConfiguration = launch.rocketData
+    ? { id: launch.rocketData.id, full_name: launch.rocketData.name, family: launch.rocketData.type }
+    : null;
+  const solarElevation = visibility?.factors.rawData.solarElevation
+    ?? (site ? calculateSolarElevation(site.lat, site.lon, launch.date_unix) : -9);
+  const rocketType = visibility?.factors.rawData.rocketType
+    ?? detectRocketType(launch.name, rocketConfiguration, site?.defaultVehicle);
+  const visibilityRadius = getMaxVisibleRadiusKm(
+    solarElevation,
+    rocketType,
+    gridData?.success ? gridData.data.maxVisibleDistance : undefined
+  );
+  const lightingLabel = getLightingLabel(getLightingCondition(solarElevation));
+
+  if (!isClient) {
+    return <div className="retro-panel p-6 h-64 animate-pulse" aria-hidden />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <motion.section
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <VisibilityHero
+          percentage={visibility?.percentage || 0}
+          rating={visibility?.rating || "poor"}
+          optimalWindow={visibility?.optimalWindow}
+          recommendations={visibility?.recommendations}
+          viewingLocation={visibility?.viewingLocation}
+          factors={visibility?.factors}
+          fatalBlocker={visibility?.fatalBlocker}
+          counterfactualsUrl={viewer && `/api/visibility?mode=counterfactuals&launchId=${encodeURIComponent(launch.id)}&lat=${viewer.lat}&lon=${viewer.lon}&locationName=${encodeURIComponent(viewer.name)}`}
+          firstVisible={visibility?.firstVisible}
+          loading={isPending}
+          launchDate={new Date(launch.date_utc)}
+          missionName={launch.name}
+          launchId={launch.id}
+          siteId={siteId}
+          viewerCoords={viewer}
+          siteName={siteId !== "vandenberg" ? (launch.launchpadData?.full_name || siteId) : undefined}
+          locationSet={!!viewer}
+          onSetLocation={handleLocationChange}
+        />
+      </motion.section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.1 }}
+        >
+          <VisibilityMap
+            visibilityPercentage={visibility?.percentage || 50}
+            viewingLocation={viewer}
+            onLocationChange={handleLocationChange}
+            siteId={siteId}
+            visibilityRadiusKm={visibilityRadius}
+            radiusLabel={`~${Math.round(visibilityRadius * 0.621371)}mi ${lightingLabel} visibility`}
+            launchAzimuth={visibility?.factors.rawData.launchAzimuth}
+            grid={gridData?.success ? gridData.data.grid : null}
+            rocketType={rocketType}
+          />
+        </motion.section>
+
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.15 }}
+        >
+          <LaunchCard mission={launch} shareHref={getLaunchPath(launch.id, viewer)} />
+        </motion.section>
+      </div>
+    </div>
+  );
+}
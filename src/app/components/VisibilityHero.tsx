@@ -2,6 +2,14 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import useSWR from "swr";
+
+// SWR fetcher with error handling
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error(`Request failed: ${res.status}`);
+    return res.json();
+  });
 
 // Feedback storage key
 const FEEDBACK_STORAGE_KEY = "falconwatch_visibility_feedback";
@@ -17,6 +25,7 @@ interface SubScores {
   sun: number;
   distance: number;
   clarity: number;
+  moon?: number;
 }
 
 interface RawData {
@@ -24,9 +33,22 @@ interface RawData {
   solarElevation: number;
   distanceKm: number;
   surfaceVisibilityKm: number;
+  moonIllumination?: number;
+  moonAltitude?: number;
+  moonSeparation?: number | null;
 }
 
 
+interface SkyPosition {
+  tPlusFormatted: string;
+  elevation: number;
+  compass: string;
+}
+
+interface Counterfactual {
+  factor: string;
+  description: string;
+}
 interface ViewingLocationInput {
   name: string;
   lat: number;
@@ -47,9 +69,15 @@ interface VisibilityHeroProps {
     rawData: RawData;
   };
   fatalBlocker?: string | null;
+  counterfactualsUrl?: string | null; // /api/visibility?mode=counterfactuals for the same query
+  firstVisible?: SkyPosition | null;
+  windowSummary?: string | null;
   loading?: boolean;
   launchDate?: Date | null;
   missionName?: string;
+  launchId?: string;
+  siteId?: string;
+  viewerCoords?: { lat: number; lon: number } | null;
   siteName?: string;
   locationSet?: boolean;
   onSetLocation?: (location: ViewingLocationInput) => void;
@@ -237,10 +265,16 @@ function VisibilityFeedback({
   missionName,
   predictedPercentage,
   launchDate,
+  launchId,
+  siteId,
+  viewerCoords,
 }: {
   missionName?: string;
   predictedPercentage: number;
   launchDate?: Date | null;
+  launchId?: string;
+  siteId?: string;
+  viewerCoords?: { lat: number; lon: number } | null;
 }) {
   const [feedbackGiven, setFeedbackGiven] = useState<"yes" | "no" | null>(null);
   const [showThanks, setShowThanks] = useState(false);
@@ -278,6 +312,25 @@ function VisibilityFeedback({
       };
 
       localStorage.setItem(FEEDBACK_STORAGE_KEY, JSON.stringify(feedbackData));
+
+      // Also report it for calibration; the server only keeps the location's grid cell
+      if (launchId && siteId && viewerCoords) {
+        fetch("/api/sightings", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            launchId,
+            siteId,
+            lat: viewerCoords.lat,
+            lon: viewerCoords.lon,
+            sawIt,
+            predictedPercentage,
+          }),
+        }).catch(() => {
+          // Feedback is still kept locally
+        });
+      }
+
       setFeedbackGiven(sawIt ? "yes" : "no");
       setShowThanks(true);
 
@@ -286,7 +339,7 @@ function VisibilityFeedback({
     } catch (e) {
       // Ignore storage errors
     }
-  }, [missionName, predictedPercentage, launchDate]);
+  }, [missionName, predictedPercentage, launchDate, launchId, siteId, viewerCoords]);
 
   // Don't show if launch is more than 1 hour in the future
   if (launchDate && launchDate.getTime() - Date.now() > 60 * 60 * 1000) {
@@ -370,9 +423,15 @@ export default function VisibilityHero({
   viewingLocation,
   factors,
   fatalBlocker,
+  counterfactualsUrl,
+  firstVisible,
+  windowSummary,
   loading = false,
   launchDate,
   missionName,
+  launchId,
+  siteId,
+  viewerCoords,
   siteName,
   locationSet = true,
   onSetLocation,
@@ -388,6 +447,15 @@ export default function VisibilityHero({
   const abortRef = useRef<AbortController>(undefined);
   const heroInputRef = useRef<HTMLInputElement>(null);
 
+  // Counterfactuals take ~100 extra model runs, so they load only once the details are open
+  const { data: counterfactualData } = useSWR(
+    isExpanded && counterfactualsUrl ? counterfactualsUrl : null,
+    fetcher
+  );
+  const counterfactuals: Counterfactual[] = counterfactualData?.success
+    ? counterfactualData.data.counterfactuals
+    : [];
+
   // Location search handler — uses our own API route (handles both city names and ZIP codes)
   const handleLocationSearch = async (query: string) => {
     const trimmed = query.trim();
@@ -531,6 +599,15 @@ export default function VisibilityHero({
 
   const clarityGood = subScores.clarity >= 0.5;
 
+  // Moon: only worth describing when it's above the horizon
+  const moonStatus = rawData.moonAltitude === undefined || rawData.moonIllumination === undefined
+    ? null
+    : rawData.moonAltitude <= 0
+      ? "Below horizon"
+      : rawData.moonSeparation != null
+        ? `${Math.round(rawData.moonIllumination * 100)}% lit, ${rawData.moonSeparation}° from path`
+        : `${Math.round(rawData.moonIllumination * 100)}% lit`;
+
   if (loading) {
     return (
       <div className="retro-panel-orange p-8 md:p-12">
@@ -804,8 +881,20 @@ export default function VisibilityHero({
                 <p className="font-mono text-lg sm:text-xl text-mission-green font-bold">
                   {optimalWindow.startFormatted} - {optimalWindow.endFormatted}
                 </p>
+                {firstVisible && (
+                  <p className="text-xs text-mission-green/70 mt-1">
+                    {firstVisible.compass}, {Math.round(firstVisible.elevation)}° up at {firstVisible.tPlusFormatted}
+                  </p>
+                )}
               </div>
             )}
+
+            {/* How the score changes if the launch slips within its window */}
+            {windowSummary && (
+              <p className="mt-2 text-xs text-off-white/60 max-w-xs lg:ml-auto">
+                {windowSummary}
+              </p>
+            )}
           </div>
         </div>
 
@@ -925,6 +1014,13 @@ export default function VisibilityHero({
                         value={`${Math.round(rawData.surfaceVisibilityKm * 0.621371)} mi visibility`}
                         score={subScores.clarity}
                       />
+                      {subScores.moon !== undefined && moonStatus && (
+                        <DetailRow
+                          label="Moonlight"
+                          value={moonStatus}
+                          score={subScores.moon}
+                        />
+                      )}
                     </div>
                   </div>
 
@@ -961,11 +1057,31 @@ export default function VisibilityHero({
                   </div>
                 </div>
 
+                {/* What would change it - smallest change per input that lifts the rating */}
+                {counterfactuals.length > 0 && (
+                  <div>
+                    <h4 className="text-sm uppercase tracking-widest text-off-white/50 mb-3">
+                      What Would Improve It
+                    </h4>
+                    <ul className="space-y-2">
+                      {counterfactuals.map((cf) => (
+                        <li key={cf.factor} className="flex items-start gap-2 text-sm text-off-white/70">
+                          <span className="text-mission-green mt-0.5">↑</span>
+                          <span>{cf.description}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* User Feedback - appears when launch is imminent or past */}
                 <VisibilityFeedback
                   missionName={missionName}
                   predictedPercentage={percentage}
                   launchDate={launchDate}
+                  launchId={launchId}
+                  siteId={siteId}
+                  viewerCoords={viewerCoords}
                 />
               </div>
             </motion.div>
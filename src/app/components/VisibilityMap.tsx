@@ -4,6 +4,9 @@ import { useEffect, useState, useMemo } from "react";
 import { motion } from "framer-motion";
 import dynamic from "next/dynamic";
 import LocationSettings from "./LocationSettings";
+import { getLaunchSite, LAUNCH_SITES } from "../../lib/launchSites";
+import { getSiteTrajectory, getGroundTrack } from "../../lib/trajectory";
+import { getVisibilityColor } from "../../lib/visibility";
 import "leaflet/dist/leaflet.css";
 
 // Dynamically import Leaflet components to avoid SSR issues
@@ -31,59 +34,14 @@ const Circle = dynamic(
   () => import("react-leaflet").then((mod) => mod.Circle),
   { ssr: false }
 );
+const Rectangle = dynamic(
+  () => import("react-leaflet").then((mod) => mod.Rectangle),
+  { ssr: false }
+);
 
-// Site configurations for the map
-// Trajectory points represent ground track at T+0, T+1m, T+2m, T+3m, T+4m, T+5m
-// Source: SpaceX webcast telemetry, FAA EIS, NOTAM closure zones
-const SITE_CONFIGS: Record<string, {
-  name: string;
-  padLabel: string;
-  center: { lat: number; lng: number };
-  trajectoryPoints: [number, number][];
-}> = {
-  vandenberg: {
-    name: "Vandenberg SFB",
-    padLabel: "Launch Site SLC-4E",
-    center: { lat: 34.6321, lng: -120.6107 },
-    // SSO azimuth 190° (nearly due south, slight westward drift)
-    trajectoryPoints: [
-      [34.632, -120.611],   // T+0: Liftoff
-      [34.579, -120.622],   // T+1m: ~12km alt
-      [34.190, -120.705],   // T+2m: ~50km alt
-      [33.791, -120.790],   // T+3m: MECO/sep ~75km
-      [32.951, -120.968],   // T+4m: ~130km alt
-      [31.889, -121.194],   // T+5m: ~170km alt
-    ],
-  },
-  "cape-canaveral": {
-    name: "Cape Canaveral SFS",
-    padLabel: "Launch Complex 39A / SLC-40",
-    center: { lat: 28.5620, lng: -80.5772 },
-    // Starlink 53° incl: azimuth 43° (northeast over Atlantic)
-    trajectoryPoints: [
-      [28.562, -80.577],   // T+0: Liftoff
-      [28.601, -80.535],   // T+1m: ~12km alt
-      [28.923, -80.194],   // T+2m: ~55km alt
-      [29.219, -79.880],   // T+3m: MECO/sep ~78km
-      [29.745, -79.323],   // T+4m: ~135km alt
-      [30.862, -78.139],   // T+5m: ~175km alt
-    ],
-  },
-  "boca-chica": {
-    name: "Starbase",
-    padLabel: "Starbase Launch Site",
-    center: { lat: 25.9972, lng: -97.1571 },
-    // Starship: azimuth ~97° (east over Gulf of Mexico)
-    trajectoryPoints: [
-      [25.997, -97.157],   // T+0: Liftoff
-      [25.994, -97.127],   // T+1m: ~8km alt
-      [25.959, -96.810],   // T+2m: ~40km alt
-      [25.909, -96.364],   // T+3m: hot-staging ~75km
-      [25.810, -95.470],   // T+4m: ~110km alt
-      [25.712, -94.578],   // T+5m: ~150km alt
-    ],
-  },
-};
+// Ground track shown on the map: liftoff through T+5m, one vertex every 10s
+const MAP_TRACK_SEC = 300;
+const MAP_TRACK_STEP_SEC = 10;
 
 interface ViewingLocation {
   name: string;
@@ -91,6 +49,17 @@ interface ViewingLocation {
   lon: number;
 }
 
+// Raster from /api/visibility/grid: row-major percentages, row 0 at the southern edge
+export interface VisibilityGridData {
+  bounds: { south: number; west: number; north: number; east: number };
+  rows: number;
+  cols: number;
+  values: (number | null)[];
+}
+
+// Cells below this score are left transparent so the base map shows through
+const HEATMAP_MIN_PERCENTAGE = 5;
+
 interface VisibilityMapProps {
   visibilityPercentage?: number;
   viewingLocation?: ViewingLocation | null;
@@ -98,6 +67,9 @@ interface VisibilityMapProps {
   siteId?: string;
   visibilityRadiusKm?: number;
   radiusLabel?: string;
+  launchAzimuth?: number;
+  rocketType?: string;
+  grid?: VisibilityGridData | null;
 }
 
 export default function VisibilityMap({
@@ -107,16 +79,52 @@ export default function VisibilityMap({
   siteId = "vandenberg",
   visibilityRadiusKm = 800,
   radiusLabel,
+  launchAzimuth,
+  rocketType = "falcon9",
+  grid,
 }: VisibilityMapProps) {
   const [isClient, setIsClient] = useState(false);
   const [L, setL] = useState<typeof import("leaflet") | null>(null);
 
   // Get site config, falling back to vandenberg
   const siteConfig = useMemo(() =>
-    SITE_CONFIGS[siteId] || SITE_CONFIGS.vandenberg,
+    getLaunchSite(siteId) || LAUNCH_SITES.vandenberg,
     [siteId]
   );
 
+  // Generated ground track for this mission's azimuth and vehicle
+  const trajectory = useMemo(() =>
+    getSiteTrajectory(
+      siteConfig,
+      launchAzimuth ?? siteConfig.defaultAzimuth,
+      rocketType,
+      MAP_TRACK_SEC,
+      MAP_TRACK_STEP_SEC
+    ),
+    [siteConfig, launchAzimuth, rocketType]
+  );
+
+  // Heatmap cells as colored rectangles
+  const heatmapCells = useMemo(() => {
+    if (!grid) return [];
+    const latStep = (grid.bounds.north - grid.bounds.south) / grid.rows;
+    const lonStep = (grid.bounds.east - grid.bounds.west) / grid.cols;
+
+    return grid.values.flatMap((value, i) => {
+      if (value === null || value < HEATMAP_MIN_PERCENTAGE) return [];
+      const row = Math.floor(i / grid.cols);
+      const col = i % grid.cols;
+      const south = grid.bounds.south + row * latStep;
+      const west = grid.bounds.west + col * lonStep;
+      return [{
+        key: i,
+        bounds: [[south, west], [south + latStep, west + lonStep]] as [[number, number], [number, number]],
+        color: getVisibilityColor(value),
+        opacity: 0.15 + 0.35 * (value / 100),
+      }];
+    });
+  }, [grid]);
+
   useEffect(() => {
     setIsClient(true);
     import("leaflet").then((leaflet) => {
@@ -145,7 +153,7 @@ export default function VisibilityMap({
     return Math.round(R * c);
   };
 
-  const launchSite = siteConfig.center;
+  const launchSite = siteConfig.mapCenter;
 
   const distance = viewingLocation
     ? calculateDistance(
@@ -255,6 +263,12 @@ export default function VisibilityMap({
             <div className="w-2 h-2 rounded-full bg-mission-green" />
             <span className="text-off-white/50">You</span>
           </div>
+          {heatmapCells.length > 0 && (
+            <div className="flex items-center gap-1">
+              <div className="w-3 h-3 rounded-sm bg-gradient-to-r from-[#ff4444] via-[#FFB800] to-[#00FF41] opacity-70" />
+              <span className="text-off-white/50">Score</span>
+            </div>
+          )}
           <div className="flex items-center gap-1">
             <div className="w-3 h-3 rounded-full border border-dashed border-nasa-blue bg-nasa-blue/10" />
             <span className="text-off-white/50 hidden sm:inline">{radiusLabel || `~${Math.round(visibilityRadiusKm * 0.621371)}mi visibility`}</span>
@@ -283,6 +297,19 @@ export default function VisibilityMap({
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
 
+          {/* Visibility heatmap from the grid API */}
+          {heatmapCells.map((cell) => (
+            <Rectangle
+              key={cell.key}
+              bounds={cell.bounds}
+              pathOptions={{
+                stroke: false,
+                fillColor: cell.color,
+                fillOpacity: cell.opacity,
+              }}
+            />
+          ))}
+
           {/* Visibility radius from launch site */}
           <Circle
             center={[launchSite.lat, launchSite.lng]}
@@ -298,7 +325,7 @@ export default function VisibilityMap({
 
           {/* Trajectory line */}
           <Polyline
-            positions={siteConfig.trajectoryPoints}
+            positions={getGroundTrack(trajectory)}
             pathOptions={{
               color: "#FF6B35",
               weight: 3,
@@ -307,9 +334,9 @@ export default function VisibilityMap({
             }}
           />
 
-          {/* Animated trajectory highlight */}
+          {/* First-stage burn highlight (liftoff to MECO/staging) */}
           <Polyline
-            positions={siteConfig.trajectoryPoints.slice(0, 3)}
+            positions={getGroundTrack(trajectory, trajectory.firstStageSec)}
             pathOptions={{
               color: "#FFB800",
               weight: 5,
@@ -398,7 +425,7 @@ export default function VisibilityMap({
         </div>
         {/* Visibility explanation - hidden on mobile, shown on larger screens */}
         <p className="text-xs text-off-white/30 hidden sm:block">
-          Blue circle shows how far the launch has been seen under similar conditions, based on confirmed sighting reports. Weather and air clarity affect actual results.
+          Blue circle shows how far the launch has been seen under similar conditions, based on confirmed sighting reports. {heatmapCells.length > 0 ? "Shading shows the viewing score across the region, including each area's forecast weather." : "Weather and air clarity affect actual results."}
         </p>
       </div>
     </motion.div>
@@ -0,0 +1,154 @@
+import { ImageResponse } from "next/og";
+import { getLaunchById } from "@/lib/launchProvider";
+import { getLaunchSite } from "@/lib/launchSites";
+import { predictLaunchVisibility } from "@/lib/launchVisibility";
+import { isValidLaunchId, type LinkViewer } from "@/lib/launchLinks";
+
+export const size = { width: 1200, height: 630 };
+
+// Same thresholds and colors as the verdict on the visibility hero
+function getVerdict(percentage: number, fatalBlocker: string | null): { text: string; color: string } {
+  if (fatalBlocker || percentage < 30) return { text: "Unlikely", color: "#ff4444" };
+  if (percentage >= 75) return { text: "Excellent", color: "#00FF41" };
+  if (percentage >= 50) return { text: "Visible", color: "#FFB800" };
+  return { text: "Possible", color: "#FF6B35" };
+}
+
+/**
+ * Open Graph card for a launch: mission, site, time in the site's time zone and the
+ * predicted visibility for the viewer (from the launch site itself when none is given)
+ */
+export async function renderLaunchImage(
+  launchId: string,
+  viewer: LinkViewer | null
+): Promise<ImageResponse> {
+  const launch = isValidLaunchId(launchId) ? await getLaunchById(launchId) : null;
+  const prediction = launch ? await predictLaunchVisibility(launch, viewer) : null;
+
+  const site = launch?.siteId ? getLaunchSite(launch.siteId) : undefined;
+  const launchTime = launch
+    ? new Date(launch.date_utc).toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: site?.timezone ?? "UTC",
+        timeZoneName: "short",
+      })
+    : null;
+  const verdict = prediction
+    ? getVerdict(prediction.visibility.percentage, prediction.visibility.fatalBlocker)
+    : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          background: "linear-gradient(135deg, #0a0e1a 0%, #0d1b2a 50%, #1b2838 100%)",
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "56px 64px",
+          position: "relative",
+          overflow: "hidden",
+        }}
+      >
+        {/* Stars background */}
+        {Array.from({ length: 40 }).map((_, i) => (
+          <div
+            key={i}
+            style={{
+              position: "absolute",
+              width: i % 3 === 0 ? "3px" : "2px",
+              height: i % 3 === 0 ? "3px" : "2px",
+              background: "white",
+              borderRadius: "50%",
+              opacity: 0.3 + (i % 5) * 0.1,
+              top: `${(i * 37) % 100}%`,
+              left: `${(i * 53) % 100}%`,
+            }}
+          />
+        ))}
+
+        {/* Brand */}
+        <div
+          style={{
+            fontSize: "28px",
+            fontWeight: 800,
+            color: "#FF6B35",
+            letterSpacing: "0.15em",
+            display: "flex",
+          }}
+        >
+          🚀 FALCONWATCH
+        </div>
+
+        {/* Mission, site and time */}
+        <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+          <div
+            style={{
+              fontSize: "60px",
+              fontWeight: 800,
+              color: "white",
+              lineHeight: 1.1,
+              display: "flex",
+            }}
+          >
+            {launch?.name ?? "Launch not found"}
+          </div>
+          {launch && (
+            <div style={{ fontSize: "28px", color: "rgba(255,255,255,0.7)", display: "flex" }}>
+              {site?.name ?? launch.pad.location.name}
+            </div>
+          )}
+          {launchTime && (
+            <div style={{ fontSize: "28px", color: "rgba(255,255,255,0.5)", display: "flex" }}>
+              {launchTime}
+            </div>
+          )}
+        </div>
+
+        {/* Predicted visibility */}
+        {prediction && verdict ? (
+          <div style={{ display: "flex", alignItems: "flex-end", gap: "24px" }}>
+            <div
+              style={{
+                fontSize: "96px",
+                fontWeight: 800,
+                color: verdict.color,
+                lineHeight: 1,
+                display: "flex",
+              }}
+            >
+              {`${prediction.visibility.percentage}%`}
+            </div>
+            <div style={{ display: "flex", flexDirection: "column", paddingBottom: "8px" }}>
+              <div
+                style={{
+                  fontSize: "32px",
+                  color: verdict.color,
+                  letterSpacing: "0.1em",
+                  textTransform: "uppercase",
+                  display: "flex",
+                }}
+              >
+                {verdict.text}
+              </div>
+              <div style={{ fontSize: "24px", color: "rgba(255,255,255,0.6)", display: "flex" }}>
+                {`visibility from ${prediction.visibility.viewingLocation.name}`}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div style={{ fontSize: "28px", color: "rgba(255,255,255,0.7)", display: "flex" }}>
+            Can you see the launch from your city?
+          </div>
+        )}
+      </div>
+    ),
+    { ...size }
+  );
+}
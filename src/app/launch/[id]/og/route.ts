@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { renderLaunchImage } from "../launchImage";
+import { parseLinkViewer } from "@/lib/launchLinks";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+/**
+ * Open Graph image for a launch link with a viewer (?lat=&lon=&name=)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Rate limit: 30 requests per minute per IP
+  const rateCheck = checkRateLimit(request, 30, 60_000);
+  if (!rateCheck.allowed) return rateCheck.response!;
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const viewer = parseLinkViewer(
+    searchParams.get("lat"),
+    searchParams.get("lon"),
+    searchParams.get("name")
+  );
+
+  return renderLaunchImage(id, viewer);
+}
@@ -0,0 +1,11 @@
+import { renderLaunchImage } from "./launchImage";
+
+export { size } from "./launchImage";
+export const alt = "FalconWatch - launch visibility prediction";
+export const contentType = "image/png";
+
+// Card without a viewer; links with one point at ./og (see generateMetadata in page.tsx)
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return renderLaunchImage(id, null);
+}
@@ -0,0 +1,240 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import StarField from "../../components/StarField";
+import AccessibilityToggle from "../../components/AccessibilityToggle";
+import LaunchDetail, { type LaunchDetailVisibility } from "../../components/LaunchDetail";
+import { DataRow, PanelHeader } from "../../components/RetroDisplay";
+import { getLaunchById } from "@/lib/launchProvider";
+import { getLaunchSite } from "@/lib/launchSites";
+import { getLaunchHistory } from "@/lib/launchHistory";
+import { describeLaunchChange, summarizeLaunchChanges } from "@/lib/launchChanges";
+import { getWeatherSiteKey, predictLaunchVisibility, resolveLaunchSiteWeather } from "@/lib/launchVisibility";
+import { getLaunchImagePath, getLaunchPath, isValidLaunchId, parseLinkViewer } from "@/lib/launchLinks";
+import type { ExtendedWeatherData, WeatherData } from "@/lib/weather";
+import { size as imageSize } from "./launchImage";
+
+interface LaunchPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const firstValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+async function resolvePage({ params, searchParams }: LaunchPageProps) {
+  const [{ id }, query] = await Promise.all([params, searchParams]);
+  const launch = isValidLaunchId(id) ? await getLaunchById(id) : null;
+  const viewer = parseLinkViewer(firstValue(query.lat), firstValue(query.lon), firstValue(query.name));
+  return { launch, viewer };
+}
+
+/**
+ * Launch time in the site's own time zone, e.g. "Tue, Oct 21, 2025, 6:42 PM PDT"
+ */
+function formatSiteTime(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  });
+}
+
+export async function generateMetadata(props: LaunchPageProps): Promise<Metadata> {
+  const { launch, viewer } = await resolvePage(props);
+  if (!launch) return { title: "Launch not found | FalconWatch" };
+
+  const site = launch.siteId ? getLaunchSite(launch.siteId) : undefined;
+  const title = viewer
+    ? `${launch.name} from ${viewer.name} | FalconWatch`
+    : `${launch.name} | FalconWatch`;
+  const description = `${site?.name ?? launch.pad.location.name} · ${formatSiteTime(launch.date_utc, site?.timezone ?? "UTC")}. ` +
+    (viewer
+      ? `Can you see it from ${viewer.name}? Visibility prediction, weather and launch history.`
+      : "Visibility predictions, weather and launch history.");
+
+  return {
+    title,
+    description,
+    alternates: { canonical: getLaunchPath(launch.id, viewer) },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: getLaunchPath(launch.id, viewer),
+      // Metadata images don't see the query string, so viewer links use ./og instead
+      // of ./opengraph-image
+      ...(viewer && { images: [{ url: getLaunchImagePath(launch.id, viewer), ...imageSize }] }),
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+function WeatherPanel({ title, weather }: { title: string; weather: WeatherData | ExtendedWeatherData | null }) {
+  return (
+    <div>
+      <h4 className="text-xs text-off-white/50 uppercase tracking-wider mb-1">{title}</h4>
+      {weather ? (
+        <>
+          <DataRow label="Conditions" value={weather.description} />
+          <DataRow label="Cloud Cover" value={weather.clouds} unit="%" />
+          <DataRow label="Temperature" value={weather.temperature} unit="°F" />
+          <DataRow label="Wind" value={weather.wind_speed} unit="mph" />
+          <DataRow label="Visibility" value={Math.round(weather.visibility / 1609)} unit="mi" />
+        </>
+      ) : (
+        <p className="text-sm text-off-white/50 py-2">Weather unavailable</p>
+      )}
+    </div>
+  );
+}
+
+export default async function LaunchPage(props: LaunchPageProps) {
+  const { launch, viewer } = await resolvePage(props);
+  if (!launch) notFound();
+
+  const site = launch.siteId ? getLaunchSite(launch.siteId) : undefined;
+  const timeZone = site?.timezone ?? "UTC";
+  const formatTime = (iso: string) => formatSiteTime(iso, timeZone);
+
+  // The hero describes the viewer in the link; without one it asks for a location, so
+  // only the launch site's weather is needed
+  const [prediction, siteWeather, history] = await Promise.all([
+    viewer ? predictLaunchVisibility(launch, viewer) : null,
+    viewer ? null : resolveLaunchSiteWeather(getWeatherSiteKey(launch.siteId), launch.date_unix),
+    getLaunchHistory(launch.id),
+  ]);
+  const changes = summarizeLaunchChanges(history);
+
+  let visibility: LaunchDetailVisibility | null = null;
+  if (prediction?.viewingLocation) {
+    const result = prediction.visibility;
+    visibility = {
+      percentage: result.percentage,
+      rating: result.rating,
+      optimalWindow: {
+        startFormatted: result.optimalWindow.startFormatted,
+        endFormatted: result.optimalWindow.endFormatted,
+        description: result.optimalWindow.description,
+      },
+      recommendations: result.recommendations,
+      viewingLocation: result.viewingLocation,
+      factors: result.factors,
+      fatalBlocker: result.fatalBlocker,
+      firstVisible: result.skyTrack.summary.firstVisible,
+    };
+  }
+
+  return (
+    <div className="min-h-screen relative">
+      {/* Animated star background */}
+      <StarField />
+
+      <div className="relative z-10">
+        <header className="border-b border-nasa-blue/30 bg-space-navy/80 backdrop-blur-sm sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3">
+            <div className="flex items-center justify-between">
+              <Link href="/" className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded bg-retro-orange/20 flex items-center justify-center border border-retro-orange/40">
+                  <span className="text-xl">🚀</span>
+                </div>
+                <span
+                  className="text-lg font-bold tracking-widest text-retro-orange hidden sm:block"
+                  style={{ fontFamily: "var(--font-orbitron)" }}
+                >
+                  FALCONWATCH
+                </span>
+              </Link>
+              <AccessibilityToggle />
+            </div>
+          </div>
+        </header>
+
+        <main id="main-content" className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+          {/* Mission summary */}
+          <section>
+            <Link href="/" className="text-sm text-off-white/50 hover:text-off-white transition-colors">
+              ← All launches
+            </Link>
+            <h1
+              className="mt-2 text-2xl sm:text-3xl font-bold text-off-white"
+              style={{ fontFamily: "var(--font-orbitron)" }}
+            >
+              {launch.name}
+            </h1>
+            <p className="mt-1 text-off-white/60">
+              {site?.name ?? launch.pad.location.name} · {formatTime(launch.net)} · {launch.status.name}
+            </p>
+            {viewer && (
+              <p className="mt-1 text-sm text-off-white/50">
+                As seen from {viewer.name}
+              </p>
+            )}
+          </section>
+
+          <LaunchDetail launch={{ ...launch, changes: changes.text ? changes : null }} viewer={viewer} visibility={visibility} />
+
+          {/* Weather | History */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <section className="retro-panel p-6">
+              <PanelHeader title="Weather" subtitle={`At launch time, ${formatTime(launch.net)}`} />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <WeatherPanel title={site?.shortName ?? "Launch Site"} weather={prediction?.weather.launchSite ?? siteWeather} />
+                {viewer && prediction && <WeatherPanel title={viewer.name} weather={prediction.weather.viewing} />}
+              </div>
+            </section>
+
+            <section className="retro-panel p-6">
+              <PanelHeader title="Schedule History" subtitle={changes.text ?? "No changes recorded"} />
+              {history.length > 0 ? (
+                <ul className="space-y-2">
+                  {history.map((event, i) => (
+                    <li key={i} className="text-sm">
+                      <span className="font-mono text-off-white/40 mr-2">
+                        {formatTime(new Date(event.detectedAt * 1000).toISOString())}
+                      </span>
+                      <span className={event.scrub ? "text-amber" : "text-off-white/80"}>
+                        {describeLaunchChange(event, formatTime)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-off-white/50">
+                  NET slips, scrubs and status changes show up here as they happen.
+                </p>
+              )}
+            </section>
+          </div>
+        </main>
+
+        {/* Footer */}
+        <footer className="border-t border-nasa-blue/20 mt-12 py-6">
+          <div className="max-w-6xl mx-auto px-4 text-center text-sm text-off-white/40 space-y-2">
+            <p>&copy; FalconWatch &middot; Not affiliated with SpaceX</p>
+            <p className="text-xs">
+              Data from{" "}
+              <a href="https://thespacedevs.com/" target="_blank" rel="noopener noreferrer" className="text-off-white/50 hover:text-off-white transition-colors">The Space Devs</a>
+              {" & "}
+              <a href="https://open-meteo.com/" target="_blank" rel="noopener noreferrer" className="text-off-white/50 hover:text-off-white transition-colors">Open-Meteo</a>
+              {" · "}
+              <Link href="/privacy" className="text-off-white/50 hover:text-off-white transition-colors">Privacy</Link>
+            </p>
+          </div>
+        </footer>
+      </div>
+
+      {/* CRT scanline overlay for retro aesthetic */}
+      <div className="fixed inset-0 pointer-events-none z-50 scanlines opacity-40" />
+    </div>
+  );
+}
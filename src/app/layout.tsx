@@ -22,6 +22,7 @@ const orbitron = Orbitron({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(process.env.NEXT_PUBLIC_BASE_URL || "https://falconwatch.app"),
   title: "FalconWatch | Unofficial SpaceX Launch Tracker",
   description:
     "Track SpaceX launches from Vandenberg, Cape Canaveral, and Starbase. Real-time countdown, weather data, and visibility predictions from your location.",
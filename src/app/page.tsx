@@ -15,6 +15,8 @@ import { initVisibilityStorage } from "../lib/clientVisibility";
 import { calculateSolarElevation } from "../lib/visibility";
 import { getMaxVisibleRadiusKm, detectRocketType, getLightingCondition, getLightingLabel } from "../lib/visibilityRadius";
 import { getLaunchSite } from "../lib/launchSites";
+import type { LaunchChangeSummary } from "../lib/launchChanges";
+import { getLaunchPath } from "../lib/launchLinks";
 
 // SWR fetcher with error handling
 const fetcher = (url: string) =>
@@ -29,13 +31,23 @@ interface Launch {
   date_utc: string;
   date_unix: number;
   date_local: string;
+  window_start?: string;
+  window_end?: string;
   details: string | null;
+  mission?: {
+    description?: string;
+    orbit?: {
+      name: string;
+      abbrev: string;
+    };
+  } | null;
   links: {
     patch: { small: string | null };
     webcast: string | null;
   };
   flight_number: number;
   rocketData?: {
+    id?: number;
     name: string;
     type: string;
   };
@@ -51,6 +63,7 @@ interface Launch {
   }>;
   siteId?: string;
   spacexUrl?: string | null;
+  changes?: LaunchChangeSummary | null;
 }
 
 interface VisibilityData {
@@ -82,9 +95,20 @@ interface VisibilityData {
       distanceKm: number;
       surfaceVisibilityKm: number;
       rocketType: string;
+      launchAzimuth: number;
     };
   };
   fatalBlocker?: string | null;
+  skyTrack?: {
+    summary: {
+      firstVisible: {
+        tPlusFormatted: string;
+        elevation: number;
+        compass: string;
+      } | null;
+      guidance: string | null;
+    };
+  };
 }
 
 export default function Home() {
@@ -174,11 +198,35 @@ export default function Home() {
     { refreshInterval: 600000 }
   );
 
+  // Target orbit (and any inclination stated in the mission description) lets the API
+  // derive the launch azimuth instead of guessing from the name, and the rocket
+  // configuration identifies the vehicle
+  const orbit = selectedLaunch?.mission?.orbit;
+  const missionDescription = selectedLaunch?.mission?.description;
+  const rocketName = selectedLaunch?.rocketData?.name;
+  const launchQuery = (orbit
+    ? `&orbit=${encodeURIComponent(orbit.abbrev)}&orbitName=${encodeURIComponent(orbit.name)}`
+    : "") +
+    (missionDescription ? `&missionDescription=${encodeURIComponent(missionDescription)}` : "") +
+    (rocketName ? `&rocket=${encodeURIComponent(rocketName)}` : "");
+
+  const windowStart = selectedLaunch?.window_start
+    ? Math.floor(new Date(selectedLaunch.window_start).getTime() / 1000)
+    : null;
+  const windowEnd = selectedLaunch?.window_end
+    ? Math.floor(new Date(selectedLaunch.window_end).getTime() / 1000)
+    : null;
+  // The window bounds what-if launch times in the score's counterfactuals
+  const windowQuery = windowStart !== null && windowEnd !== null && windowEnd > windowStart
+    ? `&windowStart=${windowStart}&windowEnd=${windowEnd}`
+    : "";
+
   // Fetch visibility for the selected launch with custom location and siteId
+  const visibilityUrl = selectedLaunch && viewingLocation
+    ? `/api/visibility?launchTime=${selectedLaunch.date_unix}&missionName=${encodeURIComponent(selectedLaunch.name)}&siteId=${selectedSiteId}&lat=${viewingLocation.lat}&lon=${viewingLocation.lon}&locationName=${encodeURIComponent(viewingLocation.name)}&launchRef=${encodeURIComponent(selectedLaunch.id)}${launchQuery}${windowQuery}`
+    : null;
   const { data: visibilityData, isLoading: visibilityLoading } = useSWR(
-    selectedLaunch && viewingLocation
-      ? `/api/visibility?launchTime=${selectedLaunch.date_unix}&missionName=${encodeURIComponent(selectedLaunch.name)}&siteId=${selectedSiteId}&lat=${viewingLocation.lat}&lon=${viewingLocation.lon}&locationName=${encodeURIComponent(viewingLocation.name)}`
-      : null,
+    visibilityUrl,
     fetcher,
     { refreshInterval: 300000 }
   );
@@ -187,6 +235,27 @@ export default function Home() {
     ? visibilityData.data
     : null;
 
+  // Sweep the launch window when it's longer than an instant
+  const { data: sweepData } = useSWR(
+    selectedLaunch && viewingLocation && windowStart !== null && windowEnd !== null && windowEnd > windowStart
+      ? `/api/visibility?mode=sweep&windowStart=${windowStart}&windowEnd=${windowEnd}&launchTime=${selectedLaunch.date_unix}&missionName=${encodeURIComponent(selectedLaunch.name)}&siteId=${selectedSiteId}&lat=${viewingLocation.lat}&lon=${viewingLocation.lon}&locationName=${encodeURIComponent(viewingLocation.name)}${launchQuery}`
+      : null,
+    fetcher,
+    { refreshInterval: 600000 }
+  );
+  // Visibility heatmap across the region for the map
+  const { data: gridData } = useSWR(
+    selectedLaunch
+      ? `/api/visibility/grid?launchTime=${selectedLaunch.date_unix}&missionName=${encodeURIComponent(selectedLaunch.name)}&siteId=${selectedSiteId}${launchQuery}`
+      : null,
+    fetcher,
+    { refreshInterval: 1800000 }
+  );
+
+  const windowSummary: string | null = sweepData?.success
+    ? sweepData.data.sweep.summary
+    : null;
+
   const weather = weatherData?.data || { launchSite: null };
 
   // Handle launch selection from carousel
@@ -196,20 +265,26 @@ export default function Home() {
     setSelectedLaunchIndex(index + 1);
   };
 
-  // Compute dynamic visibility radius for the map
+  // LL2 rocket configuration for client-side vehicle lookups
+  const rocketConfiguration = selectedLaunch?.rocketData
+    ? { id: selectedLaunch.rocketData.id, full_name: selectedLaunch.rocketData.name, family: selectedLaunch.rocketData.type }
+    : null;
+
+  // Compute dynamic visibility radius for the map, with the API's active distance tables
+  const distanceTables = gridData?.success ? gridData.data.maxVisibleDistance : undefined;
   const visibilityRadius = (() => {
     // Prefer API-provided solar elevation + rocket type when available
     if (visibility?.factors?.rawData) {
       const { solarElevation, rocketType } = visibility.factors.rawData;
-      return getMaxVisibleRadiusKm(solarElevation, rocketType);
+      return getMaxVisibleRadiusKm(solarElevation, rocketType, distanceTables);
     }
     // Fallback: compute from launch time + site coords + mission name
     if (selectedLaunch) {
       const site = getLaunchSite(selectedSiteId);
       if (site) {
         const solarEl = calculateSolarElevation(site.lat, site.lon, selectedLaunch.date_unix);
-        const rocketType = detectRocketType(selectedLaunch.name);
-        return getMaxVisibleRadiusKm(solarEl, rocketType);
+        const rocketType = detectRocketType(selectedLaunch.name, rocketConfiguration, site.defaultVehicle);
+        return getMaxVisibleRadiusKm(solarEl, rocketType, distanceTables);
       }
     }
     return 800; // default fallback (twilight F9)
@@ -299,9 +374,15 @@ export default function Home() {
               viewingLocation={visibility?.viewingLocation}
               factors={visibility?.factors}
               fatalBlocker={visibility?.fatalBlocker}
+              counterfactualsUrl={visibilityUrl && `${visibilityUrl}&mode=counterfactuals`}
+              firstVisible={visibility?.skyTrack?.summary.firstVisible}
+              windowSummary={windowSummary}
               loading={viewingLocation ? (visibilityLoading || launchLoading) : false}
               launchDate={selectedLaunch ? new Date(selectedLaunch.date_utc) : null}
               missionName={selectedLaunch?.name}
+              launchId={selectedLaunch?.id}
+              siteId={selectedSiteId}
+              viewerCoords={viewingLocation}
               siteName={selectedSiteId !== "vandenberg" ? (selectedLaunch?.launchpadData?.full_name || selectedSiteId) : undefined}
               locationSet={!!viewingLocation}
               onSetLocation={handleLocationChange}
@@ -322,6 +403,12 @@ export default function Home() {
                 siteId={selectedSiteId}
                 visibilityRadiusKm={visibilityRadius}
                 radiusLabel={`~${Math.round(visibilityRadius * 0.621371)}mi ${visibilityLightingLabel} visibility`}
+                launchAzimuth={visibility?.factors?.rawData?.launchAzimuth}
+                grid={gridData?.success ? gridData.data.grid : null}
+                rocketType={visibility?.factors?.rawData?.rocketType
+                  ?? (selectedLaunch
+                    ? detectRocketType(selectedLaunch.name, rocketConfiguration, getLaunchSite(selectedSiteId)?.defaultVehicle)
+                    : undefined)}
               />
             </motion.section>
 
@@ -331,7 +418,11 @@ export default function Home() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.5, delay: 0.15 }}
               >
-                <LaunchCard mission={selectedLaunch} lastRefresh={lastRefresh} />
+                <LaunchCard
+                  mission={selectedLaunch}
+                  lastRefresh={lastRefresh}
+                  shareHref={getLaunchPath(selectedLaunch.id, viewingLocation)}
+                />
               </motion.section>
             )}
           </div>
@@ -0,0 +1,248 @@
+// Historical backtest: what the model would have predicted for past launches
+//
+// Each past launch is scored from a fixed set of reference cities around its site, with
+// the weather archived for the launch time (see weatherArchive.ts). A run is a per-launch
+// table plus summary means per site, city and lighting condition; comparing two runs
+// shows which launches and groups a model change moved, e.g. a sun-score tweak that
+// quietly lowers every twilight Vandenberg launch as seen from Phoenix.
+
+import type { TuningProfile, VisibilityLaunch, VisibilityResult } from "./visibility";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import type { VisibilityModel } from "./visibilityModels";
+import { getLightingCondition } from "./visibilityRadius";
+import type { LightingCondition } from "./vehicles";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export interface ReferenceObserver {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+// Population centres at a spread of distances and bearings from each site
+export const REFERENCE_OBSERVERS: Record<string, ReferenceObserver[]> = {
+  vandenberg: [
+    { id: "los-angeles", name: "Los Angeles, CA", lat: 34.0522, lon: -118.2437 },
+    { id: "san-diego", name: "San Diego, CA", lat: 32.7157, lon: -117.1611 },
+    { id: "san-francisco", name: "San Francisco, CA", lat: 37.7749, lon: -122.4194 },
+    { id: "las-vegas", name: "Las Vegas, NV", lat: 36.1699, lon: -115.1398 },
+    { id: "phoenix", name: "Phoenix, AZ", lat: 33.4484, lon: -112.074 },
+    { id: "tucson", name: "Tucson, AZ", lat: 32.2226, lon: -110.9747 },
+  ],
+  "cape-canaveral": [
+    { id: "orlando", name: "Orlando, FL", lat: 28.5383, lon: -81.3792 },
+    { id: "tampa", name: "Tampa, FL", lat: 27.9506, lon: -82.4572 },
+    { id: "miami", name: "Miami, FL", lat: 25.7617, lon: -80.1918 },
+    { id: "jacksonville", name: "Jacksonville, FL", lat: 30.3322, lon: -81.6557 },
+    { id: "charleston", name: "Charleston, SC", lat: 32.7765, lon: -79.9311 },
+    { id: "atlanta", name: "Atlanta, GA", lat: 33.749, lon: -84.388 },
+  ],
+  "boca-chica": [
+    { id: "brownsville", name: "Brownsville, TX", lat: 25.9017, lon: -97.4975 },
+    { id: "corpus-christi", name: "Corpus Christi, TX", lat: 27.8006, lon: -97.3964 },
+    { id: "monterrey", name: "Monterrey, MX", lat: 25.6866, lon: -100.3161 },
+    { id: "san-antonio", name: "San Antonio, TX", lat: 29.4241, lon: -98.4936 },
+    { id: "houston", name: "Houston, TX", lat: 29.7604, lon: -95.3698 },
+  ],
+};
+
+// Score changes smaller than this (percentage points) are noise, not a regression
+export const DEFAULT_CHANGE_THRESHOLD = 5;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface BacktestLaunch extends VisibilityLaunch {
+  id: string;
+}
+
+export interface BacktestWeather {
+  launchSite: WeatherData | ExtendedWeatherData | null;
+  observers: Record<string, WeatherData | ExtendedWeatherData | null>; // by observer id
+}
+
+export interface BacktestRow {
+  launchId: string;
+  launchName: string;
+  launchTime: number; // Unix seconds
+  siteId: string;
+  observerId: string;
+  percentage: number;
+  rating: VisibilityResult["rating"];
+  lighting: LightingCondition;
+  distanceKm: number;
+  fatal: boolean;
+  hasWeather: boolean; // false when the archive had nothing for the observer
+}
+
+export interface BacktestGroup {
+  key: string;          // "siteId/observerId/lighting"
+  count: number;
+  meanPercentage: number;
+}
+
+export interface BacktestSummary {
+  launches: number;
+  rows: number;
+  meanPercentage: number;
+  ratings: Record<VisibilityResult["rating"], number>;
+  groups: BacktestGroup[];
+}
+
+export interface BacktestRun {
+  createdAt: string;
+  model: string;          // "id@version"
+  tuningVersion: string;
+  rows: BacktestRow[];
+  summary: BacktestSummary;
+}
+
+export interface BacktestComparison {
+  meanDelta: number;
+  changedRows: Array<{
+    launchId: string;
+    launchName: string;
+    observerId: string;
+    before: number;
+    after: number;
+    delta: number;
+  }>;
+  changedGroups: Array<BacktestGroup & { before: number; delta: number }>;
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Summary means over a set of rows
+ */
+export function summarizeBacktest(rows: BacktestRow[]): BacktestSummary {
+  const ratings: BacktestSummary["ratings"] = { poor: 0, fair: 0, good: 0, excellent: 0 };
+  const groups = new Map<string, number[]>();
+
+  for (const row of rows) {
+    ratings[row.rating]++;
+    const key = `${row.siteId}/${row.observerId}/${row.lighting}`;
+    groups.set(key, [...(groups.get(key) ?? []), row.percentage]);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    launches: new Set(rows.map((r) => r.launchId)).size,
+    rows: rows.length,
+    meanPercentage: rows.length > 0 ? round1(mean(rows.map((r) => r.percentage))) : 0,
+    ratings,
+    groups: [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, values]) => ({ key, count: values.length, meanPercentage: round1(mean(values)) })),
+  };
+}
+
+/**
+ * Score every past launch from its site's reference observers
+ */
+export function runBacktest(
+  launches: BacktestLaunch[],
+  weatherByLaunch: Map<string, BacktestWeather>,
+  model: VisibilityModel,
+  tuning: TuningProfile
+): BacktestRun {
+  const rows: BacktestRow[] = [];
+
+  for (const launch of launches) {
+    const siteId = launch.siteId || "vandenberg";
+    const weather = weatherByLaunch.get(launch.id);
+
+    for (const observer of REFERENCE_OBSERVERS[siteId] ?? []) {
+      const viewing = weather?.observers[observer.id] ?? null;
+      const result = model.calculate(
+        launch,
+        weather?.launchSite ?? null,
+        viewing,
+        { lat: observer.lat, lon: observer.lon, name: observer.name },
+        tuning
+      );
+
+      rows.push({
+        launchId: launch.id,
+        launchName: launch.name,
+        launchTime: launch.date_unix,
+        siteId,
+        observerId: observer.id,
+        percentage: result.percentage,
+        rating: result.rating,
+        lighting: getLightingCondition(result.factors.rawData.solarElevation),
+        distanceKm: result.viewingLocation.distanceKm,
+        fatal: result.fatalBlocker !== null,
+        hasWeather: viewing !== null,
+      });
+    }
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    model: `${model.id}@${model.version}`,
+    tuningVersion: tuning.version,
+    rows,
+    summary: summarizeBacktest(rows),
+  };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * What changed between two runs: rows and groups that moved by at least the
+ * threshold, biggest drops first. Rows are matched by launch and observer.
+ */
+export function compareBacktests(
+  before: BacktestRun,
+  after: BacktestRun,
+  threshold: number = DEFAULT_CHANGE_THRESHOLD
+): BacktestComparison {
+  const previous = new Map(before.rows.map((r) => [`${r.launchId}|${r.observerId}`, r]));
+
+  const changedRows = after.rows
+    .map((row) => {
+      const old = previous.get(`${row.launchId}|${row.observerId}`);
+      return old
+        ? {
+            launchId: row.launchId,
+            launchName: row.launchName,
+            observerId: row.observerId,
+            before: old.percentage,
+            after: row.percentage,
+            delta: row.percentage - old.percentage,
+          }
+        : null;
+    })
+    .filter((c): c is NonNullable<typeof c> => c !== null && Math.abs(c.delta) >= threshold)
+    .sort((a, b) => a.delta - b.delta);
+
+  const previousGroups = new Map(before.summary.groups.map((g) => [g.key, g]));
+  const changedGroups = after.summary.groups
+    .map((group) => {
+      const old = previousGroups.get(group.key);
+      return old
+        ? { ...group, before: old.meanPercentage, delta: round1(group.meanPercentage - old.meanPercentage) }
+        : null;
+    })
+    .filter((g): g is NonNullable<typeof g> => g !== null && Math.abs(g.delta) >= threshold)
+    .sort((a, b) => a.delta - b.delta);
+
+  return {
+    meanDelta: round1(after.summary.meanPercentage - before.summary.meanPercentage),
+    changedRows,
+    changedGroups,
+  };
+}
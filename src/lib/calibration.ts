@@ -0,0 +1,201 @@
+// Forecast calibration: how well the visibility percentage matches what people saw
+//
+// Every served prediction is snapshotted per launch, location cell and lead time, and
+// "did you see it?" answers are collected as sighting reports (see predictionStore.ts).
+// After a launch each report is paired with the last prediction each scoring model and
+// tuning profile made for its cell, and the pairs are scored per model and profile, launch
+// site, lighting condition and distance band. A change to WEIGHTS is an improvement only
+// if it lowers the Brier score here.
+//
+// DATA SOURCES:
+// - Brier score and reliability diagrams: Wilks, "Statistical Methods in the Atmospheric
+//   Sciences" (4th ed.), ch. 9 — verification of probability forecasts.
+
+import type { LightingCondition } from "./vehicles";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Reports and snapshots are filed by grid cell, not exact coordinates (~28km cells)
+export const LOCATION_CELL_DEG = 0.25;
+
+// Lead time buckets (upper bounds, hours before launch); one snapshot kept per bucket
+const LEAD_BUCKETS: Array<{ maxHours: number; label: string }> = [
+  { maxHours: 1, label: "0-1h" },
+  { maxHours: 6, label: "1-6h" },
+  { maxHours: 24, label: "6-24h" },
+  { maxHours: 72, label: "1-3d" },
+  { maxHours: Infinity, label: "3d+" },
+];
+
+// Viewer distance bands (upper bounds, km)
+const DISTANCE_BANDS: Array<{ maxKm: number; label: string }> = [
+  { maxKm: 300, label: "0-300km" },
+  { maxKm: 800, label: "300-800km" },
+  { maxKm: 1500, label: "800-1500km" },
+  { maxKm: Infinity, label: "1500km+" },
+];
+
+// A prediction at or above this percentage counts as "you'll see it"
+const HIT_THRESHOLD = 50;
+
+const RELIABILITY_BINS = 10;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface LocationCell {
+  key: string;  // cell centre, e.g. "34.125:-118.375"
+  lat: number;
+  lon: number;
+}
+
+export interface CalibrationSample {
+  model: string;     // "id@version/tuning" of the scoring model and tuning profile
+  siteId: string;
+  lighting: LightingCondition;
+  distanceKm: number;
+  predicted: number; // 0-100 visibility percentage
+  sawIt: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;          // 0-100 predicted percentage range
+  upper: number;
+  count: number;
+  meanPredicted: number;  // 0-1
+  observedRate: number;   // 0-1, share of reports that saw it
+}
+
+export interface CalibrationMetrics {
+  model: string;
+  siteId: string;                         // "all" for the model's overall row
+  lighting: LightingCondition | "all";
+  distanceBand: string;                   // "all" for the overall row
+  sampleCount: number;
+  brierScore: number;                     // 0 = perfect, 0.25 = always saying 50%
+  hitRate: number | null;                 // share of sightings that were predicted (null without sightings)
+  baseRate: number;                       // share of reports that saw it
+  reliability: ReliabilityBin[];          // non-empty bins only
+}
+
+// ============================================================================
+// BUCKETING
+// ============================================================================
+
+/**
+ * Grid cell a location falls in
+ */
+export function getLocationCell(lat: number, lon: number): LocationCell {
+  const snap = (deg: number) =>
+    Math.floor(deg / LOCATION_CELL_DEG) * LOCATION_CELL_DEG + LOCATION_CELL_DEG / 2;
+  const cellLat = snap(lat);
+  const cellLon = snap(lon);
+  return { key: `${cellLat.toFixed(3)}:${cellLon.toFixed(3)}`, lat: cellLat, lon: cellLon };
+}
+
+/**
+ * Lead time bucket for a prediction made this many hours before launch
+ */
+export function getLeadBucket(leadHours: number): string {
+  return LEAD_BUCKETS.find((b) => leadHours <= b.maxHours)!.label;
+}
+
+/**
+ * Distance band for a viewer this far from the launch site
+ */
+export function getDistanceBand(distanceKm: number): string {
+  return DISTANCE_BANDS.find((b) => distanceKm <= b.maxKm)!.label;
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Brier score, hit rate and reliability curve for one group of samples
+ */
+function scoreGroup(
+  samples: CalibrationSample[],
+  group: Pick<CalibrationMetrics, "model" | "siteId" | "lighting" | "distanceBand">
+): CalibrationMetrics {
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+
+  const brierScore = samples.reduce(
+    (sum, s) => sum + (s.predicted / 100 - (s.sawIt ? 1 : 0)) ** 2,
+    0
+  ) / samples.length;
+
+  // Probability of detection: of the launches people saw, how many we called
+  const sightings = samples.filter((s) => s.sawIt);
+  const hits = sightings.filter((s) => s.predicted >= HIT_THRESHOLD).length;
+
+  const reliability: ReliabilityBin[] = [];
+  const binWidth = 100 / RELIABILITY_BINS;
+  for (let i = 0; i < RELIABILITY_BINS; i++) {
+    const lower = i * binWidth;
+    const upper = lower + binWidth;
+    const inBin = samples.filter((s) =>
+      s.predicted >= lower && (s.predicted < upper || (i === RELIABILITY_BINS - 1 && s.predicted <= upper))
+    );
+    if (inBin.length === 0) continue;
+
+    reliability.push({
+      lower,
+      upper,
+      count: inBin.length,
+      meanPredicted: round(inBin.reduce((sum, s) => sum + s.predicted, 0) / inBin.length / 100),
+      observedRate: round(inBin.filter((s) => s.sawIt).length / inBin.length),
+    });
+  }
+
+  return {
+    ...group,
+    sampleCount: samples.length,
+    brierScore: round(brierScore),
+    hitRate: sightings.length > 0 ? round(hits / sightings.length) : null,
+    baseRate: round(sightings.length / samples.length),
+    reliability,
+  };
+}
+
+function groupBy(samples: CalibrationSample[], key: (s: CalibrationSample) => string): Map<string, CalibrationSample[]> {
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const sample of samples) {
+    const k = key(sample);
+    const group = groups.get(k);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(k, [sample]);
+    }
+  }
+  return new Map([...groups.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Calibration metrics per scoring model, launch site, lighting condition and
+ * distance band. Each model's rows start with its overall row; empty groups are left out.
+ */
+export function computeCalibrationMetrics(samples: CalibrationSample[]): CalibrationMetrics[] {
+  const metrics: CalibrationMetrics[] = [];
+
+  for (const [model, modelSamples] of groupBy(samples, (s) => s.model)) {
+    metrics.push(scoreGroup(modelSamples, { model, siteId: "all", lighting: "all", distanceBand: "all" }));
+
+    const groups = groupBy(modelSamples, (s) => [s.siteId, s.lighting, getDistanceBand(s.distanceKm)].join("|"));
+    for (const [key, group] of groups) {
+      const [siteId, lighting, distanceBand] = key.split("|");
+      metrics.push(scoreGroup(group, {
+        model,
+        siteId,
+        lighting: lighting as LightingCondition,
+        distanceBand,
+      }));
+    }
+  }
+
+  return metrics;
+}
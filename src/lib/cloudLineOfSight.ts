@@ -0,0 +1,159 @@
+// Cloud-layer line of sight: does the sight line to the rocket pass through cloud?
+//
+// Total cloud cover treats a thin cirrus veil at 8km the same as a solid stratus deck
+// at 600m. Here each layer (low / mid / high) is handled separately: the sight line at
+// the rocket's apparent elevation crosses each layer's thickness, and a shallow line
+// travels much further through it — scattered cloud that leaves the zenith mostly clear
+// closes up toward the horizon (the "packing" effect). Each layer's opacity then decides
+// how much of that cover actually hides the plume.
+//
+// DATA SOURCES:
+// - Layer bands: WMO cloud classification as used by Open-Meteo (low < 2km, mid 2-6km,
+//   high > 6km); typical thicknesses from the WMO International Cloud Atlas.
+// - Packing effect: Kassianov et al. (2005), "Cloud fraction as a function of viewing
+//   angle", J. Atmos. Sci. 62 — apparent cover grows with path length over cloud size.
+// - Cirrus optical depth typically 0.03-3 vs. 10+ for stratus (Sassen & Cho 1992).
+
+import type { CloudLayers } from "./weather";
+import type { SkyTrack } from "./skyTrack";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+type LayerName = keyof CloudLayers;
+
+interface LayerModel {
+  defaultBaseM: number;
+  minBaseM: number;
+  maxBaseM: number;
+  thicknessM: number;
+  cellSizeM: number;  // typical horizontal size of cloud elements / gaps
+  opacity: number;    // 0-1, share of the plume's light a cloud element blocks
+}
+
+const LAYER_MODELS: Record<LayerName, LayerModel> = {
+  low: { defaultBaseM: 1000, minBaseM: 0, maxBaseM: 2000, thicknessM: 800, cellSizeM: 2000, opacity: 1.0 },
+  mid: { defaultBaseM: 3500, minBaseM: 2000, maxBaseM: 6000, thicknessM: 1500, cellSizeM: 5000, opacity: 0.8 },
+  high: { defaultBaseM: 8000, minBaseM: 6000, maxBaseM: 12000, thicknessM: 1500, cellSizeM: 10000, opacity: 0.3 },
+};
+
+const LAYER_LABELS: Record<LayerName, string> = {
+  low: "Low cloud",
+  mid: "Mid-level cloud",
+  high: "High thin cloud",
+};
+
+// Sight lines flatter than this are treated as this (the path length diverges at 0°)
+const MIN_SIGHT_ELEVATION_DEG = 2;
+
+// Evaluating every second of the track is unnecessary; cloud doesn't change that fast
+const MAX_TRACK_SAMPLES = 60;
+
+// Below this best-moment transmission, low or mid cloud is considered to block the view
+const FATAL_TRANSMISSION = 0.1;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CloudLineOfSight {
+  score: number;                    // 0-1, mean/best blend of sight-line transmission
+  isFatal: boolean;
+  reason: string | null;            // which layer is the problem, when one is
+  blockingLayer: LayerName | null;
+  layerLoss: Record<LayerName, number>; // mean share of light each layer blocks
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+/**
+ * Layer base heights: the estimated cloud base pins whichever layer it falls in,
+ * the others sit at their typical heights
+ */
+function getLayerBases(cloudBase: number | null): Record<LayerName, number> {
+  const bases = {} as Record<LayerName, number>;
+  for (const name of Object.keys(LAYER_MODELS) as LayerName[]) {
+    const model = LAYER_MODELS[name];
+    bases[name] = cloudBase !== null && cloudBase >= model.minBaseM && cloudBase < model.maxBaseM
+      ? cloudBase
+      : model.defaultBaseM;
+  }
+  return bases;
+}
+
+/**
+ * Apparent cover of a layer along a sight line. Looking straight up you see the
+ * layer's nominal cover; a shallow line crosses several cloud cells, so the gaps close.
+ */
+function effectiveCover(cover: number, model: LayerModel, elevationDeg: number): number {
+  const elevation = Math.max(MIN_SIGHT_ELEVATION_DEG, elevationDeg) * Math.PI / 180;
+  const horizontalPathM = model.thicknessM / Math.tan(elevation);
+  const cellsCrossed = 1 + horizontalPathM / model.cellSizeM;
+  return 1 - Math.pow(1 - cover / 100, cellsCrossed);
+}
+
+/**
+ * Cloud score from per-layer cover along the rocket's sight lines.
+ * Returns null when there's no visible track to look along.
+ */
+export function calculateCloudLineOfSight(
+  layers: CloudLayers,
+  cloudBase: number | null,
+  skyTrack: SkyTrack
+): CloudLineOfSight | null {
+  const visible = skyTrack.points.filter((p) => p.aboveHorizon);
+  if (visible.length === 0) return null;
+
+  const stride = Math.max(1, Math.ceil(visible.length / MAX_TRACK_SAMPLES));
+  const samples = visible.filter((_, i) => i % stride === 0);
+  const bases = getLayerBases(cloudBase);
+  const layerNames = Object.keys(LAYER_MODELS) as LayerName[];
+
+  const totalLoss: Record<LayerName, number> = { low: 0, mid: 0, high: 0 };
+  let sumTransmission = 0;
+  let bestTransmission = 0;
+
+  for (const point of samples) {
+    let transmission = 1;
+    for (const name of layerNames) {
+      // The sight line only crosses layers below the rocket
+      if (point.altitudeKm * 1000 <= bases[name]) continue;
+
+      const model = LAYER_MODELS[name];
+      const loss = effectiveCover(layers[name], model, point.elevation) * model.opacity;
+      totalLoss[name] += loss;
+      transmission *= 1 - loss;
+    }
+    sumTransmission += transmission;
+    bestTransmission = Math.max(bestTransmission, transmission);
+  }
+
+  const meanTransmission = sumTransmission / samples.length;
+  const layerLoss: Record<LayerName, number> = {
+    low: totalLoss.low / samples.length,
+    mid: totalLoss.mid / samples.length,
+    high: totalLoss.high / samples.length,
+  };
+
+  // The view moves through gaps over the ascent, so the best moment counts as much as the average
+  const score = Math.max(0, Math.min(1, 0.5 * meanTransmission + 0.5 * bestTransmission));
+
+  const worst = layerNames.reduce((a, b) => (layerLoss[b] > layerLoss[a] ? b : a));
+  const blockingLayer = layerLoss[worst] >= 0.2 ? worst : null;
+  const isFatal = bestTransmission < FATAL_TRANSMISSION && blockingLayer !== null && blockingLayer !== "high";
+
+  let reason: string | null = null;
+  if (blockingLayer && (score < 0.7 || blockingLayer === "high")) {
+    const cover = Math.round(layers[blockingLayer]);
+    const base = bases[blockingLayer];
+    const height = base < 2000 ? `${Math.round(base / 100) * 100}m` : `${Math.round(base / 1000)}km`;
+    reason = blockingLayer === "high"
+      ? `${LAYER_LABELS.high} (${cover}% cirrus around ${height}) will dim the plume but is unlikely to hide it`
+      : `${LAYER_LABELS[blockingLayer]} (${cover}% around ${height}) is in the sight line toward the rocket`;
+  }
+
+  return { score, isFatal, reason, blockingLayer, layerLoss };
+}
@@ -0,0 +1,165 @@
+// Earth-shadow geometry and the twilight "jellyfish" effect
+//
+// The jellyfish happens when the observer is already in darkness but the exhaust plume,
+// 60-200km up, is still in direct sunlight. Whether a point at altitude h is sunlit depends
+// on the sun's elevation at the point's ground position: it stays lit until the sun sinks
+// below the shadow horizon, -acos(R / (R + h)) degrees.
+//
+// DATA SOURCES:
+// - Shadow geometry: standard cylindrical Earth-shadow model (satellite visibility /
+//   Iridium flare prediction), with an atmospheric screening height for grazing rays.
+// - Plume expansion altitude: SpaceX webcast imagery and observer photos — the plume
+//   balloons into the jellyfish shape above ~60km once ambient pressure drops off.
+
+import { calculateSolarElevation } from "./solar";
+import { formatTPlus, type SkyTrack } from "./skyTrack";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+// Sunlight grazing the limb is absorbed/scattered by the lowest ~20km of atmosphere
+// (clouds, aerosols, ozone), so the effective shadow-casting radius is a bit larger than Earth
+const ATMOSPHERIC_SCREENING_KM = 20;
+
+// Altitude above which the plume expands into the wide, sunlit jellyfish shape
+const JELLYFISH_MIN_ALTITUDE_KM = 60;
+
+// Seconds of sunlit, above-horizon plume needed for a full-strength jellyfish
+const FULL_EFFECT_SECONDS = 60;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SunlitInterval {
+  start: number;           // T+ seconds
+  end: number;             // T+ seconds
+  startFormatted: string;  // "T+2:50"
+  endFormatted: string;
+}
+
+export interface JellyfishResult {
+  probability: number;             // 0-1 chance of seeing a sunlit plume against a dark sky
+  observerSolarElevation: number;  // degrees
+  observerDarkness: number;        // 0-1: how dark the observer's sky is
+  sunlitSeconds: number;           // seconds the plume is sunlit, expanded and above the horizon
+  plumeSunlitFactor: number;       // 0-1: sunlit seconds relative to a full-strength effect
+  sunlitInterval: SunlitInterval | null;
+  description: string | null;
+}
+
+// ============================================================================
+// SHADOW GEOMETRY
+// ============================================================================
+
+/**
+ * Solar elevation (degrees) below which a point at the given altitude falls into Earth's shadow
+ */
+export function getShadowElevation(altitudeKm: number): number {
+  const shadowRadius = EARTH_RADIUS_KM + ATMOSPHERIC_SCREENING_KM;
+  const r = EARTH_RADIUS_KM + altitudeKm;
+  if (r <= shadowRadius) {
+    return 0; // Below the screening layer: lit only while the sun is up
+  }
+  return -Math.acos(shadowRadius / r) * 180 / Math.PI;
+}
+
+/**
+ * Whether a point at the given position and altitude is in direct sunlight
+ */
+export function isSunlit(
+  lat: number,
+  lon: number,
+  altitudeKm: number,
+  timestamp: number
+): boolean {
+  return calculateSolarElevation(lat, lon, timestamp) > getShadowElevation(altitudeKm);
+}
+
+/**
+ * How dark the observer's sky is, 0 (daylight) to 1 (nautical twilight or darker).
+ * The jellyfish needs contrast: a sunlit plume against a still-bright sky is just a contrail.
+ */
+function calculateObserverDarkness(solarElevation: number): number {
+  if (solarElevation > 0) return 0;
+  if (solarElevation > -3) return 0.3;
+  if (solarElevation > -6) return 0.7;
+  return 1;
+}
+
+// ============================================================================
+// JELLYFISH PREDICTION
+// ============================================================================
+
+/**
+ * Combine observer darkness with per-point plume illumination along the sky track
+ * into a jellyfish probability and the T+ interval when the sunlit plume is visible.
+ */
+export function calculateJellyfish(
+  skyTrack: SkyTrack,
+  observer: { lat: number; lon: number },
+  launchTimeUnix: number
+): JellyfishResult {
+  const observerSolarElevation = calculateSolarElevation(observer.lat, observer.lon, launchTimeUnix);
+  const observerDarkness = calculateObserverDarkness(observerSolarElevation);
+
+  // Daytime: the plume is sunlit, but there's no dark sky for it to glow against
+  if (observerDarkness === 0) {
+    return {
+      probability: 0,
+      observerSolarElevation,
+      observerDarkness,
+      sunlitSeconds: 0,
+      plumeSunlitFactor: 0,
+      sunlitInterval: null,
+      description: null,
+    };
+  }
+
+  let sunlitSeconds = 0;
+  let start: number | null = null;
+  let end: number | null = null;
+
+  for (const point of skyTrack.points) {
+    if (!point.aboveHorizon || point.altitudeKm < JELLYFISH_MIN_ALTITUDE_KM) continue;
+    if (!isSunlit(point.lat, point.lon, point.altitudeKm, launchTimeUnix + point.tPlus)) continue;
+
+    sunlitSeconds++;
+    if (start === null) start = point.tPlus;
+    end = point.tPlus;
+  }
+
+  const plumeSunlitFactor = Math.min(1, sunlitSeconds / FULL_EFFECT_SECONDS);
+  const probability = Math.round(observerDarkness * plumeSunlitFactor * 100) / 100;
+
+  const sunlitInterval: SunlitInterval | null = start !== null && end !== null
+    ? {
+        start,
+        end,
+        startFormatted: formatTPlus(start),
+        endFormatted: formatTPlus(end),
+      }
+    : null;
+
+  let description: string | null = null;
+  if (sunlitInterval && probability >= 0.5) {
+    description = `Jellyfish likely — the plume should be sunlit against your dark sky from ${sunlitInterval.startFormatted} to ${sunlitInterval.endFormatted}.`;
+  } else if (sunlitInterval) {
+    description = `The plume catches sunlight from ${sunlitInterval.startFormatted} to ${sunlitInterval.endFormatted}, but your sky may still be too bright for the full jellyfish effect.`;
+  } else if (observerDarkness >= 0.7) {
+    description = "The plume stays in Earth's shadow while it's above your horizon — expect exhaust glow rather than a sunlit jellyfish.";
+  }
+
+  return {
+    probability,
+    observerSolarElevation,
+    observerDarkness,
+    sunlitSeconds,
+    plumeSunlitFactor,
+    sunlitInterval,
+    description,
+  };
+}
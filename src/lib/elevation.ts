@@ -0,0 +1,44 @@
+// Open-Meteo elevation API client (Copernicus DEM GLO-90, free, no API key required)
+
+const OPEN_METEO_ELEVATION_API = "https://api.open-meteo.com/v1/elevation";
+
+// Max coordinates per request
+const ELEVATION_BATCH_SIZE = 100;
+
+// Get ground elevation (meters) for many points at once
+// Entries are null for points whose batch failed.
+export async function getElevations(
+  points: Array<{ lat: number; lon: number }>
+): Promise<(number | null)[]> {
+  const results: (number | null)[] = [];
+
+  for (let i = 0; i < points.length; i += ELEVATION_BATCH_SIZE) {
+    const batch = points.slice(i, i + ELEVATION_BATCH_SIZE);
+
+    try {
+      const params = new URLSearchParams({
+        latitude: batch.map((p) => p.lat.toFixed(4)).join(","),
+        longitude: batch.map((p) => p.lon.toFixed(4)).join(","),
+      });
+
+      const response = await fetch(`${OPEN_METEO_ELEVATION_API}?${params}`, {
+        next: { revalidate: 86400 }, // Terrain doesn't change — cache for a day
+      });
+
+      if (!response.ok) {
+        throw new Error(`Elevation API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const elevations: number[] = data.elevation || [];
+      batch.forEach((_, j) => {
+        results.push(typeof elevations[j] === "number" ? elevations[j] : null);
+      });
+    } catch (error) {
+      console.error(`Failed to fetch elevation for ${batch.length} points:`, error);
+      results.push(...batch.map(() => null));
+    }
+  }
+
+  return results;
+}
@@ -117,6 +117,21 @@ export async function decrypt(encrypted: string): Promise<string> {
  * This prevents rainbow-table attacks if the database is compromised.
  */
 export async function hashEmail(email: string): Promise<string> {
+  return hmacWithPepper(email.toLowerCase().trim());
+}
+
+/**
+ * Hash a sighting reporter's IP address for one launch, so repeat answers can be
+ * told apart without storing the address or linking reports across launches.
+ */
+export async function hashReporter(clientIp: string, launchId: string): Promise<string> {
+  return hmacWithPepper(`sighting:${launchId}:${clientIp}`);
+}
+
+/**
+ * HMAC-SHA256 (hex) keyed with EMAIL_HASH_PEPPER
+ */
+async function hmacWithPepper(value: string): Promise<string> {
   const pepper = process.env.EMAIL_HASH_PEPPER;
   if (!pepper || pepper.length !== 64) {
     throw new Error(
@@ -124,7 +139,6 @@ export async function hashEmail(email: string): Promise<string> {
     );
   }
 
-  const normalized = email.toLowerCase().trim();
   const encoder = new TextEncoder();
 
   const cryptoKey = await crypto.subtle.importKey(
@@ -138,7 +152,7 @@ export async function hashEmail(email: string): Promise<string> {
   const signature = await crypto.subtle.sign(
     "HMAC",
     cryptoKey,
-    encoder.encode(normalized)
+    encoder.encode(value)
   );
 
   return bytesToHex(new Uint8Array(signature));
@@ -0,0 +1,69 @@
+// Reverse geocoding via Nominatim (OpenStreetMap)
+// Usage policy: identify the app in User-Agent, max 1 request/second. Requests from this
+// server instance are spaced accordingly, and names are cached per ~1km cell.
+
+const NOMINATIM_REVERSE_API = "https://nominatim.openstreetmap.org/reverse";
+
+// Minimum spacing between requests
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+// Cache cell size (degrees, ~1km) and cells kept before the oldest are dropped
+const CELL_DEG = 0.01;
+const MAX_CACHED_CELLS = 5000;
+
+const cache = new Map<string, string | null>();
+let nextRequestAt = 0;
+
+/**
+ * Wait for the next free request slot; slots are claimed in call order
+ */
+async function waitForRequestSlot(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt);
+  nextRequestAt = slot + MIN_REQUEST_INTERVAL_MS;
+  if (slot > now) {
+    await new Promise((r) => setTimeout(r, slot - now));
+  }
+}
+
+/**
+ * Look up a short place name ("Gila Bend, Arizona") for coordinates.
+ * Returns null if nothing usable is found or the lookup fails.
+ */
+export async function reverseGeocode(lat: number, lon: number): Promise<string | null> {
+  const key = `${Math.round(lat / CELL_DEG)}:${Math.round(lon / CELL_DEG)}`;
+  if (cache.has(key)) return cache.get(key)!;
+
+  try {
+    await waitForRequestSlot();
+    const res = await fetch(
+      `${NOMINATIM_REVERSE_API}?lat=${lat}&lon=${lon}&format=json&zoom=10`,
+      {
+        signal: AbortSignal.timeout(5000),
+        headers: { "User-Agent": "FalconWatch/1.0 (https://falconwatch.app)" },
+      }
+    );
+
+    if (!res.ok) {
+      return null;
+    }
+
+    const data = await res.json();
+    const city =
+      data.address?.city ||
+      data.address?.town ||
+      data.address?.village ||
+      data.address?.county;
+    const state = data.address?.state;
+    const name = city && state ? `${city}, ${state}` : city || null;
+
+    // Places without a name are cached too; failed lookups have returned above
+    if (cache.size >= MAX_CACHED_CELLS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(key, name);
+    return name;
+  } catch {
+    return null;
+  }
+}
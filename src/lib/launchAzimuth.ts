@@ -0,0 +1,261 @@
+// Launch azimuth resolution: which way the rocket heads after clearing the tower
+//
+// Preferred source is the mission's target orbit from Launch Library 2 (orbit type, plus an
+// inclination when the mission description states one). The azimuth follows from the
+// launch-azimuth equation, sin(β) = cos(i) / cos(φ), and is then constrained to the range
+// safety corridors the site actually allows. When the orbit doesn't pin the azimuth down we
+// fall back to mission-name keywords, then to the site default.
+//
+// DATA SOURCES:
+// - Azimuth equation: Vallado, "Fundamentals of Astrodynamics and Applications", §6.4
+//   (non-rotating Earth; the rotating-Earth correction is under 3° for these sites).
+// - Nominal inclinations: SSO ~97.6° for 500-600km, GPS MEO 55°, ISS 51.6°.
+// - Corridors: Eastern/Western Range safety limits and FAA EIS flight corridors, see
+//   azimuthCorridors in launchSites.ts.
+
+import type { LaunchSite } from "./launchSites";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Nominal inclination (degrees) by LL2 orbit abbreviation. null = launch due east,
+// the cheapest direction for orbits whose plane doesn't matter much at launch.
+const ORBIT_INCLINATIONS: Record<string, number | null> = {
+  SSO: 97.6,   // Sun-synchronous, 500-600km
+  PO: 90,      // Polar
+  MEO: 55,     // GPS / navigation constellations
+  GTO: null,   // Geostationary transfer: due east, plane change done at apogee
+  GEO: null,
+  GSO: null,
+  HEO: null,
+  TLI: null,   // Trans-lunar injection
+  Lunar: null,
+  "Helio-N/A": null,
+  Heliocentric: null,
+  Mars: null,
+  "ES-L1": null,
+  "ES-L2": null,
+};
+
+// Matches "53 degree inclination", "53° inclination", "inclination of 53.2 degrees"
+const INCLINATION_PATTERNS = [
+  /(\d{1,3}(?:\.\d+)?)\s*(?:°|deg(?:rees?)?)\s*inclin/i,
+  /inclination\s+(?:of\s+)?(\d{1,3}(?:\.\d+)?)\s*(?:°|deg)/i,
+];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AzimuthSource = "orbit" | "keyword" | "default";
+
+export interface MissionOrbit {
+  name: string;
+  abbrev: string;
+}
+
+export interface AzimuthResolution {
+  azimuth: number;             // degrees from north
+  source: AzimuthSource;
+  orbit: string | null;        // LL2 orbit abbreviation used, if any
+  inclination: number | null;  // target inclination used, if any
+  dogLeg: boolean;             // ideal azimuth outside the site's corridors, clamped to the nearest limit
+  detail: string;              // short human-readable explanation
+}
+
+// ============================================================================
+// AZIMUTH MATH
+// ============================================================================
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+const normalize = (deg: number) => ((deg % 360) + 360) % 360;
+
+/**
+ * Smallest angle between two bearings, 0-180
+ */
+function angularDistance(a: number, b: number): number {
+  const diff = Math.abs(normalize(a) - normalize(b));
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Both launch azimuths (northbound and southbound) that reach the given inclination
+ * from the given latitude. Inclinations lower than the latitude can't be reached
+ * directly — launching due east gets closest.
+ */
+export function calculateAzimuthsForInclination(inclination: number, latitude: number): number[] {
+  const ratio = Math.cos(toRad(inclination)) / Math.cos(toRad(latitude));
+  if (Math.abs(ratio) >= 1) {
+    return [90];
+  }
+  const beta = toDeg(Math.asin(ratio));
+  return [normalize(beta), normalize(180 - beta)];
+}
+
+/**
+ * Pick the candidate azimuth that fits the site's corridors. If none fits, the
+ * vehicle flies a dog-leg: clamp to the corridor limit closest to the ideal azimuth.
+ */
+function fitToCorridors(
+  candidates: number[],
+  site: LaunchSite
+): { azimuth: number; dogLeg: boolean } {
+  const corridors = site.azimuthCorridors;
+
+  for (const azimuth of candidates) {
+    if (corridors.some((c) => azimuth >= c.min && azimuth <= c.max)) {
+      return { azimuth, dogLeg: false };
+    }
+  }
+
+  let best = { azimuth: site.defaultAzimuth, distance: Infinity };
+  for (const azimuth of candidates) {
+    for (const limit of corridors.flatMap((c) => [c.min, c.max])) {
+      const distance = angularDistance(azimuth, limit);
+      if (distance < best.distance) {
+        best = { azimuth: limit, distance };
+      }
+    }
+  }
+
+  return { azimuth: best.azimuth, dogLeg: true };
+}
+
+/**
+ * Pull a stated inclination out of a mission description, if there is one
+ */
+export function parseInclination(description: string | null | undefined): number | null {
+  if (!description) return null;
+
+  for (const pattern of INCLINATION_PATTERNS) {
+    const match = description.match(pattern);
+    if (match) {
+      const inclination = parseFloat(match[1]);
+      if (inclination >= 0 && inclination <= 180) {
+        return inclination;
+      }
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// KEYWORD FALLBACK
+// ============================================================================
+
+/**
+ * Guess the azimuth from mission-name keywords using the site's mission azimuth table
+ */
+function detectKeywordAzimuth(missionName: string, site: LaunchSite): number | null {
+  const nameLower = missionName.toLowerCase();
+  const azimuths = site.missionAzimuths;
+
+  if (nameLower.includes("starlink") && azimuths.starlink !== undefined) {
+    return azimuths.starlink;
+  }
+
+  if ((nameLower.includes("nrol") || nameLower.includes("usa-")) && azimuths.nrol !== undefined) {
+    return azimuths.nrol;
+  }
+
+  if (nameLower.includes("transporter") && azimuths.sso !== undefined) {
+    return azimuths.sso;
+  }
+
+  if ((nameLower.includes("sda ") || nameLower.includes("tranche")) && azimuths.sso !== undefined) {
+    return azimuths.sso;
+  }
+
+  if ((nameLower.includes("crew") || nameLower.includes("dragon")) && azimuths.crew !== undefined) {
+    return azimuths.crew;
+  }
+
+  if (nameLower.includes("iss") && azimuths.iss !== undefined) {
+    return azimuths.iss;
+  }
+
+  if ((nameLower.includes("worldview") || nameLower.includes("planet") ||
+      nameLower.includes("iceye") || nameLower.includes("capella")) && azimuths.sso !== undefined) {
+    return azimuths.sso;
+  }
+
+  if (nameLower.includes("iridium") && azimuths.polar !== undefined) {
+    return azimuths.polar;
+  }
+
+  if (nameLower.includes("starship") && azimuths.starship !== undefined) {
+    return azimuths.starship;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// RESOLVER
+// ============================================================================
+
+/**
+ * Resolve the launch azimuth for a mission: orbit-derived first, then
+ * mission-name keywords, then the site default
+ */
+export function resolveLaunchAzimuth(
+  site: LaunchSite,
+  missionName: string,
+  orbit?: MissionOrbit | null,
+  missionDescription?: string | null
+): AzimuthResolution {
+  const abbrev = orbit?.abbrev ?? null;
+  const statedInclination = parseInclination(missionDescription);
+  const nominalInclination = abbrev !== null && abbrev in ORBIT_INCLINATIONS
+    ? ORBIT_INCLINATIONS[abbrev]
+    : undefined;
+
+  // Orbit-derived: a stated inclination beats the nominal one for the orbit type
+  if (statedInclination !== null || nominalInclination !== undefined) {
+    const inclination = statedInclination ?? nominalInclination ?? null;
+    const candidates = inclination !== null
+      ? calculateAzimuthsForInclination(inclination, site.lat)
+      : [90];
+    const { azimuth, dogLeg } = fitToCorridors(candidates, site);
+    const rounded = Math.round(azimuth);
+
+    const target = inclination !== null
+      ? `${inclination}° inclination${abbrev ? ` (${abbrev})` : ""}`
+      : `${orbit?.name ?? abbrev} launched due east`;
+
+    return {
+      azimuth: rounded,
+      source: "orbit",
+      orbit: abbrev,
+      inclination,
+      dogLeg,
+      detail: dogLeg
+        ? `${target}: ideal azimuth is outside ${site.shortName}'s range corridors, so the rocket flies a dog-leg starting at ${rounded}°`
+        : `${target} from ${site.shortName}: ${rounded}°`,
+    };
+  }
+
+  const keywordAzimuth = detectKeywordAzimuth(missionName, site);
+  if (keywordAzimuth !== null) {
+    return {
+      azimuth: keywordAzimuth,
+      source: "keyword",
+      orbit: abbrev,
+      inclination: null,
+      dogLeg: false,
+      detail: `Typical azimuth for this mission type from ${site.shortName}: ${keywordAzimuth}°`,
+    };
+  }
+
+  return {
+    azimuth: site.defaultAzimuth,
+    source: "default",
+    orbit: abbrev,
+    inclination: null,
+    dogLeg: false,
+    detail: `No orbit data — using ${site.shortName}'s most common azimuth, ${site.defaultAzimuth}°`,
+  };
+}
@@ -0,0 +1,281 @@
+// Launch cache: stale-while-revalidate over a pluggable store
+//
+// Every page load, /api/launches call and cron run asks for each site's launches, and the
+// LL2 provider also checks a SpaceX page per launch. The free LL2 tier allows only a few
+// requests an hour, so launch lists are cached as snapshots:
+// - Fresh snapshots are served as-is.
+// - Expired snapshots are still served (marked stale) while one background request
+//   refreshes them.
+// - When the provider fails (LL2 429, network error) the last good snapshot is kept and
+//   served as stale; nothing is overwritten with an empty list.
+// - When the provider reports its quota is spent or nearly spent, expired snapshots are
+//   served without revalidating until the quota resets.
+//
+// Stores (LAUNCH_CACHE_STORE):
+// - "memory" (default): per server instance.
+// - "file": JSON files in LAUNCH_CACHE_DIR (default .cache/launches), shared by every
+//   process on the machine, including scripts.
+// - "supabase": the launch_cache table (see supabase-schema.sql), shared by every
+//   instance. The client is loaded lazily so the other stores work without Supabase.
+//
+// Server-only (file and database access).
+
+import { promises as fs } from "fs";
+import path from "path";
+import { after } from "next/server";
+import type { EnrichedLaunch } from "./spacex";
+import type { LaunchCacheRow } from "./supabase";
+
+// Requests left in the provider's quota below which only missing snapshots are fetched
+const QUOTA_RESERVE = 2;
+
+const DEFAULT_CACHE_DIR = ".cache/launches";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// Rate limit state reported by a provider's response headers
+export interface LaunchQuota {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null;        // Unix seconds; providers set one whenever remaining is known
+  throttledUntil: number | null; // Unix seconds, set by a 429
+}
+
+export interface LaunchCacheEntry {
+  launches: EnrichedLaunch[];
+  fetchedAt: number; // Unix seconds
+}
+
+export interface LaunchSnapshot {
+  launches: EnrichedLaunch[];
+  fetchedAt: number | null; // null when nothing has been fetched yet
+  stale: boolean;           // past its TTL, or the last refresh failed
+}
+
+export interface LaunchCacheStore {
+  name: string;
+  get: (key: string) => Promise<LaunchCacheEntry | null>;
+  set: (key: string, entry: LaunchCacheEntry) => Promise<void>;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+const memoryEntries = new Map<string, LaunchCacheEntry>();
+
+const memoryLaunchCacheStore: LaunchCacheStore = {
+  name: "memory",
+  async get(key) {
+    return memoryEntries.get(key) ?? null;
+  },
+  async set(key, entry) {
+    memoryEntries.set(key, entry);
+  },
+};
+
+function getCacheFile(key: string): string {
+  const dir = process.env.LAUNCH_CACHE_DIR || DEFAULT_CACHE_DIR;
+  return path.join(dir, `${key.replace(/[^a-z0-9-]+/gi, "_")}.json`);
+}
+
+const fileLaunchCacheStore: LaunchCacheStore = {
+  name: "file",
+  async get(key) {
+    try {
+      return JSON.parse(await fs.readFile(getCacheFile(key), "utf8"));
+    } catch {
+      return null;
+    }
+  },
+  async set(key, entry) {
+    try {
+      const file = getCacheFile(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(entry));
+    } catch (error) {
+      console.error(`Failed to write launch cache ${key}:`, error);
+    }
+  },
+};
+
+const supabaseLaunchCacheStore: LaunchCacheStore = {
+  name: "supabase",
+  async get(key) {
+    try {
+      const { supabase } = await import("./supabase");
+      const { data, error } = await supabase
+        .from("launch_cache")
+        .select("*")
+        .eq("cache_key", key)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const row = data as LaunchCacheRow;
+      return {
+        launches: row.launches,
+        fetchedAt: Math.floor(new Date(row.fetched_at).getTime() / 1000),
+      };
+    } catch (error) {
+      console.error(`Failed to read launch cache ${key}:`, error);
+      return null;
+    }
+  },
+  async set(key, entry) {
+    try {
+      const { supabase } = await import("./supabase");
+      const { error } = await supabase.from("launch_cache").upsert(
+        {
+          cache_key: key,
+          launches: entry.launches,
+          fetched_at: new Date(entry.fetchedAt * 1000).toISOString(),
+        },
+        { onConflict: "cache_key" }
+      );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Failed to write launch cache ${key}:`, error);
+    }
+  },
+};
+
+/**
+ * Cache store selected by LAUNCH_CACHE_STORE
+ */
+export function getLaunchCacheStore(): LaunchCacheStore {
+  switch (process.env.LAUNCH_CACHE_STORE) {
+    case "file":
+      return fileLaunchCacheStore;
+    case "supabase":
+      return supabaseLaunchCacheStore;
+    default:
+      return memoryLaunchCacheStore;
+  }
+}
+
+// ============================================================================
+// QUOTA
+// ============================================================================
+
+/**
+ * Whether the provider has refused requests (429) or used up its quota and
+ * the reset is still to come
+ */
+function isThrottled(quota: LaunchQuota | null, now: number): boolean {
+  if (!quota) return false;
+  if (quota.throttledUntil !== null && quota.throttledUntil > now) return true;
+  return quota.remaining === 0 && (quota.resetAt === null || quota.resetAt > now);
+}
+
+function isQuotaLow(quota: LaunchQuota | null, now: number): boolean {
+  if (!quota || quota.remaining === null) return false;
+  return quota.remaining <= QUOTA_RESERVE && (quota.resetAt === null || quota.resetAt > now);
+}
+
+// ============================================================================
+// STALE-WHILE-REVALIDATE
+// ============================================================================
+
+// One refresh per key at a time, shared by every caller waiting on it
+const inFlight = new Map<string, Promise<LaunchCacheEntry | null>>();
+
+/**
+ * Fetch and store a snapshot. A failed fetch (null) leaves the stored one alone.
+ */
+function refresh(
+  key: string,
+  fetcher: () => Promise<EnrichedLaunch[] | null>
+): Promise<LaunchCacheEntry | null> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      const launches = await fetcher();
+      if (!launches) return null;
+
+      const entry = { launches, fetchedAt: Math.floor(Date.now() / 1000) };
+      await getLaunchCacheStore().set(key, entry);
+      return entry;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Refresh a snapshot once the response has been sent. Serverless platforms can freeze
+ * or drop a promise left running after the response, so within a request the refresh
+ * is scheduled with after(); scripts have no request scope and simply don't await it.
+ */
+function refreshInBackground(key: string, fetcher: () => Promise<EnrichedLaunch[] | null>): void {
+  const task = () =>
+    refresh(key, fetcher)
+      .then(() => undefined)
+      .catch((error) => {
+        console.error(`Failed to refresh launch cache ${key}:`, error);
+      });
+
+  try {
+    after(task);
+  } catch {
+    void task();
+  }
+}
+
+/**
+ * Launches for a cache key: the stored snapshot while it is younger than ttlSec,
+ * otherwise the stored snapshot marked stale while it refreshes in the background.
+ * Only a missing snapshot makes the caller wait for the provider.
+ */
+export async function getCachedLaunches(
+  key: string,
+  ttlSec: number,
+  fetcher: () => Promise<EnrichedLaunch[] | null>,
+  quota: LaunchQuota | null
+): Promise<LaunchSnapshot> {
+  const now = Math.floor(Date.now() / 1000);
+  const cached = await getLaunchCacheStore().get(key);
+
+  if (cached && now - cached.fetchedAt < ttlSec) {
+    return { ...cached, stale: false };
+  }
+
+  if (cached) {
+    if (!isThrottled(quota, now) && !isQuotaLow(quota, now)) {
+      refreshInBackground(key, fetcher);
+    }
+    return { ...cached, stale: true };
+  }
+
+  if (isThrottled(quota, now)) {
+    return { launches: [], fetchedAt: null, stale: true };
+  }
+
+  const fetched = await refresh(key, fetcher);
+  return fetched
+    ? { ...fetched, stale: false }
+    : { launches: [], fetchedAt: null, stale: true };
+}
+
+/**
+ * Several snapshots as one: stale if any part is, as old as the oldest part
+ */
+export function mergeSnapshots(snapshots: LaunchSnapshot[]): LaunchSnapshot {
+  const fetchedAt = snapshots.map((s) => s.fetchedAt);
+  return {
+    launches: snapshots.flatMap((s) => s.launches),
+    fetchedAt: fetchedAt.includes(null) || fetchedAt.length === 0
+      ? null
+      : Math.min(...(fetchedAt as number[])),
+    stale: snapshots.some((s) => s.stale),
+  };
+}
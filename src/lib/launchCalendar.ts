@@ -0,0 +1,191 @@
+// iCalendar (RFC 5545) feeds of upcoming launches
+//
+// /api/calendar/[site].ics publishes one VEVENT per launch, spanning its launch window.
+// The UID comes from the LL2 launch ID, so when a NET slips, subscribed calendars move
+// the existing event on their next refresh instead of adding a second one. LAST-MODIFIED
+// follows the latest recorded schedule change (see launchHistory.ts), and SEQUENCE is the
+// time of that change, so it only goes up and clients that compare revisions take the update.
+// A redeploy empties the in-memory history, which drops SEQUENCE back to 0 until the next
+// change; run with LAUNCH_HISTORY_STORE=supabase to keep it across deploys.
+
+import type { EnrichedLaunch } from "./spacex";
+import type { LaunchChangeSummary } from "./launchChanges";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PRODID = "-//FalconWatch//Launch Calendar//EN";
+const UID_DOMAIN = "falconwatch.app";
+
+// Instantaneous windows still get an event long enough to show up in a day view
+const MIN_EVENT_SEC = 30 * 60;
+
+// Reminder ahead of the NET, which can fall anywhere in the window
+const ALARM_LEAD_SEC = 30 * 60;
+
+// How often subscribed calendars are asked to refetch the feed
+const REFRESH_INTERVAL = "PT1H";
+
+// Content lines longer than this many octets are folded (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+
+// SEQUENCE counts seconds from here, which keeps it within a 32-bit integer until 2088
+const SEQUENCE_EPOCH_SEC = Date.UTC(2020, 0, 1) / 1000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// Predicted visibility for the viewer given in the feed URL
+export interface CalendarVisibility {
+  viewerName: string;
+  percentage: number;
+  rating: "poor" | "fair" | "good" | "excellent";
+  guidance: string | null; // where to look, from the sky track
+}
+
+export interface CalendarLaunch {
+  launch: EnrichedLaunch;
+  url: string; // launch page
+  changes: LaunchChangeSummary | null;
+  visibility: CalendarVisibility | null;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * UTC date-time, e.g. 20251021T014200Z
+ */
+function formatDateTime(unixSec: number): string {
+  return new Date(unixSec * 1000).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * DURATION in whole minutes, e.g. -PT30M
+ */
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return `${minutes < 0 ? "-" : ""}PT${Math.abs(minutes)}M`;
+}
+
+/**
+ * TEXT value with backslashes, separators and newlines escaped
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line into 75-octet pieces without splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let piece = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(piece);
+      piece = "";
+      octets = 0;
+    }
+    piece += char;
+    octets += size;
+  }
+  pieces.push(piece);
+
+  return pieces.join("\r\n ");
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+const toUnix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+function describeLaunch({ launch, url, changes, visibility }: CalendarLaunch): string {
+  const lines = [`Status: ${launch.status.name}`];
+
+  if (launch.rocketData) {
+    lines.push(`Vehicle: ${launch.rocketData.name}`);
+  }
+  if (visibility) {
+    lines.push(`Visibility from ${visibility.viewerName}: ${visibility.percentage}% (${visibility.rating})`);
+    if (visibility.guidance) {
+      lines.push(`Where to look: ${visibility.guidance}`);
+    }
+  }
+  if (changes?.text) {
+    lines.push(`Schedule: ${changes.text}`);
+  }
+  if (launch.details) {
+    lines.push("", launch.details);
+  }
+  lines.push("", `Details: ${url}`);
+
+  return lines.join("\n");
+}
+
+function buildEvent(item: CalendarLaunch, stamp: string): string[] {
+  const { launch, url, changes } = item;
+  const start = toUnix(launch.window_start) || launch.date_unix;
+  const end = Math.max(toUnix(launch.window_end) || start, start + MIN_EVENT_SEC);
+  // The alarm is relative to DTSTART, so offset it to fire ahead of the NET
+  const alarmAt = launch.date_unix - ALARM_LEAD_SEC;
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${launch.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${changes?.lastChangeAt ? Math.max(0, changes.lastChangeAt - SEQUENCE_EPOCH_SEC) : 0}`,
+    ...(changes?.lastChangeAt ? [`LAST-MODIFIED:${formatDateTime(changes.lastChangeAt)}`] : []),
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(launch.name)}`,
+    `DESCRIPTION:${escapeText(describeLaunch(item))}`,
+    `LOCATION:${escapeText(launch.launchpadData?.full_name ?? launch.pad.location.name)}`,
+    `URL:${url}`,
+    // Go is firm; TBD, TBC and Hold may still move
+    `STATUS:${launch.status.abbrev === "Go" ? "CONFIRMED" : "TENTATIVE"}`,
+    "TRANSP:TRANSPARENT",
+    "BEGIN:VALARM",
+    `TRIGGER:${formatDuration(alarmAt - start)}`,
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(`${launch.name} launches in 30 minutes`)}`,
+    "END:VALARM",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * A complete VCALENDAR with one event per launch, lines folded and CRLF-terminated
+ */
+export function buildLaunchCalendar(name: string, launches: CalendarLaunch[], now = Date.now()): string {
+  const stamp = formatDateTime(Math.floor(now / 1000));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...launches.flatMap((launch) => buildEvent(launch, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
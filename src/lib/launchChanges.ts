@@ -0,0 +1,182 @@
+// Launch change tracking: NET slips, scrubs, status, pad and window changes
+//
+// LL2 only ever gives a launch's current schedule. Comparing each fetch with the one
+// before turns that into a history: every move of the NET, status transition
+// (Go → Hold → TBD), pad change or new window becomes an event. A NET that moves while the
+// launch was already close (inside SCRUB_LEAD_SEC of its old time, or past it) is counted
+// as a scrub rather than a planning slip.
+//
+// The stored history lives in launchHistory.ts; this module only diffs and summarizes.
+
+import type { EnrichedLaunch } from "./spacex";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// NET changes smaller than this are timing refinements, not slips
+const MIN_NET_CHANGE_SEC = 60;
+
+// A NET moved later within this long of the old time (or after it) is a scrub
+const SCRUB_LEAD_SEC = 3 * 3600;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type LaunchChangeType = "net" | "window" | "status" | "pad";
+
+// The schedule fields that are compared between fetches
+export interface LaunchState {
+  launchId: string;
+  net: string;
+  windowStart: string;
+  windowEnd: string;
+  status: string; // LL2 status abbreviation, e.g. "Go", "Hold", "TBD"
+  pad: string;
+}
+
+export interface LaunchChangeEvent {
+  launchId: string;
+  type: LaunchChangeType;
+  from: string;
+  to: string;
+  shiftSec: number | null; // NET and window changes: how far the start moved
+  scrub: boolean;
+  detectedAt: number;      // Unix seconds
+}
+
+export interface LaunchChangeSummary {
+  changes: number;        // recorded events of any kind
+  slips: number;          // times the NET moved later
+  netShiftSec: number;    // total NET movement, later positive
+  scrubs: number;
+  holds: number;
+  lastChangeAt: number | null;
+  text: string | null;    // "slipped 2× (+26h), scrubbed 1×"
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+export function getLaunchState(launch: EnrichedLaunch): LaunchState {
+  return {
+    launchId: launch.id,
+    net: launch.net,
+    windowStart: launch.window_start,
+    windowEnd: launch.window_end,
+    status: launch.status.abbrev,
+    pad: launch.pad.name,
+  };
+}
+
+const toUnix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+/**
+ * Events between two states of the same launch, oldest state first.
+ * A window that moves only because the NET moved is not reported again.
+ */
+export function diffLaunchStates(
+  previous: LaunchState,
+  current: LaunchState,
+  detectedAt: number
+): LaunchChangeEvent[] {
+  const events: LaunchChangeEvent[] = [];
+  const event = (type: LaunchChangeType, from: string, to: string, shiftSec: number | null = null, scrub = false) =>
+    events.push({ launchId: current.launchId, type, from, to, shiftSec, scrub, detectedAt });
+
+  const netShift = toUnix(current.net) - toUnix(previous.net);
+  const netMoved = Math.abs(netShift) >= MIN_NET_CHANGE_SEC;
+  if (netMoved) {
+    const scrub = netShift > 0 && toUnix(previous.net) - detectedAt < SCRUB_LEAD_SEC;
+    event("net", previous.net, current.net, netShift, scrub);
+  }
+
+  const startShift = toUnix(current.windowStart) - toUnix(previous.windowStart);
+  const previousLength = toUnix(previous.windowEnd) - toUnix(previous.windowStart);
+  const currentLength = toUnix(current.windowEnd) - toUnix(current.windowStart);
+  const windowMoved = Math.abs(startShift - (netMoved ? netShift : 0)) >= MIN_NET_CHANGE_SEC;
+  if (windowMoved || Math.abs(currentLength - previousLength) >= MIN_NET_CHANGE_SEC) {
+    event(
+      "window",
+      `${previous.windowStart}/${previous.windowEnd}`,
+      `${current.windowStart}/${current.windowEnd}`,
+      startShift
+    );
+  }
+
+  if (current.status !== previous.status) {
+    event("status", previous.status, current.status);
+  }
+
+  if (current.pad !== previous.pad) {
+    event("pad", previous.pad, current.pad);
+  }
+
+  return events;
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+function formatShift(seconds: number): string {
+  const hours = Math.abs(seconds) / 3600;
+  const sign = seconds >= 0 ? "+" : "−";
+  if (hours < 1) return `${sign}${Math.round(Math.abs(seconds) / 60)}m`;
+  if (hours < 72) return `${sign}${Math.round(hours)}h`;
+  return `${sign}${Math.round(hours / 24)}d`;
+}
+
+/**
+ * Counts and a one-line description of a launch's changes, e.g.
+ * "slipped 2× (+26h), scrubbed 1×"; text is null when nothing has changed
+ */
+export function summarizeLaunchChanges(events: LaunchChangeEvent[]): LaunchChangeSummary {
+  const netEvents = events.filter((e) => e.type === "net");
+  const slips = netEvents.filter((e) => (e.shiftSec ?? 0) > 0).length;
+  const netShiftSec = netEvents.reduce((sum, e) => sum + (e.shiftSec ?? 0), 0);
+  const scrubs = netEvents.filter((e) => e.scrub).length;
+  const holds = events.filter((e) => e.type === "status" && e.to === "Hold").length;
+
+  const parts: string[] = [];
+  if (slips > 0) parts.push(`slipped ${slips}× (${formatShift(netShiftSec)})`);
+  else if (netEvents.length > 0) parts.push(`moved ${netEvents.length}× (${formatShift(netShiftSec)})`);
+  if (scrubs > 0) parts.push(`scrubbed ${scrubs}×`);
+  if (holds > 0) parts.push(`held ${holds}×`);
+
+  return {
+    changes: events.length,
+    slips,
+    netShiftSec,
+    scrubs,
+    holds,
+    lastChangeAt: events.length > 0 ? Math.max(...events.map((e) => e.detectedAt)) : null,
+    text: parts.length > 0 ? parts.join(", ") : null,
+  };
+}
+
+/**
+ * One-line description of a single event, for notifications.
+ * Times are shown with formatTime (ISO 8601 by default).
+ */
+export function describeLaunchChange(
+  event: LaunchChangeEvent,
+  formatTime: (iso: string) => string = (iso) => iso
+): string {
+  switch (event.type) {
+    case "net":
+      return event.scrub
+        ? `Scrubbed — now targeting ${formatTime(event.to)} (${formatShift(event.shiftSec ?? 0)})`
+        : `Launch time moved ${formatShift(event.shiftSec ?? 0)} to ${formatTime(event.to)}`;
+    case "window": {
+      const [start, end] = event.to.split("/");
+      return `Launch window changed to ${formatTime(start)} – ${formatTime(end)}`;
+    }
+    case "status":
+      return `Status changed from ${event.from} to ${event.to}`;
+    case "pad":
+      return `Moved from ${event.from} to ${event.to}`;
+  }
+}
@@ -0,0 +1,302 @@
+// Launch history store: the last seen state of each launch and the changes found since
+//
+// Every successful launch fetch is passed to recordLaunchChanges, which diffs it against
+// the stored state (see launchChanges.ts) and appends any events. The events back
+// /api/launches/[id]/history, the "slipped 2×" line on the launch card and the update
+// emails sent by /api/cron/send-alerts, which marks the changes it has emailed about so a
+// retried run doesn't send them again.
+//
+// Stores (LAUNCH_HISTORY_STORE):
+// - "memory" (default): per server instance, so history starts over on each deploy. The
+//   cron rarely runs on the instance that saw the changes, so update emails need Supabase.
+// - "supabase": the launch_states and launch_events tables (see supabase-schema.sql).
+//   The client is loaded lazily so the memory store works without Supabase.
+//
+// Server-only.
+
+import type { EnrichedLaunch } from "./spacex";
+import {
+  diffLaunchStates,
+  getLaunchState,
+  summarizeLaunchChanges,
+  type LaunchChangeEvent,
+  type LaunchChangeSummary,
+  type LaunchChangeType,
+  type LaunchState,
+} from "./launchChanges";
+
+// Events kept by the memory store before the oldest are dropped
+const MAX_MEMORY_EVENTS = 5000;
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface LaunchHistoryStore {
+  name: string;
+  getStates: (launchIds: string[]) => Promise<Map<string, LaunchState>>;
+  saveStates: (states: LaunchState[]) => Promise<void>;
+  addEvents: (events: LaunchChangeEvent[]) => Promise<void>;
+  getEvents: (launchIds: string[]) => Promise<LaunchChangeEvent[]>;
+  getUnnotifiedEventsSince: (since: number) => Promise<LaunchChangeEvent[]>;
+  markEventsNotified: (launchIds: string[], until: number) => Promise<void>;
+}
+
+const memoryStates = new Map<string, LaunchState>();
+const memoryEvents: LaunchChangeEvent[] = [];
+const memoryNotified = new WeakSet<LaunchChangeEvent>();
+
+const memoryLaunchHistoryStore: LaunchHistoryStore = {
+  name: "memory",
+  async getStates(launchIds) {
+    const states = new Map<string, LaunchState>();
+    for (const id of launchIds) {
+      const state = memoryStates.get(id);
+      if (state) states.set(id, state);
+    }
+    return states;
+  },
+  async saveStates(states) {
+    for (const state of states) memoryStates.set(state.launchId, state);
+  },
+  async addEvents(events) {
+    memoryEvents.push(...events);
+    memoryEvents.splice(0, Math.max(0, memoryEvents.length - MAX_MEMORY_EVENTS));
+  },
+  async getEvents(launchIds) {
+    return memoryEvents.filter((e) => launchIds.includes(e.launchId));
+  },
+  async getUnnotifiedEventsSince(since) {
+    return memoryEvents.filter((e) => e.detectedAt >= since && !memoryNotified.has(e));
+  },
+  async markEventsNotified(launchIds, until) {
+    for (const event of memoryEvents) {
+      if (launchIds.includes(event.launchId) && event.detectedAt <= until) memoryNotified.add(event);
+    }
+  },
+};
+
+interface LaunchStateRow {
+  launch_id: string;
+  net: string;
+  window_start: string;
+  window_end: string;
+  status: string;
+  pad: string;
+}
+
+interface LaunchEventRow {
+  launch_id: string;
+  event_type: LaunchChangeType;
+  from_value: string;
+  to_value: string;
+  shift_seconds: number | null;
+  scrub: boolean;
+  detected_at: string;
+}
+
+function toEvent(row: LaunchEventRow): LaunchChangeEvent {
+  return {
+    launchId: row.launch_id,
+    type: row.event_type,
+    from: row.from_value,
+    to: row.to_value,
+    shiftSec: row.shift_seconds,
+    scrub: row.scrub,
+    detectedAt: Math.floor(new Date(row.detected_at).getTime() / 1000),
+  };
+}
+
+const supabaseLaunchHistoryStore: LaunchHistoryStore = {
+  name: "supabase",
+  async getStates(launchIds) {
+    const { supabase } = await import("./supabase");
+    const { data, error } = await supabase.from("launch_states").select("*").in("launch_id", launchIds);
+    if (error) throw error;
+
+    return new Map(
+      (data as LaunchStateRow[]).map((row) => [
+        row.launch_id,
+        {
+          launchId: row.launch_id,
+          net: row.net,
+          windowStart: row.window_start,
+          windowEnd: row.window_end,
+          status: row.status,
+          pad: row.pad,
+        },
+      ])
+    );
+  },
+  async saveStates(states) {
+    if (states.length === 0) return;
+    const { supabase } = await import("./supabase");
+    const { error } = await supabase.from("launch_states").upsert(
+      states.map((state) => ({
+        launch_id: state.launchId,
+        net: state.net,
+        window_start: state.windowStart,
+        window_end: state.windowEnd,
+        status: state.status,
+        pad: state.pad,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: "launch_id" }
+    );
+    if (error) throw error;
+  },
+  async addEvents(events) {
+    if (events.length === 0) return;
+    const { supabase } = await import("./supabase");
+    const { error } = await supabase.from("launch_events").insert(
+      events.map((event) => ({
+        launch_id: event.launchId,
+        event_type: event.type,
+        from_value: event.from,
+        to_value: event.to,
+        shift_seconds: event.shiftSec,
+        scrub: event.scrub,
+        detected_at: new Date(event.detectedAt * 1000).toISOString(),
+      }))
+    );
+    if (error) throw error;
+  },
+  async getEvents(launchIds) {
+    const { supabase } = await import("./supabase");
+    const { data, error } = await supabase
+      .from("launch_events")
+      .select("*")
+      .in("launch_id", launchIds)
+      .order("detected_at");
+    if (error) throw error;
+    return (data as LaunchEventRow[]).map(toEvent);
+  },
+  async getUnnotifiedEventsSince(since) {
+    const { supabase } = await import("./supabase");
+    const { data, error } = await supabase
+      .from("launch_events")
+      .select("*")
+      .gte("detected_at", new Date(since * 1000).toISOString())
+      .is("notified_at", null)
+      .order("detected_at");
+    if (error) throw error;
+    return (data as LaunchEventRow[]).map(toEvent);
+  },
+  async markEventsNotified(launchIds, until) {
+    if (launchIds.length === 0) return;
+    const { supabase } = await import("./supabase");
+    const { error } = await supabase
+      .from("launch_events")
+      .update({ notified_at: new Date().toISOString() })
+      .in("launch_id", launchIds)
+      .lte("detected_at", new Date(until * 1000).toISOString())
+      .is("notified_at", null);
+    if (error) throw error;
+  },
+};
+
+/**
+ * History store selected by LAUNCH_HISTORY_STORE
+ */
+export function getLaunchHistoryStore(): LaunchHistoryStore {
+  return process.env.LAUNCH_HISTORY_STORE === "supabase"
+    ? supabaseLaunchHistoryStore
+    : memoryLaunchHistoryStore;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Diff freshly fetched launches against their last seen state and store any
+ * changes. Launches seen for the first time only have their state saved.
+ */
+export async function recordLaunchChanges(launches: EnrichedLaunch[]): Promise<LaunchChangeEvent[]> {
+  if (launches.length === 0) return [];
+
+  try {
+    const store = getLaunchHistoryStore();
+    const current = launches.map(getLaunchState);
+    const previous = await store.getStates(current.map((s) => s.launchId));
+    const detectedAt = Math.floor(Date.now() / 1000);
+
+    const events: LaunchChangeEvent[] = [];
+    const changed: LaunchState[] = [];
+    for (const state of current) {
+      const before = previous.get(state.launchId);
+      const diff = before ? diffLaunchStates(before, state, detectedAt) : [];
+      if (!before || diff.length > 0) changed.push(state);
+      events.push(...diff);
+    }
+
+    await store.addEvents(events);
+    await store.saveStates(changed);
+    return events;
+  } catch (error) {
+    console.error("Failed to record launch changes:", error);
+    return [];
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Every recorded change to a launch, oldest first
+ */
+export async function getLaunchHistory(launchId: string): Promise<LaunchChangeEvent[]> {
+  try {
+    const events = await getLaunchHistoryStore().getEvents([launchId]);
+    return events.sort((a, b) => a.detectedAt - b.detectedAt);
+  } catch (error) {
+    console.error("Failed to read launch history:", error);
+    return [];
+  }
+}
+
+/**
+ * Change summaries for several launches at once; launches without changes
+ * are left out
+ */
+export async function getLaunchChangeSummaries(launchIds: string[]): Promise<Map<string, LaunchChangeSummary>> {
+  const summaries = new Map<string, LaunchChangeSummary>();
+  if (launchIds.length === 0) return summaries;
+
+  try {
+    const events = await getLaunchHistoryStore().getEvents(launchIds);
+    for (const id of launchIds) {
+      const own = events.filter((e) => e.launchId === id);
+      if (own.length > 0) summaries.set(id, summarizeLaunchChanges(own));
+    }
+  } catch (error) {
+    console.error("Failed to read launch change summaries:", error);
+  }
+  return summaries;
+}
+
+/**
+ * Changes to any launch detected at or after the given time (Unix seconds) that
+ * subscribers haven't been notified about yet
+ */
+export async function getUnnotifiedLaunchChangesSince(since: number): Promise<LaunchChangeEvent[]> {
+  try {
+    return await getLaunchHistoryStore().getUnnotifiedEventsSince(since);
+  } catch (error) {
+    console.error("Failed to read recent launch changes:", error);
+    return [];
+  }
+}
+
+/**
+ * Mark the changes to these launches detected up to the given time (Unix seconds)
+ * as notified, so later runs skip them
+ */
+export async function markLaunchChangesNotified(launchIds: string[], until: number): Promise<void> {
+  try {
+    await getLaunchHistoryStore().markEventsNotified(launchIds, until);
+  } catch (error) {
+    console.error("Failed to mark launch changes notified:", error);
+  }
+}
@@ -0,0 +1,74 @@
+// Shareable launch links: /launch/[id], optionally with a viewer as ?lat=&lon=&name=
+//
+// A link carries everything a prediction depends on besides the weather — the launch and
+// where it is watched from — so "Transporter-14 as seen from Tucson" can be sent to
+// someone who has never saved a location. The same parsing is used by the page and its
+// Open Graph image so both describe the same viewer.
+
+import { validateCoords } from "./security";
+
+// LL2 IDs are UUIDs; synthetic launches use "synthetic-<site>-<n>"
+const LAUNCH_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// Coordinates in links are rounded to ~10m
+const COORD_DECIMALS = 4;
+
+const MAX_VIEWER_NAME_LENGTH = 80;
+const DEFAULT_VIEWER_NAME = "Custom Location";
+
+export interface LinkViewer {
+  lat: number;
+  lon: number;
+  name: string;
+}
+
+/**
+ * Whether a launch ID from a URL is worth looking up
+ */
+export function isValidLaunchId(launchId: string): boolean {
+  return LAUNCH_ID_PATTERN.test(launchId);
+}
+
+function getViewerQuery(viewer: LinkViewer): string {
+  return new URLSearchParams({
+    lat: viewer.lat.toFixed(COORD_DECIMALS),
+    lon: viewer.lon.toFixed(COORD_DECIMALS),
+    name: viewer.name,
+  }).toString();
+}
+
+/**
+ * Path of a launch's page, with the viewer encoded when given
+ */
+export function getLaunchPath(launchId: string, viewer?: LinkViewer | null): string {
+  const path = `/launch/${encodeURIComponent(launchId)}`;
+  return viewer ? `${path}?${getViewerQuery(viewer)}` : path;
+}
+
+/**
+ * Path of the Open Graph image for a launch link with a viewer
+ */
+export function getLaunchImagePath(launchId: string, viewer: LinkViewer): string {
+  return `/launch/${encodeURIComponent(launchId)}/og?${getViewerQuery(viewer)}`;
+}
+
+/**
+ * Viewer encoded in a launch link; null when the coordinates are missing or invalid
+ */
+export function parseLinkViewer(
+  lat: string | null | undefined,
+  lon: string | null | undefined,
+  name: string | null | undefined
+): LinkViewer | null {
+  if (!lat || !lon) return null;
+
+  const parsedLat = parseFloat(lat);
+  const parsedLon = parseFloat(lon);
+  if (!validateCoords(parsedLat, parsedLon)) return null;
+
+  return {
+    lat: parsedLat,
+    lon: parsedLon,
+    name: name?.trim().slice(0, MAX_VIEWER_NAME_LENGTH) || DEFAULT_VIEWER_NAME,
+  };
+}
@@ -0,0 +1,75 @@
+// Shared query-parameter handling for the visibility API routes
+//
+// A launch can be given either by LL2 ID (launchId) or described inline with
+// launchTime, missionName, siteId, rocket (LL2 configuration name), orbit
+// (LL2 mission orbit abbreviation) and missionDescription (searched for a stated
+// inclination).
+
+import { getLaunchById } from "./launchProvider";
+import type { VisibilityLaunch } from "./visibility";
+
+export interface LaunchParams {
+  launch: VisibilityLaunch;
+  windowBounds: { start: number; end: number }; // Unix seconds
+}
+
+export interface LaunchParamsError {
+  error: string;
+  status: number;
+}
+
+/**
+ * Resolve the launch a visibility request is about from its query parameters
+ */
+export async function resolveLaunchParams(
+  searchParams: URLSearchParams
+): Promise<LaunchParams | LaunchParamsError> {
+  const launchId = searchParams.get("launchId");
+  const launchTime = searchParams.get("launchTime");
+
+  if (!launchId && !launchTime) {
+    return { error: "launchId or launchTime parameter is required", status: 400 };
+  }
+
+  if (launchId) {
+    // Full LL2 launch record: vehicle, orbit and site come from the launch itself
+    const found = await getLaunchById(launchId);
+    if (!found) {
+      return { error: "Launch not found", status: 404 };
+    }
+    return {
+      launch: found,
+      windowBounds: {
+        start: Math.floor(new Date(found.window_start).getTime() / 1000),
+        end: Math.floor(new Date(found.window_end).getTime() / 1000),
+      },
+    };
+  }
+
+  const launchTimestamp = parseInt(launchTime!, 10);
+  if (isNaN(launchTimestamp)) {
+    return { error: "Invalid launchTime", status: 400 };
+  }
+
+  const rocketName = searchParams.get("rocket");
+  const orbitAbbrev = searchParams.get("orbit");
+  const missionDescription = searchParams.get("missionDescription");
+
+  return {
+    launch: {
+      name: searchParams.get("missionName") || "Unknown Mission",
+      date_unix: launchTimestamp,
+      siteId: searchParams.get("siteId") || "vandenberg",
+      rocket: rocketName ? { configuration: { name: rocketName } } : undefined,
+      mission: orbitAbbrev || missionDescription
+        ? {
+            description: missionDescription,
+            orbit: orbitAbbrev
+              ? { abbrev: orbitAbbrev, name: searchParams.get("orbitName") || orbitAbbrev }
+              : undefined,
+          }
+        : null,
+    },
+    windowBounds: { start: launchTimestamp, end: launchTimestamp },
+  };
+}
@@ -0,0 +1,505 @@
+// Launch data providers
+//
+// Every route, cron job and script gets launches through the functions at the bottom of
+// this module, which ask the provider selected by LAUNCH_PROVIDER:
+// - "ll2" (default): the live Launch Library 2 API (see spacex.ts). With
+//   LAUNCH_FIXTURE_RECORD=true each response is also written to the fixture directory.
+// - "fixture": replays recorded LL2 responses from LAUNCH_FIXTURE_DIR (default
+//   fixtures/launches), one file per site and list (upcoming_<site>.json, and optionally
+//   past_<site>.json). Upcoming recordings are shifted by whole days so the first launch
+//   falls within the next 24 hours, keeping their time-of-day pattern.
+// - "synthetic": generates plausible launches for every site in LAUNCH_SITES, for working
+//   offline or without LL2's free-tier rate limits. Launches are spaced by the site's
+//   vehicle cadence with a mix of twilight, night and daytime slots, and are deterministic,
+//   so a launch keeps its ID and time across requests and becomes a past launch once its
+//   time has gone by.
+//
+// Lists are served from the launch cache (launchCache.ts), which returns them as snapshots
+// with the time they were fetched and whether they are stale. Each fresh fetch is also
+// diffed against the previous one for the launch history (launchHistory.ts), except from
+// the fixture provider, whose day-shifted recordings would look like daily slips.
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  getLaunchFixtureDir,
+  getLaunchFixtureFileName,
+  launchMatchesSite,
+  ll2LaunchProvider,
+  transformLaunch,
+  type EnrichedLaunch,
+  type Launch,
+} from "./spacex";
+import { LAUNCH_SITES, getAllSiteIds, getLaunchSite, type LaunchSite } from "./launchSites";
+import { calculateSolarElevation } from "./solar";
+import type { VehicleKey } from "./vehicles";
+import {
+  getCachedLaunches,
+  mergeSnapshots,
+  type LaunchQuota,
+  type LaunchSnapshot,
+} from "./launchCache";
+import { recordLaunchChanges } from "./launchHistory";
+
+// Launches up to this long past their time still count as upcoming
+const UPCOMING_GRACE_SEC = 12 * 3600;
+
+const DAY_SEC = 86400;
+
+// How long cached lists are served before they are refreshed
+const UPCOMING_TTL_SEC = 300;
+const PAST_TTL_SEC = 3600;
+const LAUNCH_TTL_SEC = 300;
+
+// How far ahead the synthetic provider schedules launches
+const SYNTHETIC_HORIZON_DAYS = 30;
+
+// Synthetic launches this close are "Go", further out "TBD"
+const SYNTHETIC_GO_DAYS = 7;
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+// Fetches return null when the source fails, so the cache keeps its last good snapshot
+export interface LaunchProvider {
+  name: string;
+  source: string; // attribution returned by /api/launches
+  trackChanges: boolean; // feed fetches to the launch history
+  fetchUpcoming: (site: LaunchSite) => Promise<EnrichedLaunch[] | null>;
+  fetchPast: (site: LaunchSite, limit: number) => Promise<EnrichedLaunch[] | null>;
+  fetchLaunch: (launchId: string) => Promise<EnrichedLaunch | null>;
+  getQuota?: () => LaunchQuota | null;
+}
+
+// Recorded LL2 list response, or null when there is no recording
+async function readLaunchFixture(kind: "upcoming" | "past", siteId: string): Promise<Launch[] | null> {
+  try {
+    const file = path.join(getLaunchFixtureDir(), getLaunchFixtureFileName(kind, siteId));
+    const data = JSON.parse(await fs.readFile(file, "utf8"));
+    return data.results || [];
+  } catch {
+    return null;
+  }
+}
+
+function shiftIsoTime(iso: string, seconds: number): string {
+  return new Date(new Date(iso).getTime() + seconds * 1000).toISOString();
+}
+
+const fixtureLaunchProvider: LaunchProvider = {
+  name: "fixture",
+  source: "Recorded Launch Library 2 responses",
+  trackChanges: false,
+
+  async fetchUpcoming(site) {
+    const launches = await readLaunchFixture("upcoming", site.id);
+    if (!launches) {
+      console.error(`No upcoming launch fixture for ${site.id} in ${getLaunchFixtureDir()}`);
+      return null;
+    }
+    if (launches.length === 0) return [];
+
+    // Shift the recording by whole days so its first launch is still to come
+    const first = Math.min(...launches.map((l) => new Date(l.net).getTime() / 1000));
+    const now = Math.floor(Date.now() / 1000);
+    const shift = Math.max(0, Math.ceil((now - first) / DAY_SEC) * DAY_SEC);
+
+    return launches
+      .map((launch) => ({
+        ...launch,
+        net: shiftIsoTime(launch.net, shift),
+        window_start: shiftIsoTime(launch.window_start, shift),
+        window_end: shiftIsoTime(launch.window_end, shift),
+      }))
+      .filter((launch) => launchMatchesSite(launch, site))
+      .map(transformLaunch);
+  },
+
+  async fetchPast(site, limit) {
+    // Past lists are optional in a recording; without one the site has no past launches
+    const launches = await readLaunchFixture("past", site.id) ?? [];
+
+    return launches
+      .filter((launch) => launchMatchesSite(launch, site))
+      .map(transformLaunch)
+      .sort((a, b) => b.date_unix - a.date_unix)
+      .slice(0, limit);
+  },
+
+  async fetchLaunch(launchId) {
+    for (const site of Object.values(LAUNCH_SITES)) {
+      const [upcoming, past] = await Promise.all([
+        fixtureLaunchProvider.fetchUpcoming(site),
+        fixtureLaunchProvider.fetchPast(site, Infinity),
+      ]);
+      const launch = [...(upcoming ?? []), ...(past ?? [])].find((l) => l.id === launchId);
+      if (launch) return launch;
+    }
+    return null;
+  },
+};
+
+// ============================================================================
+// SYNTHETIC LAUNCHES
+// ============================================================================
+
+interface SyntheticMission {
+  name: (slot: number, serial: number) => string; // serial: a seeded number 0-999
+  type: string;
+  description: string;
+  orbit: { name: string; abbrev: string };
+  weight: number;
+}
+
+interface SyntheticProgram {
+  intervalDays: number; // mean spacing between launches from one site
+  configuration: Launch["rocket"]["configuration"];
+  missions: SyntheticMission[];
+}
+
+const LEO = { name: "Low Earth Orbit", abbrev: "LEO" };
+
+const SYNTHETIC_PROGRAMS: Partial<Record<VehicleKey, SyntheticProgram>> = {
+  falcon9: {
+    intervalDays: 3,
+    configuration: { id: 164, name: "Falcon 9", full_name: "Falcon 9 Block 5", family: "Falcon" },
+    missions: [
+      {
+        name: (_, serial) => `Starlink Group ${10 + (serial % 8)}-${1 + (serial % 29)}`,
+        type: "Communications",
+        description: "A batch of Starlink satellites for the SpaceX broadband constellation.",
+        orbit: LEO,
+        weight: 0.75,
+      },
+      {
+        name: (_, serial) => `Transporter-${20 + (serial % 10)}`,
+        type: "Dedicated Rideshare",
+        description: "A rideshare mission carrying small satellites for commercial and government customers.",
+        orbit: { name: "Sun-Synchronous Orbit", abbrev: "SSO" },
+        weight: 0.15,
+      },
+      {
+        name: (_, serial) => `NROL-${100 + (serial % 90)}`,
+        type: "Government/Top Secret",
+        description: "A classified payload for the National Reconnaissance Office.",
+        orbit: LEO,
+        weight: 0.1,
+      },
+    ],
+  },
+  falconHeavy: {
+    intervalDays: 60,
+    configuration: { id: 161, name: "Falcon Heavy", full_name: "Falcon Heavy", family: "Falcon" },
+    missions: [
+      {
+        name: (_, serial) => `USSF-${50 + (serial % 50)}`,
+        type: "Government/Top Secret",
+        description: "A national security payload for the U.S. Space Force.",
+        orbit: { name: "Geostationary Orbit", abbrev: "GEO" },
+        weight: 1,
+      },
+    ],
+  },
+  starship: {
+    intervalDays: 14,
+    configuration: { id: 464, name: "Starship", full_name: "Starship", family: "Starship" },
+    missions: [
+      {
+        name: (slot) => `Starship Flight ${1 + (slot % 100)}`,
+        type: "Test Flight",
+        description: "An integrated flight test of Starship and the Super Heavy booster.",
+        orbit: { name: "Suborbital", abbrev: "Sub" },
+        weight: 1,
+      },
+    ],
+  },
+};
+
+/**
+ * Seeded pseudo-random sequence (FNV-1a hash into mulberry32), so a site and
+ * slot always produce the same launch
+ */
+function seededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pickWeighted<T extends { weight: number }>(items: T[], r: number): T {
+  let remaining = r * items.reduce((sum, item) => sum + item.weight, 0);
+  for (const item of items) {
+    remaining -= item.weight;
+    if (remaining < 0) return item;
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * First minute after (direction 1) or before (direction -1) local solar noon
+ * when the Sun drops below the given elevation
+ */
+function findSunBelow(site: LaunchSite, solarNoon: number, elevationDeg: number, direction: 1 | -1): number {
+  for (let minute = 0; minute <= 12 * 60; minute++) {
+    const t = solarNoon + direction * minute * 60;
+    if (calculateSolarElevation(site.lat, site.lon, t) < elevationDeg) return t;
+  }
+  return solarNoon + direction * 12 * 3600;
+}
+
+/**
+ * Launch time on the given UTC day: evening or morning twilight (the launches
+ * worth watching), the middle of the night, or daytime
+ */
+function pickLaunchTime(site: LaunchSite, day: number, random: () => number): number {
+  const solarNoon = day * DAY_SEC + 12 * 3600 - Math.round(site.lon / 15 * 3600);
+  const kind = random();
+
+  let time: number;
+  if (kind < 0.35) {
+    time = findSunBelow(site, solarNoon, -6 - 6 * random(), 1);
+  } else if (kind < 0.55) {
+    time = findSunBelow(site, solarNoon, -6 - 6 * random(), -1);
+  } else if (kind < 0.8) {
+    time = solarNoon + 12 * 3600 + Math.round((random() - 0.5) * 6 * 3600);
+  } else {
+    time = solarNoon + Math.round((random() - 0.5) * 8 * 3600);
+  }
+  return Math.round(time / 60) * 60;
+}
+
+/**
+ * The launch scheduled in one slot of a site's cadence. Slots are counted from
+ * the Unix epoch, each intervalDays long, with the launch on a random day of it.
+ */
+function generateSyntheticLaunch(site: LaunchSite, slot: number): Launch {
+  const program = SYNTHETIC_PROGRAMS[site.defaultVehicle] ?? SYNTHETIC_PROGRAMS.falcon9!;
+  const random = seededRandom(`${site.id}:${slot}`);
+
+  const day = slot * program.intervalDays + Math.floor(random() * program.intervalDays);
+  const net = pickLaunchTime(site, day, random);
+  const windowMinutes = [0, 30, 60, 120, 240][Math.floor(random() * 5)];
+  const mission = pickWeighted(program.missions, random());
+  const missionName = mission.name(slot, Math.floor(random() * 1000));
+
+  const now = Date.now() / 1000;
+  const status = net < now
+    ? { id: 3, name: "Launch Successful", abbrev: "Success", description: "The launch vehicle successfully inserted its payload(s) into the target orbit(s)." }
+    : net - now < SYNTHETIC_GO_DAYS * DAY_SEC
+      ? { id: 1, name: "Go for Launch", abbrev: "Go", description: "Current T-0 confirmed by official or reliable sources." }
+      : { id: 2, name: "To Be Determined", abbrev: "TBD", description: "Current date is a 'No Earlier Than' estimation based on unreliable or interpreted sources." };
+
+  return {
+    id: `synthetic-${site.id}-${slot}`,
+    name: `${program.configuration.full_name} | ${missionName}`,
+    status,
+    net: new Date(net * 1000).toISOString(),
+    window_start: new Date(net * 1000).toISOString(),
+    window_end: new Date((net + windowMinutes * 60) * 1000).toISOString(),
+    rocket: { id: slot, configuration: program.configuration },
+    mission: {
+      name: missionName,
+      description: mission.description,
+      type: mission.type,
+      orbit: mission.orbit,
+    },
+    pad: {
+      id: site.ll2PadIds[0],
+      name: site.padLabel,
+      location: { name: site.name },
+    },
+    launch_service_provider: { name: "SpaceX", type: "Commercial" },
+  };
+}
+
+function getSyntheticInterval(site: LaunchSite): number {
+  return (SYNTHETIC_PROGRAMS[site.defaultVehicle] ?? SYNTHETIC_PROGRAMS.falcon9!).intervalDays;
+}
+
+const syntheticLaunchProvider: LaunchProvider = {
+  name: "synthetic",
+  source: "Synthetic launches (offline development)",
+  trackChanges: true,
+
+  async fetchUpcoming(site) {
+    const interval = getSyntheticInterval(site);
+    const today = Math.floor(Date.now() / 1000 / DAY_SEC);
+    const firstSlot = Math.floor((today - 1) / interval);
+    const lastSlot = Math.floor((today + SYNTHETIC_HORIZON_DAYS) / interval);
+
+    const launches: EnrichedLaunch[] = [];
+    for (let slot = firstSlot; slot <= lastSlot; slot++) {
+      launches.push({ ...transformLaunch(generateSyntheticLaunch(site, slot)), spacexUrl: null });
+    }
+    return launches;
+  },
+
+  async fetchPast(site, limit) {
+    const now = Date.now() / 1000;
+    const launches: EnrichedLaunch[] = [];
+    let slot = Math.floor(now / DAY_SEC / getSyntheticInterval(site));
+
+    while (launches.length < limit && slot >= 0) {
+      const launch = transformLaunch(generateSyntheticLaunch(site, slot--));
+      if (launch.date_unix < now) launches.push(launch);
+    }
+    return launches;
+  },
+
+  async fetchLaunch(launchId) {
+    const match = launchId.match(/^synthetic-(.+)-(\d+)$/);
+    const site = match ? getLaunchSite(match[1]) : undefined;
+    if (!match || !site) return null;
+    return transformLaunch(generateSyntheticLaunch(site, parseInt(match[2], 10)));
+  },
+};
+
+/**
+ * Launch provider selected by LAUNCH_PROVIDER
+ */
+export function getLaunchProvider(): LaunchProvider {
+  switch (process.env.LAUNCH_PROVIDER) {
+    case "fixture":
+      return fixtureLaunchProvider;
+    case "synthetic":
+      return syntheticLaunchProvider;
+    default:
+      return ll2LaunchProvider;
+  }
+}
+
+// ============================================================================
+// LAUNCH LISTS
+// ============================================================================
+
+/**
+ * Pass a successful fetch to the launch history before it is cached
+ */
+async function tracked(provider: LaunchProvider, fetched: Promise<EnrichedLaunch[] | null>) {
+  const launches = await fetched;
+  if (launches && provider.trackChanges) await recordLaunchChanges(launches);
+  return launches;
+}
+
+// Upcoming launches for a specific site (SpaceX only), with cache freshness
+export async function getUpcomingLaunchSnapshot(siteId?: string): Promise<LaunchSnapshot> {
+  const site = siteId ? getLaunchSite(siteId) : getLaunchSite("vandenberg");
+  if (!site) return { launches: [], fetchedAt: null, stale: false };
+
+  const provider = getLaunchProvider();
+  const snapshot = await getCachedLaunches(
+    `${provider.name}:upcoming:${site.id}`,
+    UPCOMING_TTL_SEC,
+    () => tracked(provider, provider.fetchUpcoming(site)),
+    provider.getQuota?.() ?? null
+  );
+
+  // Launches within the last 12 hours still show as upcoming (delays, live coverage)
+  const cutoff = Date.now() / 1000 - UPCOMING_GRACE_SEC;
+  return {
+    ...snapshot,
+    launches: snapshot.launches
+      .filter((launch) => launch.date_unix > cutoff)
+      .sort((a, b) => a.date_unix - b.date_unix),
+  };
+}
+
+// Upcoming launches from ALL sites, soonest first, with cache freshness
+export async function getUpcomingLaunchSnapshotAllSites(): Promise<LaunchSnapshot> {
+  const snapshots = await Promise.all(
+    getAllSiteIds().map((siteId) => getUpcomingLaunchSnapshot(siteId))
+  );
+
+  const merged = mergeSnapshots(snapshots);
+  return { ...merged, launches: merged.launches.sort((a, b) => a.date_unix - b.date_unix) };
+}
+
+// Past launches for a specific site, most recent first, with cache freshness
+export async function getPastLaunchSnapshot(siteId?: string, limit = 5): Promise<LaunchSnapshot> {
+  const site = siteId ? getLaunchSite(siteId) : getLaunchSite("vandenberg");
+  if (!site) return { launches: [], fetchedAt: null, stale: false };
+
+  const provider = getLaunchProvider();
+  const snapshot = await getCachedLaunches(
+    `${provider.name}:past:${site.id}:${limit}`,
+    PAST_TTL_SEC,
+    () => tracked(provider, provider.fetchPast(site, limit)),
+    provider.getQuota?.() ?? null
+  );
+
+  return { ...snapshot, launches: [...snapshot.launches].sort((a, b) => b.date_unix - a.date_unix) };
+}
+
+// Fetch upcoming launches for a specific site (SpaceX only)
+export async function getUpcomingLaunches(siteId?: string): Promise<EnrichedLaunch[]> {
+  return (await getUpcomingLaunchSnapshot(siteId)).launches;
+}
+
+// Fetch upcoming launches from ALL sites in parallel
+export async function getUpcomingLaunchesAllSites(): Promise<EnrichedLaunch[]> {
+  return (await getUpcomingLaunchSnapshotAllSites()).launches;
+}
+
+// Fetch past launches for a specific site, most recent first
+export async function getPastLaunches(
+  siteId?: string,
+  limit = 5
+): Promise<EnrichedLaunch[]> {
+  return (await getPastLaunchSnapshot(siteId, limit)).launches;
+}
+
+// Get the next upcoming launch (optionally for a specific site, or soonest across all)
+export async function getNextLaunch(siteId?: string): Promise<EnrichedLaunch | null> {
+  const launches = siteId
+    ? await getUpcomingLaunches(siteId)
+    : await getUpcomingLaunchesAllSites();
+
+  if (launches.length === 0) {
+    return null;
+  }
+
+  return launches[0];
+}
+
+// Get a single launch by ID
+// Checks the (cached) upcoming list first so the common case costs no extra API call
+export async function getLaunchById(launchId: string): Promise<EnrichedLaunch | null> {
+  const upcoming = await getUpcomingLaunchesAllSites();
+  const cached = upcoming.find((launch) => launch.id === launchId);
+  if (cached) {
+    return cached;
+  }
+
+  const provider = getLaunchProvider();
+  const { launches } = await getCachedLaunches(
+    `${provider.name}:launch:${launchId}`,
+    LAUNCH_TTL_SEC,
+    async () => {
+      const launch = await provider.fetchLaunch(launchId);
+      return launch ? tracked(provider, Promise.resolve([launch])) : null;
+    },
+    provider.getQuota?.() ?? null
+  );
+
+  return launches[0] ?? null;
+}
+
+// Get all launches (past and upcoming) for a site
+export async function getAllLaunches(siteId?: string): Promise<{
+  upcoming: EnrichedLaunch[];
+  past: EnrichedLaunch[];
+}> {
+  const [upcoming, past] = await Promise.all([
+    siteId ? getUpcomingLaunches(siteId) : getUpcomingLaunchesAllSites(),
+    getPastLaunches(siteId, 10),
+  ]);
+
+  return { upcoming, past };
+}
@@ -1,9 +1,8 @@
 // Centralized launch site configuration for multi-site support
 //
 // DATA SOURCES:
-// - Trajectory points: SpaceX webcast telemetry (speed/altitude/time overlays),
-//   FAA Environmental Impact Statements, NOTAM flight restriction zones, FlightClub.io
-//   reconstructions. Points represent ground track at T+0, T+1m, T+2m, T+3m, T+4m, T+5m.
+// - Trajectories: generated per mission in trajectory.ts from pad coordinates, launch
+//   azimuth and the vehicle ascent profile.
 // - Azimuths: Orbital mechanics (azimuth = f(inclination, latitude)) verified against
 //   NOTAM closure corridors and webcast trajectory data.
 // - Visibility modifiers: NOAA 1991-2020 Climate Normals (KVBG, KXMR, KBRO stations),
@@ -11,6 +10,14 @@
 //   pollution atlas.
 // - Coordinates: Official pad coordinates from FAA licensing documents.
 
+import type { AscentVehicle } from "./trajectory";
+
+export interface AzimuthCorridor {
+  name: string;
+  min: number; // degrees from north
+  max: number;
+}
+
 export interface LaunchSite {
   id: string;
   name: string;
@@ -27,7 +34,8 @@ export interface LaunchSite {
   // Trajectory configuration
   defaultAzimuth: number; // degrees from north
   missionAzimuths: Record<string, number>;
-  trajectoryPoints: [number, number][];
+  azimuthCorridors: AzimuthCorridor[]; // range safety limits; outside these the vehicle dog-legs
+  defaultVehicle: AscentVehicle; // ascent profile when the vehicle is unknown
   // Site-specific visibility modifiers
   visibilityModifiers: {
     humidityPenalty: number;    // 0-1, higher = more humid climate
@@ -36,6 +44,7 @@ export interface LaunchSite {
     lightPollutionBase: number; // ambient light pollution level
   };
   // UI
+  padLabel: string;
   mapCenter: { lat: number; lng: number };
   mapZoom: number;
   directionHint: string;
@@ -64,17 +73,11 @@ const vandenberg: LaunchSite = {
     starlink: 190,    // Vandenberg Starlink = polar shell (97.6° incl), same as SSO
     nrol: 190,        // Most NRO missions from VAFB are SSO; varies by mission (160-190°)
   },
-  // Ground track at T+0, T+1m, T+2m, T+3m, T+4m, T+5m
-  // Azimuth 190°: nearly due south, slight westward drift (~10° west of south)
-  // Source: SpaceX webcast telemetry + NOTAM corridor + orbital mechanics
-  trajectoryPoints: [
-    [34.632, -120.611],   // T+0: Liftoff SLC-4E
-    [34.579, -120.622],   // T+1m: Max-Q region, ~12km alt, ~6km downrange
-    [34.190, -120.705],   // T+2m: Approaching MECO, ~50km alt, ~50km downrange
-    [33.791, -120.790],   // T+3m: MECO/stage sep/SES-1, ~75km alt, ~95km downrange
-    [32.951, -120.968],   // T+4m: Upper stage burn, ~130km alt, ~190km downrange
-    [31.889, -121.194],   // T+5m: Upper stage climbing, ~170km alt, ~310km downrange
+  // Western Range: south over the Pacific, clear of the Channel Islands and Baja
+  azimuthCorridors: [
+    { name: "Western Range", min: 147, max: 240 },
   ],
+  defaultVehicle: "falcon9",
   // NOAA Climate Normals (KVBG): annual mean RH 72-75%, cloud cover 45-50%,
   // 65-85 fog days/yr (marine layer), but excellent when clear (Bortle 3-4)
   visibilityModifiers: {
@@ -83,6 +86,7 @@ const vandenberg: LaunchSite = {
     coastalFogFactor: 0.15,     // Highest: 65-85 fog days/yr, KVBG METAR <1mi vis 8-12% of observations
     lightPollutionBase: 0.05,   // Low: Bortle 3-4, surrounded by military land + Pacific Ocean
   },
+  padLabel: "Launch Site SLC-4E",
   mapCenter: { lat: 34.6321, lng: -120.6107 },
   mapZoom: 5,
   directionHint: "south-southwest",  // Rockets head SSW (190°) from VAFB
@@ -113,17 +117,13 @@ const capeCanaveral: LaunchSite = {
     geo: 90,           // Direct GEO insertion → due east
     polar: 180,        // Rare from Cape; due south (requires dogleg to avoid land overflight)
   },
-  // Ground track for Starlink 53° mission (azimuth 43°, NORTHEAST over Atlantic)
-  // Orbital mechanics: cos(43°)=0.731 north, sin(43°)=0.682 east per km downrange
-  // Source: orbital mechanics + SpaceX webcast telemetry + NOTAM closure zones
-  trajectoryPoints: [
-    [28.562, -80.577],   // T+0: Liftoff LC-39A / SLC-40
-    [28.601, -80.535],   // T+1m: Max-Q, ~12km alt, ~6km downrange
-    [28.923, -80.194],   // T+2m: Approaching MECO, ~55km alt, ~55km downrange
-    [29.219, -79.880],   // T+3m: MECO/stage sep/SES-1, ~78km alt, ~100km downrange
-    [29.745, -79.323],   // T+4m: Upper stage burn, ~135km alt, ~180km downrange
-    [30.862, -78.139],   // T+5m: Upper stage climbing, ~175km alt, ~350km downrange
+  // Eastern Range over the Atlantic, plus the southern polar corridor reopened in 2020
+  // (SAOCOM 1B): SSE along the coast, then a dog-leg south past South Florida
+  azimuthCorridors: [
+    { name: "Eastern Range", min: 35, max: 120 },
+    { name: "Polar corridor", min: 150, max: 165 },
   ],
+  defaultVehicle: "falcon9",
   // NOAA Climate Normals: annual mean RH 74-78%, cloud cover 55-60%,
   // only 15-25 fog days/yr, but worst light pollution (Bortle 5-6, Orlando metro dome)
   visibilityModifiers: {
@@ -132,6 +132,7 @@ const capeCanaveral: LaunchSite = {
     coastalFogFactor: 0.05,     // Low: only 15-25 fog days/yr (mostly winter pre-dawn)
     lightPollutionBase: 0.10,   // Highest: Bortle 5-6, Orlando metro light dome
   },
+  padLabel: "Launch Complex 39A / SLC-40",
   mapCenter: { lat: 28.5620, lng: -80.5772 },
   mapZoom: 5,
   directionHint: "east-northeast",  // Starlink missions head NE, not SE
@@ -156,17 +157,11 @@ const bocaChica: LaunchSite = {
     orbital: 97,       // Per FAA Programmatic EA, nominal eastward trajectory
     starship: 97,      // All Starship flights (IFT-1 through IFT-6+) use ~97° azimuth
   },
-  // Ground track for Starship (azimuth ~97°, east over Gulf of Mexico)
-  // Starship flight profile: MECO ~T+2:40, hot-staging, slower initial TWR than F9
-  // Source: IFT-3 through IFT-6 webcast telemetry + FAA EIS trajectory data
-  trajectoryPoints: [
-    [25.997, -97.157],   // T+0: Liftoff from Starbase
-    [25.994, -97.127],   // T+1m: Max-Q region, ~8km alt (slower than F9)
-    [25.959, -96.810],   // T+2m: Accelerating, ~40km alt
-    [25.909, -96.364],   // T+3m: Hot-staging/booster sep, ~75km alt
-    [25.810, -95.470],   // T+4m: Starship upper stage, ~110km alt
-    [25.712, -94.578],   // T+5m: Upper stage climbing, ~150km alt
+  // FAA PEA flight corridor: east over the Gulf, threading the Florida Straits / Yucatan Channel
+  azimuthCorridors: [
+    { name: "Gulf corridor", min: 90, max: 110 },
   ],
+  defaultVehicle: "starship",
   // NOAA Climate Normals: annual mean RH 74-77%, cloud cover 50-55%,
   // 20-30 fog days/yr, moderate light pollution (Bortle 4, Brownsville/Matamoros)
   visibilityModifiers: {
@@ -175,6 +170,7 @@ const bocaChica: LaunchSite = {
     coastalFogFactor: 0.08,     // Moderate: 20-30 fog days/yr (Nov-Feb, advection fog)
     lightPollutionBase: 0.05,   // Bortle 4: Brownsville (~185K) + Matamoros (~520K) nearby
   },
+  padLabel: "Starbase Launch Site",
   mapCenter: { lat: 25.9972, lng: -97.1571 },
   mapZoom: 5,
   directionHint: "east-southeast",
@@ -0,0 +1,201 @@
+// Launch visibility for a viewer: weather lookup, viewing location and scoring in one place
+//
+// /api/visibility, the /launch/[id] pages and their Open Graph images all score a launch
+// the same way: weather at the launch site and viewer for the launch time, the viewer's
+// ground elevation, urban class and terrain skyline, then the active visibility model
+// with the active tuning profile.
+//
+// DATA SOURCES:
+// - Weather: Open-Meteo forecasts for launches in the next 5 days, current conditions
+//   otherwise (see weather.ts).
+// - Viewer elevation and horizon: see locationEnrichment.ts and terrain.ts.
+//
+// Server-only (weather fetches, local DEM reads).
+
+import type { TuningProfile, ViewingLocation, VisibilityLaunch, VisibilityResult } from "./visibility";
+import { getVisibilityModel, type VisibilityModel } from "./visibilityModels";
+import type { SweepWeather } from "./windowSweep";
+import {
+  getAllWeather,
+  getWeather,
+  getWeatherForecast,
+  getWeatherForCoords,
+  getWeatherForecastForCoords,
+  type ExtendedWeatherData,
+  type LocationKey,
+} from "./weather";
+import { getHorizonProfile } from "./terrain";
+import { enrichViewingLocation } from "./locationEnrichment";
+import { getActiveTuningProfile } from "./tuningProfile";
+
+// Forecast range; later launches use current conditions
+const FORECAST_MAX_LEAD_HOURS = 120;
+
+// Launch site IDs with their own weather location
+const WEATHER_SITE_IDS: LocationKey[] = ["vandenberg", "cape-canaveral", "boca-chica"];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface LaunchVisibility {
+  visibility: VisibilityResult;
+  weather: SweepWeather;
+  viewingLocation: ViewingLocation | null; // null: watched from the launch site
+  model: VisibilityModel;
+  tuning: TuningProfile;
+}
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+/**
+ * Weather location for a launch site, falling back to Vandenberg
+ */
+export function getWeatherSiteKey(siteId?: string): LocationKey {
+  return WEATHER_SITE_IDS.includes(siteId as LocationKey)
+    ? (siteId as LocationKey)
+    : "vandenberg";
+}
+
+/**
+ * Whether a launch time is within forecast range (in the future, up to 5 days out)
+ */
+function isForecastable(launchTimestamp: number): boolean {
+  const hoursUntilLaunch = (launchTimestamp - Date.now() / 1000) / 3600;
+  return hoursUntilLaunch > 0 && hoursUntilLaunch <= FORECAST_MAX_LEAD_HOURS;
+}
+
+/**
+ * Weather at the launch site and viewing location for a launch time.
+ * Forecasts cover the next 5 days; outside that, current conditions stand in.
+ */
+export async function resolveWeather(
+  weatherSiteKey: LocationKey,
+  viewingLocation: { lat: number; lon: number; name: string } | null,
+  launchTimestamp: number
+): Promise<SweepWeather> {
+  let weatherLaunchSite, weatherViewing;
+
+  if (!isForecastable(launchTimestamp)) {
+    // Launch is in the past or too far in the future (>5 days)
+    // Use current weather as approximation
+    const currentWeather = await getAllWeather(weatherSiteKey);
+    weatherLaunchSite = currentWeather.launchSite;
+
+    // Get weather for custom location or use Phoenix default
+    if (viewingLocation) {
+      weatherViewing = await getWeatherForCoords(
+        viewingLocation.lat,
+        viewingLocation.lon,
+        viewingLocation.name
+      );
+    } else {
+      weatherViewing = currentWeather.phoenix;
+    }
+  } else {
+    // Use forecast data for the launch time
+    weatherLaunchSite = await getWeatherForecast(weatherSiteKey, launchTimestamp);
+
+    // Get forecast for viewing location at launch time
+    if (viewingLocation) {
+      weatherViewing = await getWeatherForecastForCoords(
+        viewingLocation.lat,
+        viewingLocation.lon,
+        viewingLocation.name,
+        launchTimestamp
+      );
+    } else {
+      weatherViewing = await getWeatherForecast("phoenix", launchTimestamp);
+    }
+  }
+
+  return { launchSite: weatherLaunchSite, viewing: weatherViewing };
+}
+
+/**
+ * Weather at the launch site alone for a launch time, for a launch watched from the site
+ */
+export async function resolveLaunchSiteWeather(
+  weatherSiteKey: LocationKey,
+  launchTimestamp: number
+): Promise<ExtendedWeatherData | null> {
+  return isForecastable(launchTimestamp)
+    ? getWeatherForecast(weatherSiteKey, launchTimestamp)
+    : getWeather(weatherSiteKey);
+}
+
+/**
+ * A viewer at validated coordinates with ground elevation and urban density where
+ * the caller left them out, plus the terrain skyline around them when elevation
+ * tiles are configured
+ */
+export async function resolveViewingLocation(location: ViewingLocation): Promise<ViewingLocation> {
+  const [enriched, horizon] = await Promise.all([
+    enrichViewingLocation(location),
+    getHorizonProfile(location.lat, location.lon, location.elevation),
+  ]);
+  return {
+    ...enriched,
+    elevation: location.elevation ?? horizon?.observerElevationM ?? enriched.elevation,
+    horizon,
+  };
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+async function scoreLaunch(
+  launch: VisibilityLaunch,
+  viewingLocation: ViewingLocation | null,
+  model: VisibilityModel,
+  tuning: TuningProfile
+): Promise<LaunchVisibility> {
+  const weatherSiteKey = getWeatherSiteKey(launch.siteId);
+  // Without a viewer the model watches from the launch site, so its weather is all it needs
+  const weather: SweepWeather = viewingLocation
+    ? await resolveWeather(weatherSiteKey, viewingLocation, launch.date_unix)
+    : await resolveLaunchSiteWeather(weatherSiteKey, launch.date_unix)
+        .then((launchSite) => ({ launchSite, viewing: launchSite }));
+
+  const visibility = model.calculate(
+    launch,
+    weather.launchSite,
+    weather.viewing,
+    viewingLocation || undefined,
+    tuning
+  );
+
+  return { visibility, weather, viewingLocation, model, tuning };
+}
+
+/**
+ * Visibility of a launch at its NET from a viewer (validated coordinates), or
+ * from the launch site itself when none is given
+ */
+export async function predictLaunchVisibility(
+  launch: VisibilityLaunch,
+  viewer: { lat: number; lon: number; name: string } | null
+): Promise<LaunchVisibility> {
+  const [predicted] = await predictLaunchVisibilities([launch], viewer);
+  return predicted;
+}
+
+/**
+ * Visibility of several launches from the same viewer; the viewer's elevation
+ * and horizon are looked up once
+ */
+export async function predictLaunchVisibilities(
+  launches: VisibilityLaunch[],
+  viewer: { lat: number; lon: number; name: string } | null
+): Promise<LaunchVisibility[]> {
+  const model = getVisibilityModel()!;
+  const [tuning, viewingLocation] = await Promise.all([
+    getActiveTuningProfile(),
+    viewer ? resolveViewingLocation(viewer) : null,
+  ]);
+
+  return Promise.all(launches.map((launch) => scoreLaunch(launch, viewingLocation, model, tuning)));
+}
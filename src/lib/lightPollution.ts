@@ -0,0 +1,154 @@
+// Light pollution estimate from nearby metro areas
+//
+// Sky glow from a city falls off with distance roughly as d^-2.5 (Walker's law). Summing
+// that over the metro areas around our three launch sites gives a usable Bortle estimate
+// anywhere in their viewing range without shipping a light-pollution raster.
+//
+// DATA SOURCES:
+// - Falloff: Walker (1977), "The effects of urban lighting on the brightness of the
+//   night sky", PASP 89 — sky glow ∝ population × distance^-2.5.
+// - Populations: US Census 2020 metro (MSA) estimates, INEGI 2020 for Mexican border metros.
+// - Calibration: Falchi et al. 2016 World Atlas — LA / Phoenix cores Bortle 8-9,
+//   50km from a 1M metro Bortle 3-4, remote desert Bortle 1-2.
+//
+// Pure data/math — safe to import in "use client" components.
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+// Core radius (km) of a 1M-person metro; scales with sqrt(population)
+const CORE_RADIUS_KM_PER_SQRT_MILLION = 15;
+
+// Walker's law exponent
+const FALLOFF_EXPONENT = 2.5;
+
+// Bortle at or above which we call a location urban
+export const URBAN_BORTLE = 7;
+
+// Bortle at or above which we call a location suburban
+export const SUBURBAN_BORTLE = 5;
+
+interface Metro {
+  name: string;
+  lat: number;
+  lon: number;
+  population: number; // millions
+}
+
+// Metro areas within viewing range of Vandenberg, Cape Canaveral and Starbase
+const METROS: Metro[] = [
+  // California / Southwest
+  { name: "Los Angeles", lat: 34.05, lon: -118.24, population: 13.2 },
+  { name: "Riverside-San Bernardino", lat: 34.0, lon: -117.4, population: 4.6 },
+  { name: "San Diego", lat: 32.72, lon: -117.16, population: 3.3 },
+  { name: "Tijuana", lat: 32.51, lon: -117.04, population: 2.2 },
+  { name: "San Francisco", lat: 37.77, lon: -122.42, population: 4.7 },
+  { name: "San Jose", lat: 37.34, lon: -121.89, population: 2.0 },
+  { name: "Sacramento", lat: 38.58, lon: -121.49, population: 2.4 },
+  { name: "Fresno", lat: 36.74, lon: -119.79, population: 1.0 },
+  { name: "Bakersfield", lat: 35.37, lon: -119.02, population: 0.9 },
+  { name: "Santa Barbara", lat: 34.42, lon: -119.70, population: 0.45 },
+  { name: "Las Vegas", lat: 36.17, lon: -115.14, population: 2.3 },
+  { name: "Mexicali", lat: 32.62, lon: -115.45, population: 1.0 },
+  { name: "Phoenix", lat: 33.45, lon: -112.07, population: 5.0 },
+  { name: "Tucson", lat: 32.22, lon: -110.97, population: 1.05 },
+  { name: "Albuquerque", lat: 35.08, lon: -106.65, population: 0.92 },
+  { name: "El Paso-Juárez", lat: 31.76, lon: -106.49, population: 2.4 },
+  { name: "Salt Lake City", lat: 40.76, lon: -111.89, population: 1.3 },
+  { name: "Denver", lat: 39.74, lon: -104.99, population: 3.0 },
+  // Texas / Gulf / northern Mexico
+  { name: "Houston", lat: 29.76, lon: -95.37, population: 7.3 },
+  { name: "Dallas-Fort Worth", lat: 32.78, lon: -96.80, population: 7.9 },
+  { name: "San Antonio", lat: 29.42, lon: -98.49, population: 2.6 },
+  { name: "Austin", lat: 30.27, lon: -97.74, population: 2.4 },
+  { name: "Corpus Christi", lat: 27.80, lon: -97.40, population: 0.42 },
+  { name: "Brownsville-Matamoros", lat: 25.89, lon: -97.50, population: 0.95 },
+  { name: "McAllen-Reynosa", lat: 26.14, lon: -98.26, population: 1.6 },
+  { name: "Monterrey", lat: 25.69, lon: -100.32, population: 5.3 },
+  { name: "New Orleans", lat: 29.95, lon: -90.07, population: 1.3 },
+  // Florida / Southeast
+  { name: "Orlando", lat: 28.54, lon: -81.38, population: 2.7 },
+  { name: "Tampa", lat: 27.95, lon: -82.46, population: 3.3 },
+  { name: "Miami", lat: 25.76, lon: -80.19, population: 6.1 },
+  { name: "Jacksonville", lat: 30.33, lon: -81.66, population: 1.7 },
+  { name: "Palm Bay-Melbourne", lat: 28.08, lon: -80.61, population: 0.63 },
+  { name: "Daytona Beach", lat: 29.21, lon: -81.02, population: 0.7 },
+  { name: "Port St. Lucie", lat: 27.27, lon: -80.35, population: 0.5 },
+  { name: "Fort Myers", lat: 26.64, lon: -81.87, population: 0.8 },
+  { name: "Gainesville", lat: 29.65, lon: -82.32, population: 0.34 },
+  { name: "Tallahassee", lat: 30.44, lon: -84.28, population: 0.39 },
+  { name: "Savannah", lat: 32.08, lon: -81.09, population: 0.4 },
+  { name: "Charleston", lat: 32.78, lon: -79.93, population: 0.8 },
+  { name: "Atlanta", lat: 33.75, lon: -84.39, population: 6.2 },
+  { name: "Charlotte", lat: 35.23, lon: -80.84, population: 2.7 },
+];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type UrbanClass = "urban" | "suburban" | "rural";
+
+export interface LightPollutionEstimate {
+  bortle: number;             // 1 (pristine) - 9 (inner city), one decimal
+  level: number;              // 0-1, for scoring
+  dominantSource: string | null; // metro contributing the most sky glow
+  isUrban: boolean;
+  urbanClass: UrbanClass;
+}
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Urban / suburban / rural from a Bortle class
+ */
+export function getUrbanClass(bortle: number): UrbanClass {
+  if (bortle >= URBAN_BORTLE) return "urban";
+  if (bortle >= SUBURBAN_BORTLE) return "suburban";
+  return "rural";
+}
+
+/**
+ * Estimate sky brightness at a location from the surrounding metro areas
+ */
+export function estimateLightPollution(lat: number, lon: number): LightPollutionEstimate {
+  let skyGlow = 0;
+  let dominant: { name: string; glow: number } | null = null;
+
+  for (const metro of METROS) {
+    const d = distanceKm(lat, lon, metro.lat, metro.lon);
+    const coreRadius = CORE_RADIUS_KM_PER_SQRT_MILLION * Math.sqrt(metro.population);
+    const glow = metro.population * Math.pow(1 + d / coreRadius, -FALLOFF_EXPONENT);
+
+    skyGlow += glow;
+    if (!dominant || glow > dominant.glow) {
+      dominant = { name: metro.name, glow };
+    }
+  }
+
+  // Log scale onto Bortle: ~2 in remote desert, ~9 downtown Los Angeles
+  const bortle = Math.max(1, Math.min(9, 2 + 2.2 * Math.log10(1 + 100 * skyGlow)));
+  const rounded = Math.round(bortle * 10) / 10;
+
+  return {
+    bortle: rounded,
+    level: Math.round(((bortle - 1) / 8) * 100) / 100,
+    dominantSource: dominant && dominant.glow > 0.001 ? dominant.name : null,
+    isUrban: bortle >= URBAN_BORTLE,
+    urbanClass: getUrbanClass(bortle),
+  };
+}
@@ -0,0 +1,156 @@
+// Location enrichment: ground elevation and urban class for a viewing location
+//
+// Searches and GPS fixes give only coordinates and a name. The visibility model also uses
+// how high the viewer stands above the land around them (horizon dip, haze above the
+// boundary layer, the obstruction bonus) and how built-up the area is (obstruction, sky
+// brightness, urban haze), so the geocode and visibility routes fill those in here. The
+// surroundings are the median ground elevation on rings around the viewer; a terrain
+// horizon profile (see terrain.ts) takes over where local DEM tiles are configured.
+//
+// Results are cached per ~1km coordinate cell for the life of the server instance —
+// neither changes, and nearby searches land in the same cell.
+//
+// DATA SOURCES:
+// - Ground elevation: Open-Meteo elevation API (Copernicus DEM GLO-90, see elevation.ts),
+//   falling back to the local DEM tiles in TERRAIN_DATA_DIR (see terrain.ts).
+// - Urban class: the bundled metro sky-glow model in lightPollution.ts.
+//
+// Server-only (local DEM reads from disk).
+
+import { getElevations } from "./elevation";
+import { getGroundElevation } from "./terrain";
+import { destinationPoint } from "./trajectory";
+import { estimateLightPollution, type UrbanClass } from "./lightPollution";
+import type { ViewingLocation } from "./visibility";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Cache cell size (degrees, ~1km)
+const CELL_DEG = 0.01;
+
+// Cells kept before the oldest are dropped
+const MAX_CACHED_CELLS = 5000;
+
+// Surrounding terrain: ground elevation sampled on these rings (km) around the point
+const SURROUNDING_RINGS_KM = [5, 15, 40];
+const SURROUNDING_BEARINGS = 8;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface LocationEnrichment {
+  elevation: number | null;   // meters above sea level
+  elevationSource: "open-meteo" | "dem" | null;
+  surroundingElevation: number | null; // median ground elevation around the point (m)
+  urbanClass: UrbanClass;
+  bortle: number;
+  lightPollution: number;     // 0-1, for scoring
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+const cache = new Map<string, LocationEnrichment>();
+
+function getCellKey(lat: number, lon: number): string {
+  return `${Math.round(lat / CELL_DEG)}:${Math.round(lon / CELL_DEG)}`;
+}
+
+/**
+ * Sample points on the surrounding rings, SURROUNDING_BEARINGS per ring
+ */
+function getSurroundingPoints(lat: number, lon: number): Array<{ lat: number; lon: number }> {
+  return SURROUNDING_RINGS_KM.flatMap((km) =>
+    Array.from({ length: SURROUNDING_BEARINGS }, (_, i) => {
+      const [pointLat, pointLon] = destinationPoint(lat, lon, (i * 360) / SURROUNDING_BEARINGS, km);
+      return { lat: pointLat, lon: pointLon };
+    })
+  );
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Ground elevation, surrounding terrain and urban class at a point, from the cache
+ * when the cell has been seen. A known elevation (e.g. from the geocoder) skips the
+ * point's own lookup; the surroundings come from the same batched request.
+ */
+export async function enrichLocation(
+  lat: number,
+  lon: number,
+  knownElevation?: number | null
+): Promise<LocationEnrichment> {
+  const key = getCellKey(lat, lon);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let elevation: number | null = null;
+  let elevationSource: LocationEnrichment["elevationSource"] = null;
+
+  const hasKnownElevation = typeof knownElevation === "number";
+  const fetchedElevations = await getElevations([
+    ...(hasKnownElevation ? [] : [{ lat, lon }]),
+    ...getSurroundingPoints(lat, lon),
+  ]);
+  const ring = hasKnownElevation ? fetchedElevations : fetchedElevations.slice(1);
+  const surroundingElevation = median(ring.filter((e): e is number => e !== null));
+
+  if (hasKnownElevation) {
+    elevation = knownElevation;
+    elevationSource = "open-meteo";
+  } else {
+    const fetched = fetchedElevations[0];
+    if (fetched !== null) {
+      elevation = fetched;
+      elevationSource = "open-meteo";
+    } else {
+      elevation = await getGroundElevation(lat, lon);
+      elevationSource = elevation !== null ? "dem" : null;
+    }
+  }
+
+  const sky = estimateLightPollution(lat, lon);
+  const enrichment: LocationEnrichment = {
+    elevation: elevation !== null ? Math.round(elevation) : null,
+    elevationSource,
+    surroundingElevation: surroundingElevation !== null ? Math.round(surroundingElevation) : null,
+    urbanClass: sky.urbanClass,
+    bortle: sky.bortle,
+    lightPollution: sky.level,
+  };
+
+  // Don't cache a failed elevation lookup; the API may be back next time
+  if (elevation !== null && surroundingElevation !== null) {
+    if (cache.size >= MAX_CACHED_CELLS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(key, enrichment);
+  }
+
+  return enrichment;
+}
+
+/**
+ * A viewing location with elevation and urban density filled in where the
+ * caller didn't supply them
+ */
+export async function enrichViewingLocation(location: ViewingLocation): Promise<ViewingLocation> {
+  const enrichment = await enrichLocation(location.lat, location.lon, location.elevation);
+
+  return {
+    ...location,
+    elevation: location.elevation ?? enrichment.elevation ?? undefined,
+    surroundingElevation: location.surroundingElevation ?? enrichment.surroundingElevation ?? undefined,
+    isUrban: location.isUrban ?? enrichment.urbanClass === "urban",
+    urbanClass: location.urbanClass ?? enrichment.urbanClass,
+    lightPollution: location.lightPollution ?? enrichment.lightPollution,
+  };
+}
@@ -0,0 +1,187 @@
+// Lunar position and illumination
+//
+// Low-precision lunar ephemeris (accurate to ~0.5°), good enough to tell whether a bright
+// Moon is up and how close it sits to the rocket's path. Moonlight scattered in the
+// atmosphere brightens the sky around it, washing out the faint second-stage plume at
+// night and in late twilight.
+//
+// DATA SOURCES:
+// - Lunar series: Meeus, "Astronomical Algorithms" ch. 47 (leading terms only), as used by
+//   the suncalc library; sidereal time per the Astronomical Almanac.
+// - Illuminated fraction from the Sun–Moon elongation: Meeus ch. 48.
+// - Sky brightening vs. angular distance from the Moon: Krisciunas & Schaefer (1991),
+//   "A model of the brightness of moonlight", PASP 103.
+
+import { calculateSolarEquatorial } from "./solar";
+import type { SkyTrack } from "./skyTrack";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+// Obliquity of the ecliptic (J2000)
+const OBLIQUITY_DEG = 23.4397;
+
+// Mean Earth–Sun distance (km), for the phase angle
+const SUN_DISTANCE_KM = 149_598_000;
+
+// Moonlight only matters once the sky is darker than this (sun below -4°);
+// its full effect arrives by the end of nautical twilight
+const MOON_SKY_DARK_START_DEG = -4;
+const MOON_SKY_DARK_FULL_DEG = -12;
+
+// Glare within this distance of the Moon is at full strength
+const MOON_GLARE_CORE_DEG = 10;
+
+// Most the Moon can take off its sub-score (a full Moon right beside the track)
+const MAX_MOON_PENALTY = 0.8;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface MoonPosition {
+  altitude: number;      // degrees above the horizon
+  azimuth: number;       // degrees from north
+  illumination: number;  // 0-1 illuminated fraction
+  waxing: boolean;
+  distanceKm: number;
+}
+
+export interface MoonFactor {
+  moon: MoonPosition;
+  separationDeg: number | null; // closest approach to the visible sky track
+  score: number;                // 0-1, 1 = no moonlight interference
+  description: string | null;   // set when the Moon is a real problem
+}
+
+// ============================================================================
+// EPHEMERIS
+// ============================================================================
+
+/**
+ * Moon's position in the observer's sky and its illuminated fraction
+ */
+export function calculateMoonPosition(lat: number, lon: number, timestamp: number): MoonPosition {
+  const d = timestamp / 86400 + 2440587.5 - 2451545.0;
+
+  // Mean longitude, mean anomaly, argument of latitude
+  const L = toRad(218.316 + 13.176396 * d);
+  const M = toRad(134.963 + 13.064993 * d);
+  const F = toRad(93.272 + 13.229350 * d);
+
+  // Ecliptic coordinates and distance
+  const eclLon = L + toRad(6.289) * Math.sin(M);
+  const eclLat = toRad(5.128) * Math.sin(F);
+  const distanceKm = 385001 - 20905 * Math.cos(M);
+
+  // Ecliptic → equatorial
+  const e = toRad(OBLIQUITY_DEG);
+  const rightAscension = Math.atan2(
+    Math.sin(eclLon) * Math.cos(e) - Math.tan(eclLat) * Math.sin(e),
+    Math.cos(eclLon)
+  );
+  const declination = Math.asin(
+    Math.sin(eclLat) * Math.cos(e) + Math.cos(eclLat) * Math.sin(e) * Math.sin(eclLon)
+  );
+
+  // Local horizon coordinates
+  const siderealTime = toRad(280.16 + 360.9856235 * d + lon);
+  const H = siderealTime - rightAscension;
+  const phi = toRad(lat);
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(H)
+  );
+  const azimuth = Math.atan2(
+    Math.sin(H),
+    Math.cos(H) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  );
+
+  // Illuminated fraction from the Sun–Moon elongation
+  const sun = calculateSolarEquatorial(timestamp);
+  const sunRa = toRad(sun.rightAscension);
+  const sunDec = toRad(sun.declination);
+  const elongation = Math.acos(Math.max(-1, Math.min(1,
+    Math.sin(sunDec) * Math.sin(declination) +
+    Math.cos(sunDec) * Math.cos(declination) * Math.cos(sunRa - rightAscension)
+  )));
+  const phaseAngle = Math.atan2(
+    SUN_DISTANCE_KM * Math.sin(elongation),
+    distanceKm - SUN_DISTANCE_KM * Math.cos(elongation)
+  );
+  const waxingAngle = Math.atan2(
+    Math.cos(sunDec) * Math.sin(sunRa - rightAscension),
+    Math.sin(sunDec) * Math.cos(declination) -
+      Math.cos(sunDec) * Math.sin(declination) * Math.cos(sunRa - rightAscension)
+  );
+
+  return {
+    altitude: toDeg(altitude),
+    azimuth: (toDeg(azimuth) + 180 + 360) % 360, // suncalc measures from south
+    illumination: (1 + Math.cos(phaseAngle)) / 2,
+    waxing: waxingAngle < 0,
+    distanceKm,
+  };
+}
+
+/**
+ * Angular distance (degrees) between two alt/az directions
+ */
+export function angularSeparation(alt1: number, az1: number, alt2: number, az2: number): number {
+  const cos = Math.sin(toRad(alt1)) * Math.sin(toRad(alt2)) +
+    Math.cos(toRad(alt1)) * Math.cos(toRad(alt2)) * Math.cos(toRad(az1 - az2));
+  return toDeg(Math.acos(Math.max(-1, Math.min(1, cos))));
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * MoonScore: how much moonlight brightens the sky around the rocket's path
+ * 1.0 = Moon down, new, or far from the track in a twilit sky
+ * Reduced for a bright Moon high up and close to the visible part of the ascent
+ */
+export function calculateMoonFactor(
+  skyTrack: SkyTrack,
+  lat: number,
+  lon: number,
+  timestamp: number,
+  solarElevation: number
+): MoonFactor {
+  const moon = calculateMoonPosition(lat, lon, timestamp);
+
+  const visible = skyTrack.points.filter((p) => p.aboveHorizon);
+  const separationDeg = visible.length > 0
+    ? Math.min(...visible.map((p) => angularSeparation(moon.altitude, moon.azimuth, p.elevation, p.azimuth)))
+    : null;
+
+  if (moon.altitude <= 0 || separationDeg === null) {
+    return { moon, separationDeg, score: 1, description: null };
+  }
+
+  // Sky darkness: in a bright twilight sky the Moon adds little
+  const darkness = Math.max(0, Math.min(1,
+    (MOON_SKY_DARK_START_DEG - solarElevation) / (MOON_SKY_DARK_START_DEG - MOON_SKY_DARK_FULL_DEG)
+  ));
+
+  // A Moon near the horizon is dimmed by extinction
+  const altitudeFactor = Math.min(1, 0.4 + moon.altitude / 25);
+
+  // Scattered moonlight falls off with distance from the Moon
+  const proximity = separationDeg <= MOON_GLARE_CORE_DEG
+    ? 1
+    : 0.3 + 0.7 * Math.exp(-(separationDeg - MOON_GLARE_CORE_DEG) / 25);
+
+  const penalty = MAX_MOON_PENALTY * moon.illumination * altitudeFactor * proximity * darkness;
+  const score = Math.max(0, Math.min(1, 1 - penalty));
+
+  const description = score < 0.7
+    ? `A ${Math.round(moon.illumination * 100)}% lit Moon sits ${Math.round(separationDeg)}° from the rocket's path — its glare will wash out the fainter second-stage plume`
+    : null;
+
+  return { moon, separationDeg, score, description };
+}
@@ -0,0 +1,274 @@
+/**
+ * Supabase storage for prediction snapshots, sighting reports and calibration metrics
+ * Locations are stored by grid cell only (see calibration.ts), never exact coordinates
+ */
+
+import { supabase, PredictionSnapshotRow, SightingReportRow } from "./supabase";
+import {
+  getLeadBucket,
+  getLocationCell,
+  type CalibrationMetrics,
+  type CalibrationSample,
+} from "./calibration";
+import { getLightingCondition } from "./visibilityRadius";
+import type { LightingCondition } from "./vehicles";
+
+// Supabase caps each select at 1000 rows
+const PAGE_SIZE = 1000;
+
+// A prediction served for a launch and viewing location
+export interface PredictionSnapshot {
+  launchId: string;
+  siteId: string;
+  launchTime: number;     // Unix seconds
+  lat: number;
+  lon: number;
+  percentage: number;
+  rating: string;
+  solarElevation: number;
+  distanceKm: number;
+  modelId: string;
+  modelVersion: string;
+  tuningVersion: string;
+}
+
+// A "did you see it?" answer
+export interface SightingReport {
+  launchId: string;
+  siteId: string;
+  lat: number;
+  lon: number;
+  sawIt: boolean;
+  predictedPercentage: number | null;
+  reporterHash: string; // see hashReporter in encryption.ts
+}
+
+/**
+ * Read every row of a table, page by page, optionally limited to some launches
+ */
+async function selectAllRows<T>(table: string, launchIds?: string[]): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select("*");
+    if (launchIds) query = query.in("launch_id", launchIds);
+
+    const { data, error } = await query.order("created_at").range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data as T[]));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Record a served prediction. The latest prediction in each lead time bucket
+ * replaces earlier ones for the same launch, cell, model version and tuning profile.
+ */
+export async function savePredictionSnapshot(snapshot: PredictionSnapshot): Promise<boolean> {
+  try {
+    const cell = getLocationCell(snapshot.lat, snapshot.lon);
+    const leadHours = (snapshot.launchTime - Date.now() / 1000) / 3600;
+
+    const { error } = await supabase.from("prediction_snapshots").upsert(
+      {
+        launch_id: snapshot.launchId,
+        site_id: snapshot.siteId,
+        launch_time: new Date(snapshot.launchTime * 1000).toISOString(),
+        cell_key: cell.key,
+        cell_lat: cell.lat,
+        cell_lon: cell.lon,
+        lead_bucket: getLeadBucket(leadHours),
+        lead_hours: Math.round(leadHours * 10) / 10,
+        predicted_percentage: snapshot.percentage,
+        rating: snapshot.rating,
+        lighting_condition: getLightingCondition(snapshot.solarElevation),
+        distance_km: Math.round(snapshot.distanceKm),
+        model_id: snapshot.modelId,
+        model_version: snapshot.modelVersion,
+        tuning_version: snapshot.tuningVersion,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: "launch_id,cell_key,lead_bucket,model_id,model_version,tuning_version" }
+    );
+
+    if (error) {
+      console.error("Failed to save prediction snapshot:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to save prediction snapshot:", error);
+    return false;
+  }
+}
+
+/**
+ * Record a sighting report. A reporter gets one answer per launch and cell;
+ * answering again replaces the earlier one.
+ */
+export async function saveSightingReport(report: SightingReport): Promise<boolean> {
+  try {
+    const cell = getLocationCell(report.lat, report.lon);
+
+    const { error } = await supabase.from("sighting_reports").upsert(
+      {
+        launch_id: report.launchId,
+        site_id: report.siteId,
+        cell_key: cell.key,
+        cell_lat: cell.lat,
+        cell_lon: cell.lon,
+        saw_it: report.sawIt,
+        predicted_percentage: report.predictedPercentage,
+        reporter_hash: report.reporterHash,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: "launch_id,cell_key,reporter_hash" }
+    );
+
+    if (error) {
+      console.error("Failed to save sighting report:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to save sighting report:", error);
+    return false;
+  }
+}
+
+/**
+ * Launches with snapshots that lifted off within a time range
+ */
+export async function getLaunchesBetween(since: Date, until: Date): Promise<string[]> {
+  try {
+    const { data, error } = await supabase
+      .from("prediction_snapshots")
+      .select("launch_id")
+      .gt("launch_time", since.toISOString())
+      .lte("launch_time", until.toISOString());
+
+    if (error) {
+      console.error("Failed to get recent launches:", error);
+      return [];
+    }
+
+    return [...new Set((data as Pick<PredictionSnapshotRow, "launch_id">[]).map((row) => row.launch_id))];
+  } catch (error) {
+    console.error("Failed to get recent launches:", error);
+    return [];
+  }
+}
+
+/**
+ * Pair every sighting report for a past launch with the last prediction each model
+ * and tuning profile made for its cell. Reports without any matching snapshot are counted as unmatched.
+ */
+export async function getCalibrationSamples(): Promise<{
+  samples: CalibrationSample[];
+  unmatched: number;
+} | null> {
+  try {
+    const reports = await selectAllRows<SightingReportRow>("sighting_reports");
+    const launchIds = [...new Set(reports.map((r) => r.launch_id))];
+    if (launchIds.length === 0) return { samples: [], unmatched: 0 };
+
+    const now = Date.now();
+    const snapshots = (await selectAllRows<PredictionSnapshotRow>("prediction_snapshots", launchIds))
+      .filter((s) => new Date(s.launch_time).getTime() <= now);
+
+    // Shortest lead time = the forecast people saw last before launch
+    const lastPredictions = new Map<string, Map<string, PredictionSnapshotRow>>();
+    for (const snapshot of snapshots) {
+      const key = `${snapshot.launch_id}|${snapshot.cell_key}`;
+      const model = `${snapshot.model_id}@${snapshot.model_version}/${snapshot.tuning_version}`;
+      const byModel = lastPredictions.get(key) ?? new Map<string, PredictionSnapshotRow>();
+      const current = byModel.get(model);
+      if (!current || snapshot.lead_hours < current.lead_hours) {
+        byModel.set(model, snapshot);
+      }
+      lastPredictions.set(key, byModel);
+    }
+
+    const samples: CalibrationSample[] = [];
+    let unmatched = 0;
+    for (const report of reports) {
+      const byModel = lastPredictions.get(`${report.launch_id}|${report.cell_key}`);
+      if (!byModel) {
+        unmatched++;
+        continue;
+      }
+      for (const [model, snapshot] of byModel) {
+        samples.push({
+          model,
+          siteId: snapshot.site_id,
+          lighting: snapshot.lighting_condition as LightingCondition,
+          distanceKm: snapshot.distance_km,
+          predicted: snapshot.predicted_percentage,
+          sawIt: report.saw_it,
+        });
+      }
+    }
+
+    return { samples, unmatched };
+  } catch (error) {
+    console.error("Failed to get calibration samples:", error);
+    return null;
+  }
+}
+
+/**
+ * Time of the last calibration run
+ */
+export async function getLastCalibrationRun(): Promise<Date | null> {
+  try {
+    const { data, error } = await supabase
+      .from("calibration_metrics")
+      .select("computed_at")
+      .order("computed_at", { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) return null;
+
+    return new Date(data[0].computed_at);
+  } catch (error) {
+    console.error("Failed to get last calibration run:", error);
+    return null;
+  }
+}
+
+/**
+ * Store one calibration run
+ */
+export async function saveCalibrationMetrics(
+  metrics: CalibrationMetrics[],
+  computedAt: Date
+): Promise<boolean> {
+  try {
+    const { error } = await supabase.from("calibration_metrics").insert(
+      metrics.map((m) => ({
+        computed_at: computedAt.toISOString(),
+        model: m.model,
+        site_id: m.siteId,
+        lighting_condition: m.lighting,
+        distance_band: m.distanceBand,
+        sample_count: m.sampleCount,
+        brier_score: m.brierScore,
+        hit_rate: m.hitRate,
+        base_rate: m.baseRate,
+        reliability: m.reliability,
+      }))
+    );
+
+    if (error) {
+      console.error("Failed to save calibration metrics:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to save calibration metrics:", error);
+    return false;
+  }
+}
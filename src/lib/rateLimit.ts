@@ -13,7 +13,7 @@ const windows = new Map<string, number[]>();
 /**
  * Get client IP from request headers
  */
-function getClientIp(request: NextRequest): string {
+export function getClientIp(request: NextRequest): string {
   return (
     request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
     request.headers.get("x-real-ip") ||
@@ -0,0 +1,57 @@
+// Atmospheric refraction and horizon dip
+//
+// The atmosphere bends light around the curve of the Earth, so a rocket appears higher in
+// the sky than its geometric position — by about half a degree at the horizon. An observer
+// standing above their surroundings (a mountain, a tall building) also sees the horizon
+// below the horizontal, by the dip angle. Both let a distant rocket clear the horizon
+// earlier, and together they set how far away a rocket at a given altitude can be seen.
+//
+// DATA SOURCES:
+// - Refraction for a target above the lower atmosphere: Sæmundsson (1986), Sky & Telescope
+//   72:70, at standard conditions (10 °C, 1010 hPa), as given in Meeus, "Astronomical
+//   Algorithms" ch. 16.
+// - Horizon dip with terrestrial refraction: standard geodetic coefficient k = 0.13
+//   (Bomford, "Geodesy"), the same as the terrain skylines in terrain.ts.
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_M = 6_371_000;
+
+// Terrestrial refraction bends sight lines to the horizon around the curve
+const REFRACTION_COEFFICIENT = 0.13;
+
+// Below this the refraction formula diverges; anything lower is out of sight anyway
+const MIN_REFRACTION_ELEVATION_DEG = -1;
+
+// ============================================================================
+// REFRACTION & DIP
+// ============================================================================
+
+/**
+ * Refraction (degrees) for a target at the given geometric elevation.
+ * Largest at the horizon (~0.5°), a few arc-seconds by 45°.
+ */
+export function calculateRefraction(trueElevationDeg: number): number {
+  const h = Math.max(trueElevationDeg, MIN_REFRACTION_ELEVATION_DEG);
+  const arcMinutes = 1.02 / Math.tan((h + 10.3 / (h + 5.11)) * Math.PI / 180);
+  return Math.max(0, arcMinutes / 60);
+}
+
+/**
+ * Apparent elevation (degrees) of a target at the given geometric elevation
+ */
+export function getApparentElevation(trueElevationDeg: number): number {
+  return trueElevationDeg + calculateRefraction(trueElevationDeg);
+}
+
+/**
+ * Dip of the visible horizon below the horizontal (degrees) for an observer
+ * at the given height above the surroundings, refraction included.
+ * 0 at ground level, ~0.8° at 500 m, ~1.4° at 2,000 m.
+ */
+export function calculateHorizonDip(observerHeightM: number): number {
+  const h = Math.max(0, observerHeightM);
+  return Math.sqrt(2 * h * (1 - REFRACTION_COEFFICIENT) / EARTH_RADIUS_M) * 180 / Math.PI;
+}
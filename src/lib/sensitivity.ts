@@ -0,0 +1,260 @@
+// Counterfactual explanations: the smallest change that would lift the rating a tier
+//
+// Limiting factors say what is holding a score down; this module says what would fix it.
+// It reruns the scoring model with one input changed at a time — cloud cover at the
+// viewer, launch time within the window, where the observer stands, and how high — and
+// reports for each the smallest change that moves the rating up at least one tier, e.g.
+// "If cloud cover drops below 30%: excellent" or "Moving 50 km (31 mi) east: good".
+//
+// Every other input is held fixed, including the forecast: a move or a later launch time
+// is scored with the viewer's current weather.
+
+import {
+  formatTime,
+  type TuningProfile,
+  type ViewingLocation,
+  type VisibilityLaunch,
+  type VisibilityResult,
+} from "./visibility";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import type { VisibilityModel } from "./visibilityModels";
+import { getLaunchSite } from "./launchSites";
+import { destinationPoint } from "./trajectory";
+import { getSweepTimes } from "./windowSweep";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RATING_TIERS: VisibilityResult["rating"][] = ["poor", "fair", "good", "excellent"];
+
+// Cloud cover ceilings tried at the viewer, in %
+const CLOUD_CEILINGS = [80, 70, 60, 50, 40, 30, 20, 10, 0];
+
+// Spacing of the launch times tried within the window
+const TIME_STEP_SEC = 5 * 60;
+
+// How far the observer is moved, in km, in each of eight directions
+const MOVE_DISTANCES_KM = [10, 25, 50, 75, 100, 150, 200, 300];
+
+const MOVE_DIRECTIONS = [
+  { bearing: 0, name: "north" },
+  { bearing: 45, name: "northeast" },
+  { bearing: 90, name: "east" },
+  { bearing: 135, name: "southeast" },
+  { bearing: 180, name: "south" },
+  { bearing: 225, name: "southwest" },
+  { bearing: 270, name: "west" },
+  { bearing: 315, name: "northwest" },
+];
+
+// Height gained over the observer's current elevation, in meters
+const ELEVATION_GAINS_M = [100, 250, 500, 1000, 1500];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type CounterfactualFactor = "cloud" | "time" | "location" | "elevation";
+
+export interface Counterfactual {
+  factor: CounterfactualFactor;
+  change: string;      // "If cloud cover drops below 30%"
+  percentage: number;
+  rating: VisibilityResult["rating"];
+  description: string; // "If cloud cover drops below 30%: excellent"
+}
+
+interface Candidate {
+  change: string;
+  result: VisibilityResult;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const tierOf = (rating: VisibilityResult["rating"]) => RATING_TIERS.indexOf(rating);
+
+/**
+ * First candidate group (in order of increasing change) holding a result at a higher
+ * tier than the baseline; the best-scoring result of that group wins
+ */
+function smallestImprovement(
+  groups: Iterable<Candidate[]>,
+  baseline: VisibilityResult
+): Candidate | null {
+  for (const group of groups) {
+    const improved = group.filter((c) => tierOf(c.result.rating) > tierOf(baseline.rating));
+    if (improved.length > 0) {
+      return improved.reduce((best, c) => (c.result.percentage > best.result.percentage ? c : best));
+    }
+  }
+  return null;
+}
+
+function formatShift(seconds: number): string {
+  const minutes = Math.round(Math.abs(seconds) / 60);
+  const span = minutes >= 60
+    ? `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ""}`
+    : `${minutes} min`;
+  return `${span} ${seconds > 0 ? "later" : "earlier"}`;
+}
+
+// ============================================================================
+// PERTURBATIONS
+// ============================================================================
+
+type Score = (
+  launch: VisibilityLaunch,
+  weatherViewing: WeatherData | ExtendedWeatherData | null,
+  viewer: ViewingLocation | undefined
+) => VisibilityResult;
+
+/**
+ * Lower ceilings on the viewer's cloud cover, applied to every layer as well
+ */
+function* cloudCandidates(
+  launch: VisibilityLaunch,
+  weatherViewing: WeatherData | ExtendedWeatherData | null,
+  viewer: ViewingLocation | undefined,
+  score: Score
+): Generator<Candidate[]> {
+  if (!weatherViewing) return;
+  const extended = weatherViewing as ExtendedWeatherData;
+
+  for (const ceiling of CLOUD_CEILINGS.filter((c) => c < weatherViewing.clouds)) {
+    const weather = {
+      ...weatherViewing,
+      clouds: ceiling,
+      ...(extended.cloudLayers
+        ? {
+            cloudLayers: {
+              low: Math.min(extended.cloudLayers.low, ceiling),
+              mid: Math.min(extended.cloudLayers.mid, ceiling),
+              high: Math.min(extended.cloudLayers.high, ceiling),
+            },
+          }
+        : {}),
+    };
+    const change = ceiling === 0 ? "If the sky clears completely" : `If cloud cover drops below ${ceiling}%`;
+    yield [{ change, result: score(launch, weather, viewer) }];
+  }
+}
+
+/**
+ * Other launch times within the window, nearest first
+ */
+function* timeCandidates(
+  launch: VisibilityLaunch,
+  weatherViewing: WeatherData | ExtendedWeatherData | null,
+  viewer: ViewingLocation | undefined,
+  windowBounds: { start: number; end: number },
+  score: Score
+): Generator<Candidate[]> {
+  if (windowBounds.end <= windowBounds.start) return;
+  const timezone = getLaunchSite(launch.siteId || "vandenberg")?.timezone;
+
+  const { times } = getSweepTimes(windowBounds.start, windowBounds.end, TIME_STEP_SEC);
+  const shifts = times
+    .map((time) => time - launch.date_unix)
+    .filter((shift) => shift !== 0)
+    .sort((a, b) => Math.abs(a) - Math.abs(b));
+
+  for (const shift of shifts) {
+    const time = launch.date_unix + shift;
+    const change = `Launching ${formatShift(shift)} (${formatTime(new Date(time * 1000), timezone)})`;
+    yield [{ change, result: score({ ...launch, date_unix: time }, weatherViewing, viewer) }];
+  }
+}
+
+/**
+ * The observer moved in eight directions, shortest distance first.
+ * The terrain skyline belongs to the current spot, so it goes with the move.
+ */
+function* locationCandidates(
+  launch: VisibilityLaunch,
+  weatherViewing: WeatherData | ExtendedWeatherData | null,
+  viewer: ViewingLocation,
+  score: Score
+): Generator<Candidate[]> {
+  for (const distanceKm of MOVE_DISTANCES_KM) {
+    yield MOVE_DIRECTIONS.map(({ bearing, name }) => {
+      const [lat, lon] = destinationPoint(viewer.lat, viewer.lon, bearing, distanceKm);
+      return {
+        change: `Moving ${distanceKm} km (${Math.round(distanceKm * 0.621371)} mi) ${name}`,
+        result: score(launch, weatherViewing, { ...viewer, lat, lon, horizon: null }),
+      };
+    });
+  }
+}
+
+/**
+ * The observer on higher ground nearby. Height is what clears a local skyline,
+ * so the spot is assumed to have an open horizon.
+ */
+function* elevationCandidates(
+  launch: VisibilityLaunch,
+  weatherViewing: WeatherData | ExtendedWeatherData | null,
+  viewer: ViewingLocation,
+  score: Score
+): Generator<Candidate[]> {
+  for (const gain of ELEVATION_GAINS_M) {
+    yield [{
+      change: `Watching from ${gain} m higher ground with an open horizon`,
+      result: score(launch, weatherViewing, { ...viewer, elevation: (viewer.elevation ?? 0) + gain, horizon: null }),
+    }];
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Smallest change per input that moves the rating up at least one tier.
+ * Inputs with no such change within the tried range are left out, as is
+ * everything when the rating is already excellent.
+ */
+export function findCounterfactuals(
+  launch: VisibilityLaunch,
+  weatherLaunchSite: WeatherData | ExtendedWeatherData | null,
+  weatherViewing: WeatherData | ExtendedWeatherData | null,
+  viewingLocation: ViewingLocation | undefined,
+  windowBounds: { start: number; end: number },
+  model: VisibilityModel,
+  tuning?: TuningProfile
+): Counterfactual[] {
+  const score: Score = (l, w, v) => model.calculate(l, weatherLaunchSite, w, v, tuning);
+
+  const baseline = score(launch, weatherViewing, viewingLocation);
+  if (tierOf(baseline.rating) === RATING_TIERS.length - 1) return [];
+
+  const searches: Array<[CounterfactualFactor, Iterable<Candidate[]>]> = [
+    ["cloud", cloudCandidates(launch, weatherViewing, viewingLocation, score)],
+    ["time", timeCandidates(launch, weatherViewing, viewingLocation, windowBounds, score)],
+  ];
+  // Moving only means something relative to a chosen spot
+  if (viewingLocation) {
+    searches.push(
+      ["location", locationCandidates(launch, weatherViewing, viewingLocation, score)],
+      ["elevation", elevationCandidates(launch, weatherViewing, viewingLocation, score)]
+    );
+  }
+
+  const counterfactuals: Counterfactual[] = [];
+  for (const [factor, groups] of searches) {
+    const found = smallestImprovement(groups, baseline);
+    if (found) {
+      counterfactuals.push({
+        factor,
+        change: found.change,
+        percentage: found.result.percentage,
+        rating: found.result.rating,
+        description: `${found.change}: ${found.result.rating}`,
+      });
+    }
+  }
+
+  return counterfactuals;
+}
@@ -0,0 +1,294 @@
+// Observer sky track: where in the sky the rocket appears, second by second
+//
+// Takes a generated mission trajectory (ground track + altitude, see trajectory.ts) and
+// projects each point into the observer's local horizon frame. Earth curvature is handled by working
+// in Earth-centred Cartesian coordinates on a spherical Earth, so a rocket 800km away
+// correctly sits below the horizon until it has climbed high enough to clear it.
+// Elevations are apparent ones (atmospheric refraction included), and an observer's height
+// above the surrounding terrain lowers their horizon by the dip angle (see refraction.ts),
+// so observers on mountains see a distant rocket earlier. The surrounding terrain comes
+// from the terrain horizon profile when there is one, otherwise from ground elevations
+// sampled around the observer (see locationEnrichment.ts). An optional terrain horizon
+// profile (see terrain.ts) also raises that horizon where mountains or ridges stand
+// between the observer and the rocket.
+
+import type { Trajectory } from "./trajectory";
+import { calculateHorizonDip, getApparentElevation } from "./refraction";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+// Minimum elevation above the visible horizon for the rocket to count as "above your
+// horizon". Real horizons are rarely perfectly flat; 1° keeps us from promising a
+// sighting that only works from a beach with a perfect sea horizon.
+const MIN_VISIBLE_ELEVATION_DEG = 1;
+
+const COMPASS_POINTS = [
+  "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
+  "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW",
+];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SkyTrackObserver {
+  lat: number;
+  lon: number;
+  elevation?: number; // meters above sea level
+  surroundingElevation?: number; // median ground height around the observer (m), without a profile
+  horizon?: HorizonProfile | null;
+}
+
+// Terrain horizon around an observer: the elevation angle of the skyline
+// in each direction, sampled every azimuthStepDeg starting from north
+export interface HorizonProfile {
+  azimuthStepDeg: number;
+  elevations: number[];       // degrees, negative where the skyline is below the horizontal
+  observerElevationM: number; // ground + eye height the profile was computed for
+  surroundingElevationM: number; // median ground height out to the skyline search range
+}
+
+export interface SkyTrackPoint {
+  tPlus: number;        // seconds after liftoff
+  lat: number;          // rocket ground position
+  lon: number;
+  altitudeKm: number;
+  azimuth: number;      // degrees from north, as seen by the observer
+  elevation: number;    // apparent degrees above the horizontal, refraction included
+  slantRangeKm: number; // straight-line distance observer → rocket
+  aboveHorizon: boolean;
+  terrainBlocked: boolean; // above a flat horizon but behind the terrain skyline
+}
+
+export interface SkyPosition {
+  tPlus: number;
+  tPlusFormatted: string; // "T+1:42"
+  azimuth: number;
+  elevation: number;
+  compass: string;        // "SSW"
+  slantRangeKm: number;
+}
+
+export interface SkyTrackSummary {
+  firstVisible: SkyPosition | null;
+  peak: SkyPosition | null;
+  lastVisible: SkyPosition | null;
+  visibleSeconds: number;
+  terrainBlockedSeconds: number;
+  guidance: string | null;
+}
+
+export interface SkyTrack {
+  points: SkyTrackPoint[];
+  summary: SkyTrackSummary;
+}
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+/**
+ * Convert an azimuth in degrees to a 16-point compass direction
+ */
+export function toCompassPoint(azimuth: number): string {
+  const normalized = ((azimuth % 360) + 360) % 360;
+  return COMPASS_POINTS[Math.round(normalized / 22.5) % 16];
+}
+
+/**
+ * Format seconds after liftoff as "T+m:ss"
+ */
+export function formatTPlus(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `T+${mins}:${String(secs).padStart(2, "0")}`;
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+type Vec3 = [number, number, number];
+
+/**
+ * Earth-centred Cartesian position (km) of a point at the given altitude
+ */
+function toEcef(lat: number, lon: number, altitudeKm: number): Vec3 {
+  const r = EARTH_RADIUS_KM + altitudeKm;
+  const latRad = toRad(lat);
+  const lonRad = toRad(lon);
+  return [
+    r * Math.cos(latRad) * Math.cos(lonRad),
+    r * Math.cos(latRad) * Math.sin(lonRad),
+    r * Math.sin(latRad),
+  ];
+}
+
+/**
+ * Look angles from an observer to a target point
+ * Returns azimuth/elevation in degrees and slant range in km
+ */
+export function calculateLookAngles(
+  observer: SkyTrackObserver,
+  targetLat: number,
+  targetLon: number,
+  targetAltitudeKm: number
+): { azimuth: number; elevation: number; slantRangeKm: number } {
+  const obsAltKm = (observer.elevation ?? 0) / 1000;
+  const obs = toEcef(observer.lat, observer.lon, obsAltKm);
+  const tgt = toEcef(targetLat, targetLon, targetAltitudeKm);
+  const d: Vec3 = [tgt[0] - obs[0], tgt[1] - obs[1], tgt[2] - obs[2]];
+
+  const latRad = toRad(observer.lat);
+  const lonRad = toRad(observer.lon);
+
+  // Local east / north / up unit vectors at the observer
+  const east = -Math.sin(lonRad) * d[0] + Math.cos(lonRad) * d[1];
+  const north =
+    -Math.sin(latRad) * Math.cos(lonRad) * d[0] -
+    Math.sin(latRad) * Math.sin(lonRad) * d[1] +
+    Math.cos(latRad) * d[2];
+  const up =
+    Math.cos(latRad) * Math.cos(lonRad) * d[0] +
+    Math.cos(latRad) * Math.sin(lonRad) * d[1] +
+    Math.sin(latRad) * d[2];
+
+  const slantRangeKm = Math.sqrt(d[0] ** 2 + d[1] ** 2 + d[2] ** 2);
+
+  // Observer standing on the pad at T+0 — rocket is straight up
+  if (slantRangeKm < 1e-6) {
+    return { azimuth: 0, elevation: 90, slantRangeKm: 0 };
+  }
+
+  const azimuth = (toDeg(Math.atan2(east, north)) + 360) % 360;
+  const elevation = toDeg(Math.asin(Math.max(-1, Math.min(1, up / slantRangeKm))));
+
+  return { azimuth, elevation, slantRangeKm };
+}
+
+/**
+ * Terrain horizon elevation (degrees) in a given direction, interpolated
+ * between the profile's azimuth samples
+ */
+export function getHorizonElevation(profile: HorizonProfile, azimuth: number): number {
+  const count = profile.elevations.length;
+  const position = (((azimuth % 360) + 360) % 360) / profile.azimuthStepDeg;
+  const i = Math.floor(position) % count;
+  const frac = position - Math.floor(position);
+  return profile.elevations[i] * (1 - frac) + profile.elevations[(i + 1) % count] * frac;
+}
+
+/**
+ * Observer's height (meters) above the land around them: what lowers their horizon.
+ * A high plain is level ground. The surroundings come from the terrain profile, or
+ * from surroundingElevation without one; when neither the observer's elevation nor
+ * their surroundings are known, they are taken to stand level with them.
+ */
+export function getObserverHeightAboveTerrain(observer: SkyTrackObserver): number {
+  const elevation = observer.elevation ?? observer.horizon?.observerElevationM;
+  const surrounding = observer.horizon?.surroundingElevationM ?? observer.surroundingElevation;
+  if (elevation === undefined || surrounding === undefined) return 0;
+  return Math.max(0, elevation - surrounding);
+}
+
+/**
+ * Lowest apparent elevation (degrees) that counts as above the horizon for an
+ * observer at the given height above the surrounding terrain: the margin over a
+ * horizon lowered by the dip. A terrain profile covers skylines that are higher.
+ */
+export function getVisibleHorizonElevation(observerHeightM: number = 0): number {
+  return MIN_VISIBLE_ELEVATION_DEG - calculateHorizonDip(observerHeightM);
+}
+
+// ============================================================================
+// SKY TRACK
+// ============================================================================
+
+function toSkyPosition(point: SkyTrackPoint): SkyPosition {
+  return {
+    tPlus: point.tPlus,
+    tPlusFormatted: formatTPlus(point.tPlus),
+    azimuth: Math.round(point.azimuth),
+    elevation: Math.round(point.elevation * 10) / 10,
+    compass: toCompassPoint(point.azimuth),
+    slantRangeKm: Math.round(point.slantRangeKm),
+  };
+}
+
+/**
+ * Build the "where to look" sentence from the sky track summary
+ */
+function buildGuidance(
+  firstVisible: SkyPosition | null,
+  peak: SkyPosition | null
+): string | null {
+  if (!firstVisible || !peak) {
+    return null;
+  }
+
+  const first = `First visible above your horizon at ${firstVisible.tPlusFormatted}, ` +
+    `${Math.round(firstVisible.elevation)}° high in the ${firstVisible.compass}`;
+
+  // Only mention the peak if the rocket climbs noticeably after first appearing
+  if (peak.elevation - firstVisible.elevation >= 2) {
+    return `${first}, climbing to ${Math.round(peak.elevation)}° in the ${peak.compass} by ${peak.tPlusFormatted}.`;
+  }
+
+  return `${first}. It stays low — you'll need a clear view toward the ${firstVisible.compass}.`;
+}
+
+/**
+ * Compute the rocket's position in the observer's sky for every point of the
+ * trajectory (one per second for trajectories generated with the default step).
+ */
+export function computeSkyTrack(
+  trajectory: Trajectory,
+  observer: SkyTrackObserver
+): SkyTrack {
+  const horizonElevation = getVisibleHorizonElevation(getObserverHeightAboveTerrain(observer));
+  const points: SkyTrackPoint[] = trajectory.points.map(({ tPlus, lat, lon, altitudeKm }) => {
+    const look = calculateLookAngles(observer, lat, lon, altitudeKm);
+    const { azimuth, slantRangeKm } = look;
+    const elevation = getApparentElevation(look.elevation);
+    const clearsFlatHorizon = elevation >= horizonElevation;
+    const clearsTerrain = !observer.horizon ||
+      elevation >= getHorizonElevation(observer.horizon, azimuth);
+    return {
+      tPlus,
+      lat,
+      lon,
+      altitudeKm,
+      azimuth,
+      elevation,
+      slantRangeKm,
+      aboveHorizon: clearsFlatHorizon && clearsTerrain,
+      terrainBlocked: clearsFlatHorizon && !clearsTerrain,
+    };
+  });
+
+  const visible = points.filter((p) => p.aboveHorizon);
+  const firstVisible = visible.length > 0 ? toSkyPosition(visible[0]) : null;
+  const lastVisible = visible.length > 0 ? toSkyPosition(visible[visible.length - 1]) : null;
+  const peak = visible.length > 0
+    ? toSkyPosition(visible.reduce((best, p) => (p.elevation > best.elevation ? p : best)))
+    : null;
+
+  return {
+    points,
+    summary: {
+      firstVisible,
+      peak,
+      lastVisible,
+      visibleSeconds: visible.length * trajectory.stepSec,
+      terrainBlockedSeconds: points.filter((p) => p.terrainBlocked).length * trajectory.stepSec,
+      guidance: buildGuidance(firstVisible, peak),
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// Solar position calculations
+//
+// Low-precision solar ephemeris (accurate to a fraction of a degree), good enough for
+// twilight bucketing, Earth-shadow geometry and sun-glare angles.
+
+// ============================================================================
+// SOLAR POSITION CALCULATIONS
+// ============================================================================
+
+/**
+ * Sun's right ascension and declination (degrees) at a given time
+ */
+export function calculateSolarEquatorial(timestamp: number): { rightAscension: number; declination: number } {
+  // Julian day calculation
+  const JD = timestamp / 86400 + 2440587.5;
+  const n = JD - 2451545.0;
+
+  // Mean solar longitude
+  const L = (280.460 + 0.9856474 * n) % 360;
+
+  // Mean anomaly
+  const g = ((357.528 + 0.9856003 * n) % 360) * Math.PI / 180;
+
+  // Ecliptic longitude
+  const lambda = (L + 1.915 * Math.sin(g) + 0.020 * Math.sin(2 * g)) * Math.PI / 180;
+
+  // Obliquity of ecliptic
+  const epsilon = (23.439 - 0.0000004 * n) * Math.PI / 180;
+
+  // Right ascension and declination
+  const declination = Math.asin(Math.sin(epsilon) * Math.sin(lambda)) * 180 / Math.PI;
+  const rightAscension = Math.atan2(Math.cos(epsilon) * Math.sin(lambda), Math.cos(lambda)) * 180 / Math.PI;
+
+  return { rightAscension, declination };
+}
+
+/**
+ * Sun's position in the observer's sky at a given location and time
+ * Returns elevation (-90 to +90) and azimuth (0-360, from north) in degrees
+ */
+export function calculateSolarPosition(
+  lat: number,
+  lon: number,
+  timestamp: number
+): { elevation: number; azimuth: number } {
+  const JD = timestamp / 86400 + 2440587.5;
+  const { rightAscension: RA, declination: decDeg } = calculateSolarEquatorial(timestamp);
+  const declination = decDeg * Math.PI / 180;
+
+  // Hour angle
+  const LST = (280.46061837 + 360.98564736629 * (JD - 2451545.0) + lon) % 360;
+  const HA = (LST - RA) * Math.PI / 180;
+
+  // Solar elevation
+  const latRad = lat * Math.PI / 180;
+  const elevation = Math.asin(
+    Math.sin(latRad) * Math.sin(declination) +
+    Math.cos(latRad) * Math.cos(declination) * Math.cos(HA)
+  ) * 180 / Math.PI;
+
+  // Solar azimuth, measured from south by atan2 and turned to north
+  const azimuth = Math.atan2(
+    Math.sin(HA),
+    Math.cos(HA) * Math.sin(latRad) - Math.tan(declination) * Math.cos(latRad)
+  ) * 180 / Math.PI;
+
+  return { elevation, azimuth: (azimuth + 180 + 360) % 360 };
+}
+
+/**
+ * Calculate solar elevation angle at a given location and time
+ * Returns elevation in degrees (-90 to +90)
+ */
+export function calculateSolarElevation(
+  lat: number,
+  lon: number,
+  timestamp: number
+): number {
+  return calculateSolarPosition(lat, lon, timestamp).elevation;
+}
+
+/**
+ * Get twilight type based on solar elevation
+ */
+export function getTwilightType(solarElevation: number): string {
+  if (solarElevation > 0) return "day";
+  if (solarElevation > -6) return "civil";
+  if (solarElevation > -12) return "nautical";
+  if (solarElevation > -18) return "astronomical";
+  return "night";
+}
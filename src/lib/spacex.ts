@@ -1,10 +1,27 @@
 // Launch Library 2 API client (The Space Devs)
 // API Documentation: https://ll.thespacedevs.com/docs/
-
-import { LAUNCH_SITES, getLaunchSite, getSiteForPad, getAllSiteIds, type LaunchSite } from "./launchSites";
+//
+// The "ll2" launch provider (see launchProvider.ts). With LAUNCH_FIXTURE_RECORD=true each
+// per-site response is also written to the fixture directory for the "fixture" provider.
+// Rate limit headers on each response are kept so the launch cache (launchCache.ts) can
+// stop revalidating before the free tier starts refusing requests.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { getSiteForPad, type LaunchSite } from "./launchSites";
+import type { LaunchProvider } from "./launchProvider";
+import type { LaunchQuota } from "./launchCache";
 
 const LL2_API_BASE = "https://ll.thespacedevs.com/2.2.0";
 
+// LL2 free tier throttles per hour; used when a 429 has no Retry-After
+const DEFAULT_THROTTLE_SEC = 3600;
+
+// A used-up quota with no reset header is tried again after this long
+const DEFAULT_QUOTA_RESET_SEC = 15 * 60;
+
+export const DEFAULT_LAUNCH_FIXTURE_DIR = "fixtures/launches";
+
 export interface Launch {
   id: string;
   name: string;
@@ -20,6 +37,7 @@ export interface Launch {
   rocket: {
     id: number;
     configuration: {
+      id: number;
       name: string;
       full_name: string;
       family: string;
@@ -63,6 +81,7 @@ export interface EnrichedLaunch extends Launch {
     webcast: string | null;
   };
   rocketData?: {
+    id: number;
     name: string;
     type: string;
   };
@@ -143,7 +162,7 @@ async function checkSpacexPageExists(slug: string): Promise<boolean> {
 }
 
 // Transform LL2 launch to our format, with site detection
-function transformLaunch(launch: Launch): EnrichedLaunch {
+export function transformLaunch(launch: Launch): EnrichedLaunch {
   const netDate = new Date(launch.net);
 
   // Detect which site this launch belongs to
@@ -161,6 +180,7 @@ function transformLaunch(launch: Launch): EnrichedLaunch {
       webcast: launch.vidURLs?.[0]?.url || null,
     },
     rocketData: {
+      id: launch.rocket.configuration.id,
       name: launch.rocket.configuration.full_name,
       type: launch.rocket.configuration.family,
     },
@@ -179,152 +199,158 @@ function transformLaunch(launch: Launch): EnrichedLaunch {
 }
 
 // Check if a launch matches a given site
-function launchMatchesSite(launch: Launch, site: LaunchSite): boolean {
+export function launchMatchesSite(launch: Launch, site: LaunchSite): boolean {
   return (
     site.ll2PadIds.includes(launch.pad.id) ||
     site.padNamePatterns.some((p) => launch.pad.name.toLowerCase().includes(p))
   );
 }
 
-// Fetch upcoming launches for a specific site (SpaceX only)
-export async function getUpcomingLaunches(siteId?: string): Promise<EnrichedLaunch[]> {
-  const site = siteId ? getLaunchSite(siteId) : getLaunchSite("vandenberg");
-  if (!site) return [];
-
-  try {
-    const locationIds = site.ll2LocationIds.join(",");
-    const lspIds = site.lspIds.join(",");
-    const response = await fetch(
-      `${LL2_API_BASE}/launch/upcoming/?location__ids=${locationIds}&lsp__ids=${lspIds}&limit=20`,
-      {
-        next: { revalidate: 300 },
-        headers: {
-          'Accept': 'application/json',
-        }
-      }
-    );
+// Quota as of the last LL2 response (per server instance)
+let quota: LaunchQuota | null = null;
 
-    if (!response.ok) {
-      console.error(`Launch Library 2 API error: ${response.status}`);
-      return [];
-    }
+function parseHeaderNumber(response: Response, name: string): number | null {
+  const value = response.headers.get(name);
+  const parsed = value === null ? NaN : Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
 
-    const data = await response.json();
-    const launches: Launch[] = data.results || [];
-
-    // 12 hours in milliseconds - launches older than this are considered "past"
-    const TWELVE_HOURS_MS = 12 * 60 * 60 * 1000;
-    const now = Date.now();
-
-    // Filter for this site's pads specifically and transform
-    const siteLaunches = launches
-      .filter((launch: Launch) => launchMatchesSite(launch, site))
-      .map(transformLaunch)
-      .filter((launch: EnrichedLaunch) => {
-        const launchTime = launch.date_unix * 1000;
-        return launchTime > now - TWELVE_HOURS_MS;
-      });
-
-    // Sort by date
-    const sortedLaunches = siteLaunches.sort((a, b) => a.date_unix - b.date_unix);
-
-    // Check SpaceX page existence for each launch (in parallel)
-    const launchesWithUrls = await Promise.all(
-      sortedLaunches.map(async (launch) => {
-        const slug = generateSpacexSlug(launch.name);
-        if (!slug) {
-          return { ...launch, spacexUrl: null };
-        }
-        const pageExists = await checkSpacexPageExists(slug);
-        return {
-          ...launch,
-          spacexUrl: pageExists ? `https://www.spacex.com/launches/${slug}/` : null,
-        };
-      })
-    );
-
-    return launchesWithUrls;
-  } catch (error) {
-    console.error("Failed to fetch launches:", error);
-    return [];
+// Keep the rate limit headers of an LL2 response
+function recordQuota(response: Response) {
+  const now = Math.floor(Date.now() / 1000);
+  const reset = parseHeaderNumber(response, "x-ratelimit-reset");
+  const remaining = parseHeaderNumber(response, "x-ratelimit-remaining");
+  // Reset is sent as either seconds from now or a Unix time
+  const sentResetAt = reset === null ? null : reset > 1e9 ? reset : now + reset;
+
+  let throttledUntil = quota?.throttledUntil ?? null;
+  if (response.status === 429) {
+    const retryAfter = parseHeaderNumber(response, "retry-after");
+    throttledUntil = retryAfter !== null ? now + retryAfter : sentResetAt ?? now + DEFAULT_THROTTLE_SEC;
   }
+
+  // Without a reset header a low quota still needs an end, or the cache would stop
+  // refreshing for good
+  const resetAt = sentResetAt ?? (remaining !== null ? now + DEFAULT_QUOTA_RESET_SEC : null);
+
+  quota = {
+    limit: parseHeaderNumber(response, "x-ratelimit-limit") ?? quota?.limit ?? null,
+    remaining,
+    resetAt,
+    throttledUntil,
+  };
 }
 
-// Fetch upcoming launches from ALL sites in parallel
-export async function getUpcomingLaunchesAllSites(): Promise<EnrichedLaunch[]> {
-  const siteIds = getAllSiteIds();
-  const allLaunches = await Promise.all(
-    siteIds.map((siteId) => getUpcomingLaunches(siteId))
-  );
+export function getLaunchFixtureDir(): string {
+  return process.env.LAUNCH_FIXTURE_DIR || DEFAULT_LAUNCH_FIXTURE_DIR;
+}
 
-  // Flatten and sort by date
-  return allLaunches.flat().sort((a, b) => a.date_unix - b.date_unix);
+// Fixture files hold the raw LL2 response for one site, e.g. upcoming_vandenberg.json
+export function getLaunchFixtureFileName(kind: "upcoming" | "past", siteId: string): string {
+  return `${kind}_${siteId}.json`;
 }
 
-// Fetch past launches for a specific site
-export async function getPastLaunches(
-  siteId?: string,
-  limit = 5
+// Fetch a launch list endpoint and keep this site's launches
+async function fetchSiteLaunches(
+  site: LaunchSite,
+  kind: "upcoming" | "past",
+  limit: number,
+  revalidate: number
 ): Promise<EnrichedLaunch[]> {
-  const site = siteId ? getLaunchSite(siteId) : getLaunchSite("vandenberg");
-  if (!site) return [];
-
-  try {
-    const locationIds = site.ll2LocationIds.join(",");
-    const lspIds = site.lspIds.join(",");
-    const response = await fetch(
-      `${LL2_API_BASE}/launch/previous/?location__ids=${locationIds}&lsp__ids=${lspIds}&limit=${limit}`,
-      {
-        next: { revalidate: 3600 },
-        headers: {
-          'Accept': 'application/json',
-        }
+  const locationIds = site.ll2LocationIds.join(",");
+  const lspIds = site.lspIds.join(",");
+  const endpoint = kind === "upcoming" ? "upcoming" : "previous";
+  const response = await fetch(
+    `${LL2_API_BASE}/launch/${endpoint}/?location__ids=${locationIds}&lsp__ids=${lspIds}&limit=${limit}`,
+    {
+      next: { revalidate },
+      headers: {
+        'Accept': 'application/json',
       }
-    );
-
-    if (!response.ok) {
-      console.error(`Launch Library 2 API error: ${response.status}`);
-      return [];
     }
+  );
+  recordQuota(response);
 
-    const data = await response.json();
-    const launches: Launch[] = data.results || [];
-
-    // Filter and transform
-    const siteLaunches = launches
-      .filter((launch: Launch) => launchMatchesSite(launch, site))
-      .map(transformLaunch);
-
-    return siteLaunches.sort((a, b) => b.date_unix - a.date_unix);
-  } catch (error) {
-    console.error("Failed to fetch past launches:", error);
-    return [];
+  if (!response.ok) {
+    throw new Error(`Launch Library 2 API error: ${response.status}`);
   }
-}
 
-// Get the next upcoming launch (optionally for a specific site, or soonest across all)
-export async function getNextLaunch(siteId?: string): Promise<EnrichedLaunch | null> {
-  const launches = siteId
-    ? await getUpcomingLaunches(siteId)
-    : await getUpcomingLaunchesAllSites();
+  const data = await response.json();
 
-  if (launches.length === 0) {
-    return null;
+  if (process.env.LAUNCH_FIXTURE_RECORD === "true") {
+    const dir = getLaunchFixtureDir();
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, getLaunchFixtureFileName(kind, site.id)), JSON.stringify(data));
   }
 
-  return launches[0];
+  const launches: Launch[] = data.results || [];
+  return launches
+    .filter((launch: Launch) => launchMatchesSite(launch, site))
+    .map(transformLaunch);
 }
 
-// Get all launches (past and upcoming) for a site
-export async function getAllLaunches(siteId?: string): Promise<{
-  upcoming: EnrichedLaunch[];
-  past: EnrichedLaunch[];
-}> {
-  const [upcoming, past] = await Promise.all([
-    siteId ? getUpcomingLaunches(siteId) : getUpcomingLaunchesAllSites(),
-    getPastLaunches(siteId, 10),
-  ]);
-
-  return { upcoming, past };
-}
+export const ll2LaunchProvider: LaunchProvider = {
+  name: "ll2",
+  source: "Launch Library 2 (The Space Devs)",
+  trackChanges: true,
+  getQuota: () => quota,
+
+  async fetchUpcoming(site) {
+    try {
+      const launches = await fetchSiteLaunches(site, "upcoming", 20, 300);
+
+      // Check SpaceX page existence for each launch (in parallel)
+      return await Promise.all(
+        launches.map(async (launch) => {
+          const slug = generateSpacexSlug(launch.name);
+          if (!slug) {
+            return { ...launch, spacexUrl: null };
+          }
+          const pageExists = await checkSpacexPageExists(slug);
+          return {
+            ...launch,
+            spacexUrl: pageExists ? `https://www.spacex.com/launches/${slug}/` : null,
+          };
+        })
+      );
+    } catch (error) {
+      console.error("Failed to fetch launches:", error);
+      return null;
+    }
+  },
+
+  async fetchPast(site, limit) {
+    try {
+      return await fetchSiteLaunches(site, "past", limit, 3600);
+    } catch (error) {
+      console.error("Failed to fetch past launches:", error);
+      return null;
+    }
+  },
+
+  async fetchLaunch(launchId) {
+    try {
+      const response = await fetch(
+        `${LL2_API_BASE}/launch/${encodeURIComponent(launchId)}/`,
+        {
+          next: { revalidate: 300 },
+          headers: {
+            'Accept': 'application/json',
+          }
+        }
+      );
+      recordQuota(response);
+
+      if (!response.ok) {
+        console.error(`Launch Library 2 API error: ${response.status}`);
+        return null;
+      }
 
+      const launch: Launch = await response.json();
+      return transformLaunch(launch);
+    } catch (error) {
+      console.error("Failed to fetch launch:", error);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,288 @@
+// Best nearby viewing spot: search around the user for the point that scores highest
+//
+// Candidates are laid out on a grid within the user's travel radius. Each one is scored
+// with the full visibility model using its own weather, ground elevation (against the
+// median of the search area) and sky brightness, so the search naturally finds spots
+// above the marine layer, away from city glow, or with a better angle on the trajectory. Results carry the score gain over the
+// user's current location and the main reason for it.
+
+import type { TuningProfile, VisibilityLaunch, VisibilityResult } from "./visibility";
+import { getVisibilityModel, type VisibilityModel } from "./visibilityModels";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import type { LightPollutionEstimate } from "./lightPollution";
+import { buildGridLayout } from "./visibilityGrid";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Search grid: at most 13×13 candidates, no finer than 8km apart
+const CANDIDATE_MIN_SPACING_KM = 8;
+const CANDIDATE_GRID_SIDE = 13;
+
+// Returned spots must be at least this fraction of the search radius apart,
+// so the top results aren't three neighbouring grid cells
+const MIN_SPOT_SEPARATION_FRACTION = 0.25;
+
+// Peak elevation gain (degrees) worth mentioning as a line-of-sight improvement
+const NOTABLE_ELEVATION_GAIN_DEG = 2;
+
+const EARTH_RADIUS_KM = 6371;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SpotCandidate {
+  lat: number;
+  lon: number;
+  elevation: number | null; // meters
+  lightPollution: LightPollutionEstimate;
+  weather: WeatherData | ExtendedWeatherData | null;
+}
+
+export interface ViewingSpot {
+  lat: number;
+  lon: number;
+  name: string | null;       // filled in by reverse geocoding
+  distanceKm: number;        // from the user's location
+  percentage: number;
+  delta: number;             // percentage points better than the user's location
+  reason: string;            // main reason it's better
+  reasons: string[];         // all notable improvements, main reason first
+  bortle: number;
+  elevation: number | null;
+}
+
+export interface SpotSearchResult {
+  origin: {
+    percentage: number;
+    bortle: number;
+    elevation: number | null;
+  };
+  spots: ViewingSpot[];
+  candidatesEvaluated: number;
+}
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+/**
+ * Candidate points within the travel radius of the user's location
+ */
+export function getCandidatePoints(
+  originLat: number,
+  originLon: number,
+  maxRadiusKm: number
+): Array<{ lat: number; lon: number }> {
+  return buildGridLayout(
+    originLat,
+    originLon,
+    maxRadiusKm,
+    CANDIDATE_MIN_SPACING_KM,
+    CANDIDATE_GRID_SIDE
+  ).cells.map(({ lat, lon }) => ({ lat, lon }));
+}
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// ============================================================================
+// SCORING & REASONS
+// ============================================================================
+
+function scoreCandidate(
+  launch: VisibilityLaunch,
+  candidate: SpotCandidate,
+  launchSiteWeather: WeatherData | ExtendedWeatherData | null,
+  name: string,
+  surroundingElevation: number | undefined,
+  model: VisibilityModel,
+  tuning?: TuningProfile
+): VisibilityResult {
+  return model.calculate(launch, launchSiteWeather, candidate.weather, {
+    lat: candidate.lat,
+    lon: candidate.lon,
+    name,
+    elevation: candidate.elevation ?? undefined,
+    surroundingElevation,
+    isUrban: candidate.lightPollution.isUrban,
+    lightPollution: candidate.lightPollution.level,
+  }, tuning);
+}
+
+/**
+ * Explain one sub-score improvement in plain words
+ */
+function describeGain(
+  factor: keyof VisibilityResult["factors"]["subScores"],
+  origin: { result: VisibilityResult; candidate: SpotCandidate },
+  spot: { result: VisibilityResult; candidate: SpotCandidate }
+): string | null {
+  const o = origin.result.factors.rawData;
+  const s = spot.result.factors.rawData;
+
+  switch (factor) {
+    case "cloud":
+      // A low deck at the user's location that the spot is above or outside of
+      if (o.cloudBase !== null && o.cloudBase < 1000 &&
+          (s.cloudBase === null || s.cloudBase > o.cloudBase ||
+            (spot.candidate.elevation ?? 0) > o.cloudBase)) {
+        return "outside the marine layer";
+      }
+      return `clearer skies (${Math.round(s.cloudFraction)}% cloud vs ${Math.round(o.cloudFraction)}%)`;
+    case "obstruction":
+      if (spot.candidate.lightPollution.bortle <= origin.candidate.lightPollution.bortle - 1) {
+        return `darker sky (Bortle ${Math.round(spot.candidate.lightPollution.bortle)} vs ${Math.round(origin.candidate.lightPollution.bortle)})`;
+      }
+      if ((spot.candidate.elevation ?? 0) > (origin.candidate.elevation ?? 0)) {
+        return `higher ground (${Math.round(spot.candidate.elevation ?? 0)}m) with a clearer horizon`;
+      }
+      return "fewer obstructions";
+    case "distance": {
+      // The distance score isn't monotonic, so a gain can come from moving farther out
+      const closerKm = Math.round(o.distanceKm - s.distanceKm);
+      if (closerKm > 0) return `${closerKm}km closer to the launch`;
+      if (closerKm < 0) return `better viewing distance (${-closerKm}km farther from the launch)`;
+      return null;
+    }
+    case "bearing":
+      return "better side-on view of the trajectory";
+    case "clarity":
+      return "clearer air";
+    case "sun":
+      return "darker sky at launch time";
+    case "plume":
+      return "plume more likely to catch sunlight";
+    case "moon":
+      return "less moonlight near the trajectory";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rank weighted sub-score gains and turn them into reasons, biggest first
+ */
+function explainImprovement(
+  origin: { result: VisibilityResult; candidate: SpotCandidate },
+  spot: { result: VisibilityResult; candidate: SpotCandidate }
+): string[] {
+  const weights = spot.result.factors.weights;
+  const gains = (Object.keys(weights) as Array<keyof typeof weights>)
+    .map((factor) => ({
+      factor,
+      gain: weights[factor] * (spot.result.factors.subScores[factor] - origin.result.factors.subScores[factor]),
+    }))
+    .filter((g) => g.gain > 0.005)
+    .sort((a, b) => b.gain - a.gain);
+
+  const reasons = gains
+    .map((g) => describeGain(g.factor, origin, spot))
+    .filter((r): r is string => r !== null);
+
+  // Line of sight: the rocket climbing noticeably higher in this spot's sky
+  const originPeak = origin.result.skyTrack.summary.peak?.elevation ?? 0;
+  const spotPeak = spot.result.skyTrack.summary.peak?.elevation ?? 0;
+  if (spotPeak - originPeak >= NOTABLE_ELEVATION_GAIN_DEG) {
+    reasons.push(`rocket climbs to ${Math.round(spotPeak)}° instead of ${Math.round(originPeak)}°`);
+  }
+
+  return reasons.length > 0 ? reasons : ["slightly better overall conditions"];
+}
+
+/**
+ * Score the user's location and every candidate with the given visibility model
+ * (the default one unless given), and return the best few distinct spots that
+ * beat the user's location
+ */
+export function rankViewingSpots(
+  launch: VisibilityLaunch,
+  origin: SpotCandidate & { name: string },
+  candidates: SpotCandidate[],
+  launchSiteWeather: WeatherData | ExtendedWeatherData | null,
+  maxRadiusKm: number,
+  limit: number = 3,
+  tuning?: TuningProfile,
+  model: VisibilityModel = getVisibilityModel()!
+): SpotSearchResult {
+  // The search area stands in for each point's surroundings when weighing high ground
+  const elevations = [origin, ...candidates]
+    .map((c) => c.elevation)
+    .filter((e): e is number => e !== null)
+    .sort((a, b) => a - b);
+  const surroundingElevation = elevations.length > 0
+    ? elevations[Math.floor(elevations.length / 2)]
+    : undefined;
+
+  const originResult = scoreCandidate(
+    launch,
+    origin,
+    launchSiteWeather,
+    origin.name,
+    surroundingElevation,
+    model,
+    tuning
+  );
+
+  // Best score first; on a tie, the shorter drive wins
+  const scored = candidates
+    .map((candidate) => ({
+      candidate,
+      result: scoreCandidate(
+        launch,
+        candidate,
+        launchSiteWeather,
+        `${candidate.lat.toFixed(3)}, ${candidate.lon.toFixed(3)}`,
+        surroundingElevation,
+        model,
+        tuning
+      ),
+      travelKm: distanceKm(origin.lat, origin.lon, candidate.lat, candidate.lon),
+    }))
+    .filter((s) => s.result.percentage > originResult.percentage)
+    .sort((a, b) => b.result.percentage - a.result.percentage || a.travelKm - b.travelKm);
+
+  const minSeparationKm = maxRadiusKm * MIN_SPOT_SEPARATION_FRACTION;
+  const picked: typeof scored = [];
+  for (const s of scored) {
+    if (picked.length >= limit) break;
+    const tooClose = picked.some((p) =>
+      distanceKm(p.candidate.lat, p.candidate.lon, s.candidate.lat, s.candidate.lon) < minSeparationKm
+    );
+    if (!tooClose) picked.push(s);
+  }
+
+  const spots: ViewingSpot[] = picked.map((s) => {
+    const reasons = explainImprovement({ result: originResult, candidate: origin }, s);
+    return {
+      lat: Math.round(s.candidate.lat * 1000) / 1000,
+      lon: Math.round(s.candidate.lon * 1000) / 1000,
+      name: null,
+      distanceKm: Math.round(s.travelKm),
+      percentage: s.result.percentage,
+      delta: s.result.percentage - originResult.percentage,
+      reason: reasons[0],
+      reasons,
+      bortle: s.candidate.lightPollution.bortle,
+      elevation: s.candidate.elevation,
+    };
+  });
+
+  return {
+    origin: {
+      percentage: originResult.percentage,
+      bortle: origin.lightPollution.bortle,
+      elevation: origin.elevation,
+    },
+    spots,
+    candidatesEvaluated: candidates.length,
+  };
+}
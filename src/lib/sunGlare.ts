@@ -0,0 +1,117 @@
+// Sun glare and plume lighting for daytime launches
+//
+// In daylight, how well the plume shows depends less on how high the Sun is than on where
+// it sits relative to the rocket. Close to the Sun the sky is many times brighter (the
+// circumsolar aureole) and the plume is back-lit, a dark wisp lost in the glare; with the
+// Sun behind the observer the plume is front-lit against the darker anti-solar sky. Both
+// follow from the angular separation between the Sun and the rocket's sky track: the
+// phase angle at the plume (Sun–plume–observer) is 180° minus that separation.
+//
+// DATA SOURCES:
+// - Sky radiance rising steeply toward the Sun: CIE standard general sky
+//   (ISO 15469:2004 / CIE S 011), circumsolar indicatrix term.
+// - Front- vs back-lit appearance of exhaust plumes: observer guidance for daytime
+//   launches (sun at your back gives the best contrast).
+
+import { calculateSolarPosition } from "./solar";
+import { angularSeparation } from "./lunar";
+import type { SkyTrack } from "./skyTrack";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Glare within this distance of the Sun is at full strength
+const GLARE_CORE_DEG = 10;
+
+// How quickly glare fades with distance beyond the core (e-folding, degrees)
+const GLARE_FALLOFF_DEG = 15;
+
+// Most glare can take off the daytime sun score (rocket right beside the Sun)
+const MAX_GLARE_PENALTY = 0.6;
+
+// Best a front-lit plume (Sun straight behind the observer) can add
+const MAX_FRONT_LIT_BONUS = 0.2;
+
+// Separations that warrant a warning
+const GLARE_WARNING_DEG = 15;
+const BACK_LIT_WARNING_DEG = 45;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type PlumeLighting = "front-lit" | "side-lit" | "back-lit";
+
+export interface SunGlareFactor {
+  sun: { elevation: number; azimuth: number };
+  separationDeg: number | null; // closest approach of the visible sky track to the Sun
+  phaseAngleDeg: number | null; // Sun–plume–observer angle at that point
+  lighting: PlumeLighting | null; // null when the Sun is down
+  factor: number;               // multiplies the daytime sun score; 1 = no effect
+  description: string | null;   // set when glare or back-lighting is a real problem
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Plume lighting from the phase angle: under 60° the lit side faces the
+ * observer, over 120° the observer looks into the Sun
+ */
+function getPlumeLighting(phaseAngleDeg: number): PlumeLighting {
+  if (phaseAngleDeg < 60) return "front-lit";
+  if (phaseAngleDeg > 120) return "back-lit";
+  return "side-lit";
+}
+
+/**
+ * SunGlareFactor: how the Sun's position relative to the rocket's path changes
+ * a daytime view. Below 1 when the track passes near the Sun, above 1 when the
+ * Sun is behind the observer. 1 when the Sun is down or the track never rises.
+ */
+export function calculateSunGlareFactor(
+  skyTrack: SkyTrack,
+  lat: number,
+  lon: number,
+  timestamp: number
+): SunGlareFactor {
+  const sun = calculateSolarPosition(lat, lon, timestamp);
+
+  const visible = skyTrack.points.filter((p) => p.aboveHorizon);
+  const separationDeg = visible.length > 0
+    ? Math.min(...visible.map((p) => angularSeparation(sun.elevation, sun.azimuth, p.elevation, p.azimuth)))
+    : null;
+
+  if (sun.elevation <= 0 || separationDeg === null) {
+    return { sun, separationDeg, phaseAngleDeg: null, lighting: null, factor: 1, description: null };
+  }
+
+  const phaseAngleDeg = 180 - separationDeg;
+  const lighting = getPlumeLighting(phaseAngleDeg);
+
+  // Scattered sunlight falls off with distance from the Sun
+  const proximity = separationDeg <= GLARE_CORE_DEG
+    ? 1
+    : Math.exp(-(separationDeg - GLARE_CORE_DEG) / GLARE_FALLOFF_DEG);
+  const frontLitBonus = lighting === "front-lit" ? MAX_FRONT_LIT_BONUS * (60 - phaseAngleDeg) / 60 : 0;
+
+  const factor = (1 - MAX_GLARE_PENALTY * proximity) * (1 + frontLitBonus);
+
+  let description: string | null = null;
+  if (separationDeg < GLARE_WARNING_DEG) {
+    description = `The rocket will be within ${Math.max(1, Math.round(separationDeg))}° of the Sun — stand on the shadow side of a building or tree so the Sun is blocked, and never look straight at it`;
+  } else if (separationDeg < BACK_LIT_WARNING_DEG) {
+    description = `The Sun sits ${Math.round(separationDeg)}° from the rocket's path, so the plume is back-lit and low in contrast — sunglasses and shading your eyes help`;
+  }
+
+  return {
+    sun,
+    separationDeg,
+    phaseAngleDeg,
+    lighting,
+    factor,
+    description,
+  };
+}
@@ -3,6 +3,7 @@
  */
 
 import { createClient } from "@supabase/supabase-js";
+import type { EnrichedLaunch } from "./spacex";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -37,3 +38,42 @@ export interface EmailSubscription {
   is_active: boolean;
   site_ids: string | null;
 }
+
+export interface PredictionSnapshotRow {
+  id: string;
+  launch_id: string;
+  site_id: string;
+  launch_time: string;
+  cell_key: string;
+  cell_lat: number;
+  cell_lon: number;
+  lead_bucket: string;
+  lead_hours: number;
+  predicted_percentage: number;
+  rating: string;
+  lighting_condition: string;
+  distance_km: number;
+  model_id: string;
+  model_version: string;
+  tuning_version: string;
+  created_at: string;
+}
+
+export interface SightingReportRow {
+  id: string;
+  launch_id: string;
+  site_id: string;
+  cell_key: string;
+  cell_lat: number;
+  cell_lon: number;
+  saw_it: boolean;
+  predicted_percentage: number | null;
+  reporter_hash: string;
+  created_at: string;
+}
+
+export interface LaunchCacheRow {
+  cache_key: string;
+  launches: EnrichedLaunch[];
+  fetched_at: string;
+}
@@ -0,0 +1,435 @@
+// Terrain horizon profiles from local elevation tiles
+//
+// Reads digital elevation tiles from the directory in TERRAIN_DATA_DIR and casts rays out
+// from the observer to find the skyline elevation angle in every direction. The sky track
+// compares that against the rocket's apparent elevation, so mountains between the viewer
+// and the launch (e.g. the ranges west of Phoenix) hide the low part of the ascent.
+//
+// Supported tile formats:
+// - SRTM .hgt: 1°×1° tiles named by their south-west corner (N34W119.hgt), big-endian
+//   int16, 1201×1201 (3 arc-second) or 3601×3601 (1 arc-second).
+// - GeoTIFF .tif/.tiff: single-band, uncompressed (gdal_translate -co COMPRESS=NONE),
+//   strip or tile layout, geographic (lat/lon) coordinates.
+//
+// DATA SOURCES:
+// - SRTM v3 (NASA/USGS) or Copernicus GLO-30/GLO-90 DEM tiles.
+// - Earth curvature + refraction: standard geodetic coefficient k = 0.13 (Bomford, "Geodesy").
+//
+// Server-only (reads from disk). Without TERRAIN_DATA_DIR, or without a tile under the
+// observer, no profile is produced and the flat-horizon model applies.
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { HorizonProfile } from "./skyTrack";
+import { destinationPoint } from "./trajectory";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_M = 6_371_000;
+
+// Atmospheric refraction bends sight lines around the curve, reducing the apparent drop
+const REFRACTION_COEFFICIENT = 0.13;
+
+// Observer eye height above the ground
+const EYE_HEIGHT_M = 2;
+
+// Skyline search: 1° azimuth resolution out to 120km. Ridges beyond that rise
+// less than a few tenths of a degree above the curve.
+const AZIMUTH_STEP_DEG = 1;
+const MAX_HORIZON_DISTANCE_M = 120_000;
+
+// Ray sampling: ~90m (one SRTM3 cell) near the observer, growing 1.5% per step
+const MIN_SAMPLE_STEP_M = 90;
+const SAMPLE_STEP_GROWTH = 0.015;
+
+// HGT/GeoTIFF void value
+const HGT_VOID = -32768;
+
+// Decoded tiles kept in memory (an SRTM3 tile is ~2.9MB, SRTM1 ~26MB)
+const MAX_CACHED_TILES = 16;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ElevationRaster {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  originLat: number;   // centre of pixel (0, 0)
+  originLon: number;
+  latStep: number;     // degrees per row (southward)
+  lonStep: number;     // degrees per column (eastward)
+  width: number;
+  height: number;
+  noData: number | null;
+  sample: (row: number, col: number) => number;
+}
+
+interface TileEntry {
+  file: string;
+  bounds: { south: number; west: number; north: number; east: number };
+}
+
+// ============================================================================
+// SRTM HGT
+// ============================================================================
+
+/**
+ * Bounds of an SRTM tile from its file name, e.g. N34W119.hgt
+ */
+function parseHgtName(fileName: string): TileEntry["bounds"] | null {
+  const match = /^([NS])(\d{2})([EW])(\d{3})\.hgt$/i.exec(fileName);
+  if (!match) return null;
+
+  const south = parseInt(match[2], 10) * (match[1].toUpperCase() === "S" ? -1 : 1);
+  const west = parseInt(match[4], 10) * (match[3].toUpperCase() === "W" ? -1 : 1);
+  return { south, west, north: south + 1, east: west + 1 };
+}
+
+function parseHgt(buffer: Buffer, bounds: TileEntry["bounds"]): ElevationRaster | null {
+  const size = Math.round(Math.sqrt(buffer.length / 2));
+  if (size * size * 2 !== buffer.length) return null;
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const step = 1 / (size - 1);
+
+  // HGT samples sit on the grid lines: row 0 is the northern edge, col 0 the western edge
+  return {
+    ...bounds,
+    originLat: bounds.north,
+    originLon: bounds.west,
+    latStep: step,
+    lonStep: step,
+    width: size,
+    height: size,
+    noData: HGT_VOID,
+    sample: (row, col) => view.getInt16((row * size + col) * 2, false),
+  };
+}
+
+// ============================================================================
+// GEOTIFF
+// ============================================================================
+
+const TIFF_TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  gdalNoData: 42113,
+} as const;
+
+// Bytes per value for TIFF field types
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+/**
+ * Read the first IFD of a TIFF into tag → values
+ */
+function readTiffTags(view: DataView, littleEndian: boolean): Map<number, number[] | string> {
+  const tags = new Map<number, number[] | string>();
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = view.getUint32(entry + 4, littleEndian);
+    const typeSize = TIFF_TYPE_SIZES[type];
+    if (!typeSize) continue;
+
+    const dataOffset = typeSize * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    if (type === 2) {
+      let text = "";
+      for (let j = 0; j < count; j++) {
+        const code = view.getUint8(dataOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text);
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      const at = dataOffset + j * typeSize;
+      switch (type) {
+        case 3: values.push(view.getUint16(at, littleEndian)); break;
+        case 4: values.push(view.getUint32(at, littleEndian)); break;
+        case 8: values.push(view.getInt16(at, littleEndian)); break;
+        case 9: values.push(view.getInt32(at, littleEndian)); break;
+        case 11: values.push(view.getFloat32(at, littleEndian)); break;
+        case 12: values.push(view.getFloat64(at, littleEndian)); break;
+        case 5: values.push(view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian)); break;
+        default: values.push(view.getUint8(at));
+      }
+    }
+    tags.set(tag, values);
+  }
+
+  return tags;
+}
+
+function parseGeoTiff(buffer: Buffer): ElevationRaster | null {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const byteOrder = buffer.toString("ascii", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return null;
+  const littleEndian = byteOrder === "II";
+  if (view.getUint16(2, littleEndian) !== 42) return null; // BigTIFF not supported
+
+  const tags = readTiffTags(view, littleEndian);
+  const num = (tag: number, fallback?: number): number | undefined => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value[0] : fallback;
+  };
+
+  const width = num(TIFF_TAGS.imageWidth);
+  const height = num(TIFF_TAGS.imageLength);
+  const scale = tags.get(TIFF_TAGS.modelPixelScale);
+  const tiepoint = tags.get(TIFF_TAGS.modelTiepoint);
+  if (!width || !height || !Array.isArray(scale) || !Array.isArray(tiepoint)) return null;
+
+  if (num(TIFF_TAGS.compression, 1) !== 1 || num(TIFF_TAGS.samplesPerPixel, 1) !== 1) {
+    console.error("Unsupported GeoTIFF: only uncompressed single-band rasters can be read");
+    return null;
+  }
+
+  const bits = num(TIFF_TAGS.bitsPerSample, 16)!;
+  const format = num(TIFF_TAGS.sampleFormat, 1)!; // 1 uint, 2 int, 3 float
+  const bytesPerSample = bits / 8;
+  const read = (at: number): number => {
+    if (format === 3) return bits === 64 ? view.getFloat64(at, littleEndian) : view.getFloat32(at, littleEndian);
+    if (bits === 16) return format === 2 ? view.getInt16(at, littleEndian) : view.getUint16(at, littleEndian);
+    if (bits === 32) return format === 2 ? view.getInt32(at, littleEndian) : view.getUint32(at, littleEndian);
+    return view.getUint8(at);
+  };
+
+  // Byte offset of a pixel, for tiled or stripped layouts
+  let offsetOf: (row: number, col: number) => number;
+  const tileOffsets = tags.get(TIFF_TAGS.tileOffsets);
+  const stripOffsets = tags.get(TIFF_TAGS.stripOffsets);
+  if (Array.isArray(tileOffsets)) {
+    const tileWidth = num(TIFF_TAGS.tileWidth)!;
+    const tileLength = num(TIFF_TAGS.tileLength)!;
+    const tilesAcross = Math.ceil(width / tileWidth);
+    offsetOf = (row, col) => {
+      const tile = Math.floor(row / tileLength) * tilesAcross + Math.floor(col / tileWidth);
+      return tileOffsets[tile] + ((row % tileLength) * tileWidth + (col % tileWidth)) * bytesPerSample;
+    };
+  } else if (Array.isArray(stripOffsets)) {
+    const rowsPerStrip = num(TIFF_TAGS.rowsPerStrip, height)!;
+    offsetOf = (row, col) =>
+      stripOffsets[Math.floor(row / rowsPerStrip)] + ((row % rowsPerStrip) * width + col) * bytesPerSample;
+  } else {
+    return null;
+  }
+
+  const [, , , west, north] = tiepoint;
+  const [lonStep, latStep] = scale;
+  const noDataTag = tags.get(TIFF_TAGS.gdalNoData);
+  const noData = typeof noDataTag === "string" && noDataTag.trim() !== "" ? parseFloat(noDataTag) : null;
+
+  return {
+    south: north - height * latStep,
+    west,
+    north,
+    east: west + width * lonStep,
+    originLat: north - latStep / 2,
+    originLon: west + lonStep / 2,
+    latStep,
+    lonStep,
+    width,
+    height,
+    noData,
+    sample: (row, col) => read(offsetOf(row, col)),
+  };
+}
+
+// ============================================================================
+// TILE STORE
+// ============================================================================
+
+let tileIndex: Promise<TileEntry[]> | null = null;
+const tileCache = new Map<string, ElevationRaster | null>();
+
+function loadRaster(entry: TileEntry, buffer: Buffer): ElevationRaster | null {
+  return /\.hgt$/i.test(entry.file) ? parseHgt(buffer, entry.bounds) : parseGeoTiff(buffer);
+}
+
+/**
+ * List the tiles in the terrain directory with their coverage.
+ * GeoTIFF bounds come from the file itself, so those are parsed once up front.
+ */
+async function buildTileIndex(dir: string): Promise<TileEntry[]> {
+  const entries: TileEntry[] = [];
+
+  try {
+    for (const name of await fs.readdir(dir)) {
+      const file = path.join(dir, name);
+      const hgtBounds = parseHgtName(name);
+      if (hgtBounds) {
+        entries.push({ file, bounds: hgtBounds });
+      } else if (/\.tiff?$/i.test(name)) {
+        const raster = parseGeoTiff(await fs.readFile(file));
+        if (raster) {
+          const { south, west, north, east } = raster;
+          entries.push({ file, bounds: { south, west, north, east } });
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to read terrain directory ${dir}:`, error);
+  }
+
+  return entries;
+}
+
+async function getTile(entry: TileEntry): Promise<ElevationRaster | null> {
+  if (tileCache.has(entry.file)) {
+    return tileCache.get(entry.file)!;
+  }
+
+  let raster: ElevationRaster | null = null;
+  try {
+    raster = loadRaster(entry, await fs.readFile(entry.file));
+  } catch (error) {
+    console.error(`Failed to load terrain tile ${entry.file}:`, error);
+  }
+
+  // Evict the oldest tile once the cache is full
+  if (tileCache.size >= MAX_CACHED_TILES) {
+    tileCache.delete(tileCache.keys().next().value!);
+  }
+  tileCache.set(entry.file, raster);
+  return raster;
+}
+
+/**
+ * Load every tile overlapping a bounding box
+ */
+async function loadTiles(
+  south: number,
+  west: number,
+  north: number,
+  east: number
+): Promise<ElevationRaster[]> {
+  const dir = process.env.TERRAIN_DATA_DIR;
+  if (!dir) return [];
+
+  tileIndex ??= buildTileIndex(dir);
+  const overlapping = (await tileIndex).filter(({ bounds }) =>
+    bounds.south < north && bounds.north > south && bounds.west < east && bounds.east > west
+  );
+
+  const rasters = await Promise.all(overlapping.map(getTile));
+  return rasters.filter((r): r is ElevationRaster => r !== null);
+}
+
+/**
+ * Ground elevation (meters) from the loaded tiles, nearest sample.
+ * Null where no tile covers the point or the sample is void.
+ */
+function elevationAt(tiles: ElevationRaster[], lat: number, lon: number): number | null {
+  for (const tile of tiles) {
+    if (lat < tile.south || lat > tile.north || lon < tile.west || lon > tile.east) continue;
+
+    const row = Math.min(tile.height - 1, Math.max(0, Math.round((tile.originLat - lat) / tile.latStep)));
+    const col = Math.min(tile.width - 1, Math.max(0, Math.round((lon - tile.originLon) / tile.lonStep)));
+    const value = tile.sample(row, col);
+    if (value === tile.noData || value === HGT_VOID || Number.isNaN(value)) return null;
+    return value;
+  }
+  return null;
+}
+
+// ============================================================================
+// HORIZON PROFILE
+// ============================================================================
+
+/**
+ * Whether terrain tiles are configured for this deployment
+ */
+export function isTerrainConfigured(): boolean {
+  return Boolean(process.env.TERRAIN_DATA_DIR);
+}
+
+/**
+ * Ground elevation (meters) at a point from the local tiles.
+ * Returns null when terrain data isn't configured or doesn't cover the point.
+ */
+export async function getGroundElevation(lat: number, lon: number): Promise<number | null> {
+  if (!isTerrainConfigured()) return null;
+
+  // A small box so a point on a tile edge still finds its tile
+  const tiles = await loadTiles(lat - 0.001, lon - 0.001, lat + 0.001, lon + 0.001);
+  return elevationAt(tiles, lat, lon);
+}
+
+/**
+ * Skyline elevation angle in every direction around an observer.
+ * Returns null when terrain data isn't configured or doesn't cover the observer.
+ */
+export async function getHorizonProfile(
+  lat: number,
+  lon: number,
+  observerElevationM?: number
+): Promise<HorizonProfile | null> {
+  if (!isTerrainConfigured()) return null;
+
+  const latRadius = (MAX_HORIZON_DISTANCE_M / EARTH_RADIUS_M) * (180 / Math.PI);
+  const lonRadius = latRadius / Math.max(0.1, Math.cos(lat * Math.PI / 180));
+  const tiles = await loadTiles(lat - latRadius, lon - lonRadius, lat + latRadius, lon + lonRadius);
+
+  const ground = elevationAt(tiles, lat, lon);
+  if (ground === null) return null;
+
+  const eye = (observerElevationM ?? ground) + EYE_HEIGHT_M;
+  const elevations: number[] = [];
+  const heights: number[] = [];
+
+  for (let azimuth = 0; azimuth < 360; azimuth += AZIMUTH_STEP_DEG) {
+    let maxAngle = -90;
+
+    for (
+      let d = MIN_SAMPLE_STEP_M;
+      d <= MAX_HORIZON_DISTANCE_M;
+      d += Math.max(MIN_SAMPLE_STEP_M, d * SAMPLE_STEP_GROWTH)
+    ) {
+      const [sampleLat, sampleLon] = destinationPoint(lat, lon, azimuth, d / 1000);
+      // No tile here is most often open ocean: treat it as sea level
+      const height = elevationAt(tiles, sampleLat, sampleLon) ?? 0;
+      heights.push(height);
+      const drop = (d * d) / (2 * EARTH_RADIUS_M) * (1 - REFRACTION_COEFFICIENT);
+      const angle = Math.atan2(height - eye - drop, d) * 180 / Math.PI;
+      if (angle > maxAngle) maxAngle = angle;
+    }
+
+    elevations.push(Math.round(maxAngle * 10) / 10);
+  }
+
+  // The level of the land around the observer, which their horizon dip is measured from
+  heights.sort((a, b) => a - b);
+
+  return {
+    azimuthStepDeg: AZIMUTH_STEP_DEG,
+    elevations,
+    observerElevationM: Math.round(eye),
+    surroundingElevationM: Math.round(heights[Math.floor(heights.length / 2)]),
+  };
+}
@@ -0,0 +1,265 @@
+// Launch trajectory generation: ground track, altitude and velocity over time
+//
+// A trajectory is generated per mission from the pad coordinates, the launch azimuth
+// and a vehicle ascent profile, so a 43° Starlink launch and a 90° GTO launch from the
+// same pad get different ground tracks. Both the scoring engine (sky track, Earth shadow)
+// and the map consume trajectories from here.
+//
+// DATA SOURCES:
+// - Ascent profiles: SpaceX webcast telemetry overlays (speed/altitude vs time),
+//   FlightClub.io reconstructions, FAA Environmental Impact Statements.
+// - Falcon 9: MECO ~T+2:30 at ~2.3 km/s, SECO ~T+8:45 at orbital velocity.
+// - Falcon Heavy: side-booster sep ~T+2:30, center core MECO ~T+3:05; heavier
+//   payloads give a slower, lofted climb.
+// - Starship: Super Heavy hot-staging ~T+2:45 at ~1.5 km/s (IFT-3 through IFT-6).
+//
+// Ground track is a great-circle path along the launch azimuth (Earth rotation ignored —
+// under 1% of downrange distance over the first ten minutes).
+
+import type { LaunchSite } from "./launchSites";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+export type AscentVehicle = "falcon9" | "falconHeavy" | "starship";
+
+interface ProfileSample {
+  t: number;           // seconds after liftoff
+  altitudeKm: number;
+  downrangeKm: number;
+  velocityKms: number; // inertial-ish speed from webcast overlays
+}
+
+export interface AscentProfile {
+  vehicle: AscentVehicle;
+  name: string;
+  firstStageSec: number; // MECO / staging time
+  samples: ProfileSample[];
+}
+
+const FALCON_9_PROFILE: AscentProfile = {
+  vehicle: "falcon9",
+  name: "Falcon 9",
+  firstStageSec: 150,
+  samples: [
+    { t: 0,   altitudeKm: 0,   downrangeKm: 0,    velocityKms: 0 },
+    { t: 60,  altitudeKm: 12,  downrangeKm: 6,    velocityKms: 0.45 }, // Max-Q ~T+1:12
+    { t: 120, altitudeKm: 52,  downrangeKm: 52,   velocityKms: 1.5 },
+    { t: 180, altitudeKm: 77,  downrangeKm: 98,   velocityKms: 2.3 },  // MECO/stage sep/SES-1
+    { t: 240, altitudeKm: 132, downrangeKm: 190,  velocityKms: 2.9 },
+    { t: 300, altitudeKm: 172, downrangeKm: 320,  velocityKms: 3.7 },
+    { t: 360, altitudeKm: 190, downrangeKm: 470,  velocityKms: 4.6 },
+    { t: 420, altitudeKm: 200, downrangeKm: 640,  velocityKms: 5.6 },
+    { t: 480, altitudeKm: 205, downrangeKm: 830,  velocityKms: 6.6 },
+    { t: 540, altitudeKm: 210, downrangeKm: 1040, velocityKms: 7.6 },  // SECO
+  ],
+};
+
+const FALCON_HEAVY_PROFILE: AscentProfile = {
+  vehicle: "falconHeavy",
+  name: "Falcon Heavy",
+  firstStageSec: 185,
+  samples: [
+    { t: 0,   altitudeKm: 0,   downrangeKm: 0,    velocityKms: 0 },
+    { t: 60,  altitudeKm: 11,  downrangeKm: 5,    velocityKms: 0.4 },
+    { t: 120, altitudeKm: 48,  downrangeKm: 45,   velocityKms: 1.4 },
+    { t: 180, altitudeKm: 75,  downrangeKm: 95,   velocityKms: 2.6 },  // Center core MECO ~T+3:05
+    { t: 240, altitudeKm: 125, downrangeKm: 180,  velocityKms: 3.1 },
+    { t: 300, altitudeKm: 165, downrangeKm: 300,  velocityKms: 3.8 },
+    { t: 360, altitudeKm: 190, downrangeKm: 450,  velocityKms: 4.6 },
+    { t: 420, altitudeKm: 205, downrangeKm: 620,  velocityKms: 5.4 },
+    { t: 480, altitudeKm: 215, downrangeKm: 810,  velocityKms: 6.3 },
+    { t: 540, altitudeKm: 220, downrangeKm: 1020, velocityKms: 7.1 },
+    { t: 600, altitudeKm: 225, downrangeKm: 1250, velocityKms: 7.8 },
+  ],
+};
+
+const STARSHIP_PROFILE: AscentProfile = {
+  vehicle: "starship",
+  name: "Starship",
+  firstStageSec: 165,
+  samples: [
+    { t: 0,   altitudeKm: 0,   downrangeKm: 0,   velocityKms: 0 },
+    { t: 60,  altitudeKm: 8,   downrangeKm: 3,   velocityKms: 0.35 }, // Slower initial TWR than F9
+    { t: 120, altitudeKm: 40,  downrangeKm: 35,  velocityKms: 1.1 },
+    { t: 180, altitudeKm: 75,  downrangeKm: 80,  velocityKms: 1.6 },  // Hot-staging ~T+2:45
+    { t: 240, altitudeKm: 110, downrangeKm: 170, velocityKms: 2.4 },
+    { t: 300, altitudeKm: 150, downrangeKm: 260, velocityKms: 3.3 },
+    { t: 360, altitudeKm: 175, downrangeKm: 380, velocityKms: 4.3 },
+    { t: 420, altitudeKm: 190, downrangeKm: 520, velocityKms: 5.3 },
+    { t: 480, altitudeKm: 200, downrangeKm: 690, velocityKms: 6.3 },
+    { t: 540, altitudeKm: 205, downrangeKm: 880, velocityKms: 7.2 },
+  ],
+};
+
+export const ASCENT_PROFILES: Record<AscentVehicle, AscentProfile> = {
+  falcon9: FALCON_9_PROFILE,
+  falconHeavy: FALCON_HEAVY_PROFILE,
+  starship: STARSHIP_PROFILE,
+};
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface TrajectoryPoint {
+  tPlus: number;        // seconds after liftoff
+  lat: number;
+  lon: number;
+  altitudeKm: number;
+  downrangeKm: number;
+  velocityKms: number;
+}
+
+export interface Trajectory {
+  vehicle: AscentVehicle;
+  azimuth: number;      // degrees from north
+  stepSec: number;
+  firstStageSec: number;
+  points: TrajectoryPoint[];
+}
+
+// ============================================================================
+// PROFILE LOOKUP
+// ============================================================================
+
+/**
+ * Get the ascent profile for a rocket type, falling back to the site's usual vehicle
+ * (smaller rockets have no profile of their own)
+ */
+export function getAscentProfile(rocketType: string, site?: LaunchSite): AscentProfile {
+  return ASCENT_PROFILES[rocketType as AscentVehicle]
+    ?? ASCENT_PROFILES[site?.defaultVehicle ?? "falcon9"];
+}
+
+/**
+ * Interpolate altitude/downrange/velocity from a profile.
+ * Past the last sample the vehicle is coasting toward orbit: altitude holds,
+ * downrange keeps growing at the final speed.
+ */
+function sampleProfile(profile: AscentProfile, t: number): Omit<ProfileSample, "t"> {
+  const samples = profile.samples;
+  const last = samples[samples.length - 1];
+
+  if (t >= last.t) {
+    return {
+      altitudeKm: last.altitudeKm,
+      downrangeKm: last.downrangeKm + last.velocityKms * (t - last.t),
+      velocityKms: last.velocityKms,
+    };
+  }
+
+  let i = 0;
+  while (i < samples.length - 2 && samples[i + 1].t <= t) i++;
+
+  const a = samples[i];
+  const b = samples[i + 1];
+  const frac = (t - a.t) / (b.t - a.t);
+
+  return {
+    altitudeKm: a.altitudeKm + (b.altitudeKm - a.altitudeKm) * frac,
+    downrangeKm: a.downrangeKm + (b.downrangeKm - a.downrangeKm) * frac,
+    velocityKms: a.velocityKms + (b.velocityKms - a.velocityKms) * frac,
+  };
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+/**
+ * Destination point along a great circle from a start point, bearing and distance
+ */
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  bearing: number,
+  distanceKm: number
+): [number, number] {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+  const delta = distanceKm / EARTH_RADIUS_KM;
+  const theta = toRad(bearing);
+  const phi1 = toRad(lat);
+  const lambda1 = toRad(lon);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) +
+    Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return [toDeg(phi2), ((toDeg(lambda2) + 540) % 360) - 180];
+}
+
+// ============================================================================
+// TRAJECTORY GENERATION
+// ============================================================================
+
+/**
+ * Generate a trajectory from pad coordinates, launch azimuth and ascent profile
+ */
+export function generateTrajectory(
+  padLat: number,
+  padLon: number,
+  azimuth: number,
+  profile: AscentProfile,
+  durationSec: number,
+  stepSec: number = 1
+): Trajectory {
+  const points: TrajectoryPoint[] = [];
+
+  for (let t = 0; t <= durationSec; t += stepSec) {
+    const { altitudeKm, downrangeKm, velocityKms } = sampleProfile(profile, t);
+    const [lat, lon] = destinationPoint(padLat, padLon, azimuth, downrangeKm);
+    points.push({ tPlus: t, lat, lon, altitudeKm, downrangeKm, velocityKms });
+  }
+
+  return {
+    vehicle: profile.vehicle,
+    azimuth,
+    stepSec,
+    firstStageSec: profile.firstStageSec,
+    points,
+  };
+}
+
+/**
+ * Trajectory for a mission from a launch site — the single source used by
+ * the visibility engine and the map
+ */
+export function getSiteTrajectory(
+  site: LaunchSite,
+  azimuth: number,
+  rocketType: string,
+  durationSec: number,
+  stepSec: number = 1
+): Trajectory {
+  return generateTrajectory(
+    site.lat,
+    site.lon,
+    azimuth,
+    getAscentProfile(rocketType, site),
+    durationSec,
+    stepSec
+  );
+}
+
+/**
+ * Ground track as [lat, lon] pairs, e.g. for a map polyline
+ */
+export function getGroundTrack(
+  trajectory: Trajectory,
+  untilSec: number = Infinity
+): [number, number][] {
+  return trajectory.points
+    .filter((p) => p.tPlus <= untilSec)
+    .map((p) => [p.lat, p.lon]);
+}
@@ -0,0 +1,119 @@
+// Versioned tuning profiles: fitted replacements for WEIGHTS and the distance tables
+//
+// scripts/calibrate-weights.ts fits the sub-score weights and per-vehicle maximum visible
+// distances to recorded sightings and writes the result to tuning/ as a versioned JSON
+// file, together with the metrics it scored before and after fitting. Point
+// VISIBILITY_TUNING_PROFILE at one of those files to have the API routes score with it;
+// without it the hand-tuned constants in visibility.ts and vehicles.ts apply.
+//
+// Server-only (reads from disk).
+
+import { promises as fs } from "fs";
+import { z } from "zod";
+import { DEFAULT_TUNING_PROFILE, type TuningProfile } from "./visibility";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Fitted weights are rounded, so allow a little slack around a sum of 1
+const WEIGHT_SUM_TOLERANCE = 0.01;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ProfileMetrics {
+  samples: number;
+  brierScore: number;
+  logLoss: number;
+  hitRate: number | null;
+}
+
+// What the calibration command writes: the profile plus how it was produced
+export interface TuningProfileFile extends TuningProfile {
+  createdAt: string;
+  baseVersion: string;
+  dataset: { file: string; records: number; training: number; holdout: number };
+  metrics: {
+    training: { before: ProfileMetrics; after: ProfileMetrics };
+    holdout: { before: ProfileMetrics; after: ProfileMetrics } | null;
+  };
+}
+
+const distanceTableSchema = z.object({
+  twilight: z.number().positive(),
+  night: z.number().positive(),
+  day: z.number().positive(),
+});
+
+const profileSchema = z.object({
+  version: z.string().min(1),
+  weights: z.object({
+    cloud: z.number().min(0),
+    sun: z.number().min(0),
+    distance: z.number().min(0),
+    clarity: z.number().min(0),
+    moon: z.number().min(0),
+    plume: z.number().min(0),
+    bearing: z.number().min(0),
+    brightness: z.number().min(0),
+    obstruction: z.number().min(0),
+  }),
+  maxVisibleDistance: z.object({
+    falcon9: distanceTableSchema.optional(),
+    falconHeavy: distanceTableSchema.optional(),
+    starship: distanceTableSchema.optional(),
+    smallRocket: distanceTableSchema.optional(),
+    default: distanceTableSchema.optional(),
+  }),
+});
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Validate a parsed profile file. Returns null when it isn't a usable profile.
+ */
+export function parseTuningProfile(data: unknown): TuningProfile | null {
+  const result = profileSchema.safeParse(data);
+  if (!result.success) return null;
+
+  const weightSum = Object.values(result.data.weights).reduce((sum, w) => sum + w, 0);
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_TOLERANCE) return null;
+
+  return result.data;
+}
+
+/**
+ * Read and validate a profile file. Returns null (and logs why) on failure.
+ */
+export async function readTuningProfile(file: string): Promise<TuningProfile | null> {
+  try {
+    const profile = parseTuningProfile(JSON.parse(await fs.readFile(file, "utf8")));
+    if (!profile) {
+      console.error(`Invalid tuning profile in ${file}`);
+    }
+    return profile;
+  } catch (error) {
+    console.error(`Failed to read tuning profile ${file}:`, error);
+    return null;
+  }
+}
+
+let activeProfile: Promise<TuningProfile> | null = null;
+
+/**
+ * Profile the API routes score with: VISIBILITY_TUNING_PROFILE when it loads,
+ * otherwise the built-in constants. Read once per server process.
+ */
+export function getActiveTuningProfile(): Promise<TuningProfile> {
+  if (!activeProfile) {
+    const file = process.env.VISIBILITY_TUNING_PROFILE;
+    activeProfile = file
+      ? readTuningProfile(file).then((profile) => profile ?? DEFAULT_TUNING_PROFILE)
+      : Promise.resolve(DEFAULT_TUNING_PROFILE);
+  }
+  return activeProfile;
+}
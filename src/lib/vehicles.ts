@@ -0,0 +1,204 @@
+// Launch vehicle catalog: brightness, timing and visible-range parameters per vehicle
+//
+// Vehicles are identified from the LL2 rocket configuration (name / full name / family),
+// so every part of the app agrees on what's flying. Mission-name matching is only a
+// last resort for callers that don't have the launch record.
+//
+// DATA SOURCES:
+// - Visible range:
+//   - Twilight F9: SAOCOM-1A (Oct 2018) confirmed from Phoenix at ~800km. Starlink 11-20
+//     (Sep 2025) clearly visible from Mesa, AZ at ~835km with dramatic "jellyfish" effect.
+//     Reports from Albuquerque (~1100km) suggest even longer range is possible.
+//   - Twilight FH: Arabsat-6A (Apr 2019) seen across SE US, ~1000km confirmed.
+//   - Twilight Starship: No twilight Starship launch yet; estimated from plume physics
+//     (33 Raptors, ~16.7M lbf → plume 3-4x Falcon 9 volume). Shuttle (comparable thrust
+//     with SRBs) documented at 800-965km twilight.
+//   - Night: Plume visible only from combustion luminosity (no solar illumination).
+//     Roughly half of twilight distances based on observer reports.
+//   - Day: Bright sky washes out plume contrast. 100-150mi practical max for informed observer.
+//     Community consensus: easily visible <50mi, possible with effort 50-125mi.
+// - Timing: SpaceX webcast telemetry data (MECO times, stage sep, SES-1)
+//   Falcon 9: MECO at T+2:30-2:40, stage sep T+2:38-2:43, SES-1 T+2:46-2:53
+//   Starship: Super Heavy MECO at T+2:40-2:50, hot-staging
+//
+// Pure data — safe to import in "use client" components.
+
+import type { AscentVehicle } from "./trajectory";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type VehicleKey = "falcon9" | "falconHeavy" | "starship" | "smallRocket" | "default";
+
+export type LightingCondition = "twilight" | "night" | "day";
+
+// Subset of the LL2 rocket configuration used for identification
+export interface RocketConfiguration {
+  id?: number;
+  name?: string;
+  full_name?: string;
+  family?: string;
+}
+
+export interface VehicleTiming {
+  timeToAltitude: number;      // ms until the plume is high enough to see at distance
+  firstStageDuration: number;  // ms of visible first-stage burn
+  secondStageDuration: number; // ms of visible second-stage burn
+  totalDuration: number;       // ms total viewing window
+}
+
+export interface VehicleSpec {
+  key: VehicleKey;
+  name: string;
+  brightness: number;                                     // 0-1 base brightness score
+  maxVisibleDistance: Record<LightingCondition, number>;  // km
+  timing: VehicleTiming;
+  ascentProfile: AscentVehicle | null;                    // null = use the site's usual vehicle
+  configNames: string[];                                  // lowercase LL2 configuration name prefixes
+}
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+export const VEHICLE_CATALOG: Record<VehicleKey, VehicleSpec> = {
+  falcon9: {
+    key: "falcon9",
+    name: "Falcon 9",
+    brightness: 0.85,
+    maxVisibleDistance: {
+      twilight: 1000, // km (~620 mi) — confirmed clear sightings at 835km (Mesa AZ, Sep 2025), 800km (Phoenix, Oct 2018)
+      night: 550,     // km (~340 mi) — no solar illumination, exhaust glow only
+      day: 200,       // km (~125 mi) — matches community reports closely
+    },
+    timing: {
+      timeToAltitude: 1 * 60 * 1000,       // ~60s to ~12km where plume becomes visible at distance
+      firstStageDuration: 2.5 * 60 * 1000, // First stage burn visible (~T+0 to T+2:40)
+      secondStageDuration: 4 * 60 * 1000,  // Second stage visible after sep (twilight jellyfish)
+      totalDuration: 6 * 60 * 1000,        // Total viewing window
+    },
+    ascentProfile: "falcon9",
+    configNames: ["falcon 9"],
+  },
+  falconHeavy: {
+    key: "falconHeavy",
+    name: "Falcon Heavy",
+    brightness: 0.95,
+    maxVisibleDistance: {
+      twilight: 1200, // km (~745 mi) — Arabsat-6A (Apr 2019) confirmed ~1000km, scaled for larger plume
+      night: 650,     // km (~400 mi)
+      day: 250,       // km (~155 mi)
+    },
+    timing: {
+      timeToAltitude: 1 * 60 * 1000,       // Similar to F9 (more thrust but more mass)
+      firstStageDuration: 2.5 * 60 * 1000, // Side booster sep at ~T+2:30 adds visual interest
+      secondStageDuration: 5 * 60 * 1000,  // Brighter upper stage plume
+      totalDuration: 7 * 60 * 1000,
+    },
+    ascentProfile: "falconHeavy",
+    configNames: ["falcon heavy"],
+  },
+  starship: {
+    key: "starship",
+    name: "Starship",
+    brightness: 1.0,
+    maxVisibleDistance: {
+      twilight: 1500, // km (~930 mi) — estimated from plume physics (3-4x F9 volume), Shuttle analogy
+      night: 900,     // km (~560 mi) — massive plume partially compensates for no sunlight
+      day: 300,       // km (~185 mi)
+    },
+    timing: {
+      timeToAltitude: 1 * 60 * 1000,        // Massive plume visible almost immediately
+      firstStageDuration: 2.75 * 60 * 1000, // Super Heavy burns ~2:40-2:50, hot-staging
+      secondStageDuration: 6 * 60 * 1000,   // Starship upper stage (6 Raptor Vacuum engines)
+      totalDuration: 8 * 60 * 1000,         // Very long visibility due to plume size
+    },
+    ascentProfile: "starship",
+    configNames: ["starship", "super heavy"],
+  },
+  smallRocket: {
+    key: "smallRocket",
+    name: "Small launcher",
+    brightness: 0.4,
+    maxVisibleDistance: {
+      twilight: 350, // km (~220 mi) — e.g. Electron, much dimmer
+      night: 200,    // km (~125 mi)
+      day: 80,       // km (~50 mi)
+    },
+    timing: {
+      timeToAltitude: 2 * 60 * 1000,       // Slower ascent, dimmer
+      firstStageDuration: 2 * 60 * 1000,
+      secondStageDuration: 3 * 60 * 1000,
+      totalDuration: 4 * 60 * 1000,
+    },
+    ascentProfile: null,
+    configNames: ["electron", "firefly alpha", "minotaur", "pegasus"],
+  },
+  default: {
+    key: "default",
+    name: "Unknown vehicle",
+    brightness: 0.85,
+    maxVisibleDistance: {
+      twilight: 1000,
+      night: 550,
+      day: 200,
+    },
+    timing: {
+      timeToAltitude: 1 * 60 * 1000,
+      firstStageDuration: 2.5 * 60 * 1000,
+      secondStageDuration: 4 * 60 * 1000,
+      totalDuration: 6 * 60 * 1000,
+    },
+    ascentProfile: null,
+    configNames: [],
+  },
+};
+
+// ============================================================================
+// IDENTIFICATION
+// ============================================================================
+
+/**
+ * Get a catalog entry by key, falling back to the default entry
+ */
+export function getVehicle(key: string): VehicleSpec {
+  return VEHICLE_CATALOG[key as VehicleKey] ?? VEHICLE_CATALOG.default;
+}
+
+/**
+ * Identify the vehicle from the LL2 rocket configuration.
+ * Checks configuration name, then full name, then family; only falls back to
+ * whole-word mission-name matching when there's no configuration at all.
+ */
+export function identifyVehicle(
+  configuration: RocketConfiguration | null | undefined,
+  missionName: string = "",
+  fallback: VehicleKey = "falcon9"
+): VehicleSpec {
+  const candidates = [configuration?.name, configuration?.full_name]
+    .filter((n): n is string => !!n)
+    .map((n) => n.toLowerCase());
+
+  for (const candidate of candidates) {
+    for (const vehicle of Object.values(VEHICLE_CATALOG)) {
+      if (vehicle.configNames.some((prefix) => candidate.startsWith(prefix))) {
+        return vehicle;
+      }
+    }
+  }
+
+  // Family alone can't tell Falcon 9 from Falcon Heavy; assume the common one
+  const family = configuration?.family?.toLowerCase();
+  if (family === "falcon") return VEHICLE_CATALOG.falcon9;
+  if (family === "starship") return VEHICLE_CATALOG.starship;
+
+  if (!configuration) {
+    const nameLower = missionName.toLowerCase();
+    if (/\bfalcon heavy\b/.test(nameLower)) return VEHICLE_CATALOG.falconHeavy;
+    if (/\bstarship\b/.test(nameLower)) return VEHICLE_CATALOG.starship;
+    if (/\belectron\b|\brocket lab\b/.test(nameLower)) return VEHICLE_CATALOG.smallRocket;
+  }
+
+  return VEHICLE_CATALOG[fallback];
+}
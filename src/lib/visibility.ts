@@ -7,12 +7,41 @@
 //   Space Shuttle STS-era visibility records (500-600mi twilight), SpaceArchive.info compilation.
 // - Solar elevation scoring: Wikipedia "Twilight phenomenon", real-world observation that nautical
 //   twilight (-6° to -12°) produces the "space jellyfish" effect (observer in darkness, plume
-//   illuminated at 80-200km altitude by sunlight).
+//   illuminated at 80-200km altitude by sunlight). Daytime glare and plume lighting from the
+//   Sun's position relative to the sky track: see sunGlare.ts.
 // - Atmospheric science: Koschmieder visibility equation, aerosol hygroscopic growth factors
 //   (Seinfeld & Pandis), NOAA surface visibility climatology.
 
-import { WeatherData, ExtendedWeatherData } from "./weather";
+import { WeatherData, ExtendedWeatherData, type CloudLayers } from "./weather";
+import { calculateCloudLineOfSight } from "./cloudLineOfSight";
 import { getLaunchSite, type LaunchSite } from "./launchSites";
+import {
+  computeSkyTrack,
+  getHorizonElevation,
+  getObserverHeightAboveTerrain,
+  toCompassPoint,
+  formatTPlus,
+  type HorizonProfile,
+  type SkyTrack,
+} from "./skyTrack";
+import { getSiteTrajectory } from "./trajectory";
+import { calculateSolarElevation, calculateSolarPosition, getTwilightType } from "./solar";
+import { calculateJellyfish, type JellyfishResult } from "./earthShadow";
+import { calculateMoonFactor } from "./lunar";
+import { calculateSunGlareFactor, type PlumeLighting } from "./sunGlare";
+import type { UrbanClass } from "./lightPollution";
+import { resolveLaunchAzimuth, type AzimuthResolution, type MissionOrbit } from "./launchAzimuth";
+import {
+  VEHICLE_CATALOG,
+  getVehicle,
+  identifyVehicle,
+  type LightingCondition,
+  type RocketConfiguration,
+  type VehicleKey,
+  type VehicleSpec,
+} from "./vehicles";
+
+export { calculateSolarElevation };
 
 // ============================================================================
 // CONSTANTS & CONFIGURATION
@@ -22,124 +51,95 @@ import { getLaunchSite, type LaunchSite } from "./launchSites";
 const EARTH_RADIUS_KM = 6371;
 
 // Visibility range configuration (in km)
-// Sources:
-// - Twilight F9: SAOCOM-1A (Oct 2018) confirmed from Phoenix at ~800km. Starlink 11-20
-//   (Sep 2025) clearly visible from Mesa, AZ at ~835km with dramatic "jellyfish" effect.
-//   Reports from Albuquerque (~1100km) suggest even longer range is possible.
-// - Twilight FH: Arabsat-6A (Apr 2019) seen across SE US, ~1000km confirmed.
-// - Twilight Starship: No twilight Starship launch yet; estimated from plume physics
-//   (33 Raptors, ~16.7M lbf → plume 3-4x Falcon 9 volume). Shuttle (comparable thrust
-//   with SRBs) documented at 800-965km twilight.
-// - Night: Plume visible only from combustion luminosity (no solar illumination).
-//   Roughly half of twilight distances based on observer reports.
-// - Day: Bright sky washes out plume contrast. 100-150mi practical max for informed observer.
-//   Community consensus: easily visible <50mi, possible with effort 50-125mi.
+// Per-vehicle maximum visible distances live in the vehicle catalog (vehicles.ts)
 export const VISIBILITY_CONFIG = {
-  maxVisibleDistance: {
-    // Twilight conditions (optimal - "space jellyfish" effect)
-    twilight: {
-      falcon9: 1000,     // km (~620 mi) — confirmed clear sightings at 835km (Mesa AZ, Sep 2025), 800km (Phoenix, Oct 2018)
-      falconHeavy: 1200, // km (~745 mi) — Arabsat-6A (Apr 2019) confirmed ~1000km, scaled for larger plume
-      starship: 1500,    // km (~930 mi) — estimated from plume physics (3-4x F9 volume), Shuttle analogy
-      smallRocket: 350,  // km (~220 mi) — e.g. Electron, much dimmer
-      default: 1000,
-    },
-    // Night conditions (after astronomical twilight, sun below -18°)
-    night: {
-      falcon9: 550,      // km (~340 mi) — no solar illumination, exhaust glow only
-      falconHeavy: 650,  // km (~400 mi)
-      starship: 900,     // km (~560 mi) — massive plume partially compensates for no sunlight
-      smallRocket: 200,  // km (~125 mi)
-      default: 550,
-    },
-    // Daytime conditions (poor - contrast issues with bright sky)
-    day: {
-      falcon9: 200,      // km (~125 mi) — matches community reports closely
-      falconHeavy: 250,  // km (~155 mi)
-      starship: 300,     // km (~185 mi)
-      smallRocket: 80,   // km (~50 mi)
-      default: 200,
-    },
-  },
   // Optimal viewing distance range
   optimalMin: 130,     // km (~80 miles) — close enough for detail without neck strain
   optimalMax: 800,     // km (~500 miles) — confirmed excellent naked-eye viewing at 500+ mi in twilight
 };
 
+// Share of the ascent hidden by terrain before it's called out as a limiting factor
+const TERRAIN_LIMITING_FRACTION = 0.25;
+
 // Plume altitude where it becomes visible (approximate)
 const PLUME_VISIBILITY_ALTITUDE_KM = 40; // ~130,000 ft
 
-// Visibility timing by rocket type (milliseconds)
-// Source: SpaceX webcast telemetry data (MECO times, stage sep, SES-1)
-// Falcon 9: MECO at T+2:30-2:40, stage sep T+2:38-2:43, SES-1 T+2:46-2:53
-// Starship: Super Heavy MECO at T+2:40-2:50, hot-staging
-const VISIBILITY_TIMING = {
-  falcon9: {
-    timeToAltitude: 1 * 60 * 1000,       // ~60s to ~12km where plume becomes visible at distance
-    firstStageDuration: 2.5 * 60 * 1000, // First stage burn visible (~T+0 to T+2:40)
-    secondStageDuration: 4 * 60 * 1000,  // Second stage visible after sep (twilight jellyfish)
-    totalDuration: 6 * 60 * 1000,        // Total viewing window
-  },
-  falconHeavy: {
-    timeToAltitude: 1 * 60 * 1000,       // Similar to F9 (more thrust but more mass)
-    firstStageDuration: 2.5 * 60 * 1000, // Side booster sep at ~T+2:30 adds visual interest
-    secondStageDuration: 5 * 60 * 1000,  // Brighter upper stage plume
-    totalDuration: 7 * 60 * 1000,
-  },
-  starship: {
-    timeToAltitude: 1 * 60 * 1000,       // Massive plume visible almost immediately
-    firstStageDuration: 2.75 * 60 * 1000, // Super Heavy burns ~2:40-2:50, hot-staging
-    secondStageDuration: 6 * 60 * 1000,  // Starship upper stage (6 Raptor Vacuum engines)
-    totalDuration: 8 * 60 * 1000,        // Very long visibility due to plume size
-  },
-  smallRocket: {
-    timeToAltitude: 2 * 60 * 1000,       // Slower ascent, dimmer
-    firstStageDuration: 2 * 60 * 1000,
-    secondStageDuration: 3 * 60 * 1000,
-    totalDuration: 4 * 60 * 1000,
-  },
-  default: {
-    timeToAltitude: 1 * 60 * 1000,
-    firstStageDuration: 2.5 * 60 * 1000,
-    secondStageDuration: 4 * 60 * 1000,
-    totalDuration: 6 * 60 * 1000,
-  },
-};
-
 // Weight configuration (sum = 1.0)
 // Adjusted based on real-world impact:
 // - Clouds: blocks view entirely if overcast
 // - Sun/timing: 5-10x difference in viewing distance (twilight vs day)
 // - Distance: already factored into dynamic max distance by lighting
+// - Moon: only matters at night / late twilight, but a full Moon beside the track
+//   hides the faint second-stage plume
 const WEIGHTS = {
   cloud: 0.35,      // Most critical - clouds block everything
-  sun: 0.25,        // Huge impact on visibility range and quality
+  sun: 0.23,        // Huge impact on visibility range and quality
   distance: 0.15,   // Important but max distance already varies by lighting
-  clarity: 0.10,    // Haze/smog affects daytime more
-  plume: 0.05,      // Plume persistence is secondary
+  clarity: 0.09,    // Haze/smog affects daytime more
+  moon: 0.05,       // Moonlight near the trajectory at night
+  plume: 0.04,      // Plume persistence is secondary
   bearing: 0.04,    // Viewing angle matters less than other factors
-  brightness: 0.04, // Rocket type has modest impact
+  brightness: 0.03, // Rocket type has modest impact
   obstruction: 0.02,// Local obstructions rarely the limiting factor
 };
 
 // Tuning parameters (can be adjusted based on real observations)
 export const TUNING = {
   weights: WEIGHTS,
-  maxVisibleDistance: VISIBILITY_CONFIG.maxVisibleDistance,
+  vehicles: VEHICLE_CATALOG,
   plumeAltitudeKm: PLUME_VISIBILITY_ALTITUDE_KM,
   confidenceBand: 10, // ± percentage
 };
 
+export type VisibilityWeights = typeof WEIGHTS;
+
+// Fitted replacement for WEIGHTS and the vehicle distance tables, written by
+// scripts/calibrate-weights.ts and loaded server-side by tuningProfile.ts.
+// Vehicles missing from maxVisibleDistance keep their catalog values.
+export interface TuningProfile {
+  version: string;
+  weights: VisibilityWeights;
+  maxVisibleDistance: Partial<Record<VehicleKey, Record<LightingCondition, number>>>;
+}
+
+export const DEFAULT_TUNING_PROFILE: TuningProfile = {
+  version: "default",
+  weights: WEIGHTS,
+  maxVisibleDistance: {},
+};
+
+// Stamped on every result this formula produces (see visibilityModels.ts).
+// Bump the version whenever a change alters scores.
+export const WEIGHTED_MODEL = { id: "weighted", version: "1.3" };
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+// The parts of a launch record (EnrichedLaunch) the visibility engine uses
+export interface VisibilityLaunch {
+  name: string;
+  date_unix: number;
+  siteId?: string;
+  rocket?: {
+    configuration: RocketConfiguration;
+  };
+  mission?: {
+    description?: string | null;
+    orbit?: MissionOrbit;
+  } | null;
+}
+
 export interface ViewingLocation {
   lat: number;
   lon: number;
   name: string;
   elevation?: number; // meters above sea level
+  surroundingElevation?: number; // median ground height around the viewer (m); see locationEnrichment.ts
   isUrban?: boolean;  // urban vs rural (affects obstruction)
+  urbanClass?: UrbanClass; // urban / suburban / rural; see locationEnrichment.ts
+  lightPollution?: number; // 0-1 local sky brightness (see lightPollution.ts); overrides isUrban
+  horizon?: HorizonProfile | null; // terrain skyline (see terrain.ts); replaces the elevation heuristic
 }
 
 export interface SubScores {
@@ -151,23 +151,35 @@ export interface SubScores {
   plume: number;      // 0-1: plume persistence (RH + winds)
   brightness: number; // 0-1: rocket/phase brightness
   obstruction: number;// 0-1: local obstructions
+  moon: number;       // 0-1: moonlight interference (1 = none)
 }
 
 export interface VisibilityFactors {
   subScores: SubScores;
-  weights: typeof WEIGHTS;
+  weights: VisibilityWeights;
+  tuningVersion: string;
   rawData: {
     cloudFraction: number;
     cloudBase: number | null;
+    cloudLayers: CloudLayers | null;
+    blockingCloudLayer: keyof CloudLayers | null; // layer the sight line is mostly lost in
     solarElevation: number;
+    solarAzimuth: number;
+    sunSeparation: number | null; // degrees from the visible sky track (daytime glare)
+    plumeLighting: PlumeLighting | null; // daytime only
     distanceKm: number;
     bearingDeg: number;
+    launchAzimuth: number;
     surfaceVisibilityKm: number;
     aqi: number | null;
     upperWindSpeed: number | null;
     upperHumidity: number | null;
     rocketType: string;
     obstructionFactor: number;
+    terrainBlockedFraction: number | null; // share of the above-horizon ascent hidden by terrain
+    moonIllumination: number;    // 0-1
+    moonAltitude: number;        // degrees
+    moonSeparation: number | null; // degrees from the visible sky track
   };
 }
 
@@ -201,64 +213,10 @@ export interface VisibilityResult {
     bearing: number;
   };
   fatalBlocker: string | null;
-}
-
-// ============================================================================
-// SOLAR POSITION CALCULATIONS
-// ============================================================================
-
-/**
- * Calculate solar elevation angle at a given location and time
- * Returns elevation in degrees (-90 to +90)
- */
-export function calculateSolarElevation(
-  lat: number,
-  lon: number,
-  timestamp: number
-): number {
-  // Julian day calculation
-  const JD = timestamp / 86400 + 2440587.5;
-  const n = JD - 2451545.0;
-
-  // Mean solar longitude
-  const L = (280.460 + 0.9856474 * n) % 360;
-
-  // Mean anomaly
-  const g = ((357.528 + 0.9856003 * n) % 360) * Math.PI / 180;
-
-  // Ecliptic longitude
-  const lambda = (L + 1.915 * Math.sin(g) + 0.020 * Math.sin(2 * g)) * Math.PI / 180;
-
-  // Obliquity of ecliptic
-  const epsilon = (23.439 - 0.0000004 * n) * Math.PI / 180;
-
-  // Right ascension and declination
-  const declination = Math.asin(Math.sin(epsilon) * Math.sin(lambda));
-
-  // Hour angle
-  const LST = (280.46061837 + 360.98564736629 * (JD - 2451545.0) + lon) % 360;
-  const RA = Math.atan2(Math.cos(epsilon) * Math.sin(lambda), Math.cos(lambda)) * 180 / Math.PI;
-  const HA = (LST - RA) * Math.PI / 180;
-
-  // Solar elevation
-  const latRad = lat * Math.PI / 180;
-  const elevation = Math.asin(
-    Math.sin(latRad) * Math.sin(declination) +
-    Math.cos(latRad) * Math.cos(declination) * Math.cos(HA)
-  ) * 180 / Math.PI;
-
-  return elevation;
-}
-
-/**
- * Get twilight type based on solar elevation
- */
-function getTwilightType(solarElevation: number): string {
-  if (solarElevation > 0) return "day";
-  if (solarElevation > -6) return "civil";
-  if (solarElevation > -12) return "nautical";
-  if (solarElevation > -18) return "astronomical";
-  return "night";
+  skyTrack: SkyTrack;
+  jellyfish: JellyfishResult;
+  azimuth: AzimuthResolution;
+  model: { id: string; version: string }; // formula that produced the score
 }
 
 // ============================================================================
@@ -373,7 +331,7 @@ function calculateCloudScore(
  * Sources: Wikipedia "Twilight phenomenon", SAOCOM-1A observation reports,
  *   The Planetary Society launch viewing guides, SpaceArchive.info
  */
-function calculateSunScore(solarElevation: number): number {
+function getLightingBandScore(solarElevation: number): number {
   // Optimal: nautical twilight (-6 to -12 degrees)
   // "Sweet spot" - observer in full darkness, rocket plume brilliantly solar-illuminated
   // Produces the famous "space jellyfish" effect. Documented to enable 500+ mile sightings.
@@ -424,6 +382,37 @@ function calculateSunScore(solarElevation: number): number {
   return 0.05;
 }
 
+/**
+ * SunScore: lighting band adjusted by the Earth-shadow prediction
+ * The twilight bands assume the plume is sunlit. When the shadow model says it
+ * stays in darkness while above the horizon, twilight scores fall halfway toward
+ * the night score; a sunlit plume in full night lifts the night score.
+ * (Sky brightness is already in the band, so this takes plume illumination only.)
+ * In daylight the band is scaled by the glare factor: down near the Sun, up when
+ * the plume is front-lit.
+ */
+function calculateSunScore(
+  solarElevation: number,
+  plumeSunlitFactor: number | null = null,
+  glareFactor: number = 1
+): number {
+  const bandScore = getLightingBandScore(solarElevation);
+  if (solarElevation > 0) {
+    return Math.min(1, bandScore * glareFactor);
+  }
+  if (plumeSunlitFactor === null) {
+    return bandScore;
+  }
+
+  const nightScore = getLightingBandScore(-90);
+  if (solarElevation < -18) {
+    return Math.min(0.85, nightScore + 0.2 * plumeSunlitFactor);
+  }
+
+  const twilightBonus = Math.max(0, bandScore - nightScore);
+  return nightScore + twilightBonus * (0.5 + 0.5 * plumeSunlitFactor);
+}
+
 /**
  * DistanceScore: Clamp(1 - distance/maxVisibleDistance, 0, 1)
  */
@@ -483,11 +472,14 @@ function calculateBearingScore(
  * visibility >= 40km -> 1
  * visibility <= 5km -> 0
  * AQI > 150 -> major reduction
+ * Viewers well above the land around them sit above most of its boundary-layer haze.
+ * (City haze is left to the obstruction score's light pollution.)
  */
 function calculateClarityScore(
   visibilityKm: number,
   aqi: number | null,
-  humidityPenalty: number = 0
+  humidityPenalty: number = 0,
+  userHeightM: number = 0 // meters above the surrounding terrain
 ): number {
   // Base visibility score
   let visScore: number;
@@ -519,6 +511,13 @@ function calculateClarityScore(
     visScore *= (1 - humidityPenalty);
   }
 
+  // Height benefit (above most of the boundary-layer haze)
+  if (userHeightM > 1500) {
+    visScore += 0.1;
+  } else if (userHeightM > 750) {
+    visScore += 0.05;
+  }
+
   return Math.max(0, Math.min(1, visScore));
 }
 
@@ -526,14 +525,16 @@ function calculateClarityScore(
  * PlumeScore: Based on upper-air humidity and winds
  * High RH + low winds -> plume persists longer (higher score)
  * Low RH + high winds -> plume disperses quickly
+ * A sunlit plume (jellyfish) stays visible long after the engine glow fades
  */
 function calculatePlumeScore(
   upperHumidity: number | null,  // % at ~10km altitude
-  upperWindSpeed: number | null  // m/s at ~10km altitude
+  upperWindSpeed: number | null, // m/s at ~10km altitude
+  jellyfishProbability: number = 0
 ): number {
   // Default moderate score if data unavailable
   if (upperHumidity === null && upperWindSpeed === null) {
-    return 0.6;
+    return 0.6 + 0.4 * 0.5 * jellyfishProbability;
   }
 
   let humidityFactor = 0.5;
@@ -565,85 +566,22 @@ function calculatePlumeScore(
     }
   }
 
-  return (humidityFactor + windFactor) / 2;
-}
-
-/**
- * Detect launch azimuth based on mission name and site
- * Returns azimuth in degrees from north
- */
-function detectLaunchAzimuth(missionName: string, site: LaunchSite): number {
-  const nameLower = missionName.toLowerCase();
+  const baseScore = (humidityFactor + windFactor) / 2;
 
-  // Check site-specific mission azimuths first
-  if (nameLower.includes("starlink") && site.missionAzimuths.starlink !== undefined) {
-    return site.missionAzimuths.starlink;
-  }
-
-  if ((nameLower.includes("nrol") || nameLower.includes("usa-")) && site.missionAzimuths.nrol !== undefined) {
-    return site.missionAzimuths.nrol;
-  }
-
-  if (nameLower.includes("transporter") && site.missionAzimuths.sso !== undefined) {
-    return site.missionAzimuths.sso;
-  }
-
-  if ((nameLower.includes("sda ") || nameLower.includes("tranche")) && site.missionAzimuths.sso !== undefined) {
-    return site.missionAzimuths.sso;
-  }
-
-  if ((nameLower.includes("crew") || nameLower.includes("dragon")) && site.missionAzimuths.crew !== undefined) {
-    return site.missionAzimuths.crew;
-  }
-
-  if (nameLower.includes("iss") && site.missionAzimuths.iss !== undefined) {
-    return site.missionAzimuths.iss;
-  }
-
-  if ((nameLower.includes("worldview") || nameLower.includes("planet") ||
-      nameLower.includes("iceye") || nameLower.includes("capella")) && site.missionAzimuths.sso !== undefined) {
-    return site.missionAzimuths.sso;
-  }
-
-  if (nameLower.includes("iridium") && site.missionAzimuths.polar !== undefined) {
-    return site.missionAzimuths.polar;
-  }
-
-  if (nameLower.includes("starship") && site.missionAzimuths.starship !== undefined) {
-    return site.missionAzimuths.starship;
-  }
-
-  // Default to site's default azimuth
-  return site.defaultAzimuth;
+  // Sunlit plume: up to halfway to a perfect score
+  return baseScore + (1 - baseScore) * 0.5 * jellyfishProbability;
 }
 
 /**
  * BrightnessScore: Vehicle type and phase
  * Larger rockets with bigger burns score higher
  */
-function calculateBrightnessScore(missionName: string): { score: number; rocketType: string } {
+function calculateBrightnessScore(vehicle: VehicleSpec, missionName: string): number {
   const nameLower = missionName.toLowerCase();
-
-  // Identify rocket type from mission name
-  let rocketType = "falcon9";
-  let score = 0.85;
-
-  if (nameLower.includes("falcon heavy") || nameLower.includes("fh")) {
-    rocketType = "falconHeavy";
-    score = 0.95;
-  } else if (nameLower.includes("starship")) {
-    rocketType = "starship";
-    score = 1.0;
-  } else if (nameLower.includes("electron") || nameLower.includes("rocket lab")) {
-    rocketType = "smallRocket";
-    score = 0.4;
-  } else if (nameLower.includes("falcon 9") || nameLower.includes("starlink")) {
-    rocketType = "falcon9";
-    score = 0.85;
-  }
+  let score = vehicle.brightness;
 
   // Starlink missions are routine but still visible
-  if (nameLower.includes("starlink")) {
+  if (vehicle.key === "falcon9" && nameLower.includes("starlink")) {
     score = 0.8;
   }
 
@@ -652,44 +590,88 @@ function calculateBrightnessScore(missionName: string): { score: number; rocketT
     score = Math.min(1, score + 0.1);
   }
 
-  return { score, rocketType };
+  return score;
 }
 
 /**
  * ObstructionScore: Local viewing obstructions
  * 1.0 = rural, open view
- * Reduced for urban areas, trees, buildings
+ * Reduced for urban areas, trees, buildings, and terrain in front of the ascent.
+ * With a terrain horizon profile the share of the ascent that clears the skyline
+ * replaces the crude elevation bonus.
  */
 function calculateObstructionScore(
   isUrban: boolean = false,
-  userElevation: number = 0, // meters
-  lightPollutionBase: number = 0
+  userHeightM: number = 0, // meters above the surrounding terrain
+  lightPollutionBase: number = 0,
+  localLightPollution?: number,
+  terrainClearFraction?: number
 ): number {
   let score = 1.0;
 
-  // Urban penalty (buildings, light pollution)
-  if (isUrban) {
+  // Urban penalty (buildings, light pollution) — graded when we have a
+  // sky-brightness estimate for the viewer, all-or-nothing otherwise
+  if (localLightPollution !== undefined) {
+    score -= 0.2 * localLightPollution;
+  } else if (isUrban) {
     score -= 0.2;
   }
 
   // Site-specific light pollution penalty
   score -= lightPollutionBase;
 
-  // Elevation benefit (higher = clearer horizon)
-  if (userElevation > 1000) {
+  // Terrain: scale by how much of the ascent clears the skyline
+  if (terrainClearFraction !== undefined) {
+    return Math.max(0, Math.min(1, score * terrainClearFraction));
+  }
+
+  // Height benefit (higher = clearer horizon)
+  if (userHeightM > 1000) {
     score = Math.min(1, score + 0.1);
-  } else if (userElevation < 100) {
+  } else if (userHeightM < 100) {
     score -= 0.05;
   }
 
   return Math.max(0, Math.min(1, score));
 }
 
+/**
+ * How much of the otherwise-visible ascent the terrain skyline hides, and a
+ * sentence describing where. Null without a horizon profile, or when the
+ * rocket never clears a flat horizon anyway (distance covers that case).
+ */
+function summarizeTerrainBlocking(
+  skyTrack: SkyTrack,
+  horizon: HorizonProfile | null | undefined
+): { blockedFraction: number; compass: string; skyline: number; description: string } | null {
+  if (!horizon) return null;
+
+  const blocked = skyTrack.points.filter((p) => p.terrainBlocked);
+  const clearOfFlatHorizon = blocked.length + skyTrack.points.filter((p) => p.aboveHorizon).length;
+  if (clearOfFlatHorizon === 0) return null;
+
+  const blockedFraction = blocked.length / clearOfFlatHorizon;
+  if (blocked.length === 0) {
+    return { blockedFraction, compass: "", skyline: 0, description: "" };
+  }
+
+  // Describe the skyline where the rocket first disappears behind it
+  const first = blocked[0];
+  const compass = toCompassPoint(first.azimuth);
+  const skyline = Math.round(getHorizonElevation(horizon, first.azimuth) * 10) / 10;
+  const firstVisible = skyTrack.summary.firstVisible;
+  const description = firstVisible && firstVisible.tPlus > first.tPlus
+    ? `Terrain to the ${compass} (skyline ${skyline}°) hides the rocket until ${formatTPlus(firstVisible.tPlus)}`
+    : `Terrain to the ${compass} (skyline ${skyline}°) hides ${Math.round(blockedFraction * 100)}% of the ascent`;
+
+  return { blockedFraction, compass, skyline, description };
+}
+
 // ============================================================================
 // TIME FORMATTING
 // ============================================================================
 
-function formatTime(date: Date, timezone: string = "America/New_York"): string {
+export function formatTime(date: Date, timezone: string = "America/New_York"): string {
   return date.toLocaleTimeString(undefined, {
     hour: "numeric",
     minute: "2-digit",
@@ -711,8 +693,7 @@ function calculateVisibilityWindow(
   const launchDate = new Date(launchTimeUnix * 1000);
 
   // Get rocket-specific timing
-  const timing = VISIBILITY_TIMING[rocketType as keyof typeof VISIBILITY_TIMING]
-    || VISIBILITY_TIMING.default;
+  const timing = getVehicle(rocketType).timing;
 
   const visibilityStart = new Date(launchDate.getTime() + timing.timeToAltitude);
   const visibilityEnd = new Date(visibilityStart.getTime() + timing.totalDuration);
@@ -769,14 +750,14 @@ function getSiteDirectionText(site: LaunchSite): string {
   }
 }
 
-function getSiteSpecificTips(site: LaunchSite, missionName: string): string[] {
+function getSiteSpecificTips(site: LaunchSite, missionName: string, rocketType: string): string[] {
   const tips: string[] = [];
   switch (site.id) {
     case "cape-canaveral":
       tips.push("Florida's humidity can create haze, especially in summer — winter launches tend to be clearer.");
       break;
     case "boca-chica":
-      if (missionName.toLowerCase().includes("starship")) {
+      if (rocketType === "starship") {
         tips.push("Starship's 33 engines produce the largest plume of any active rocket — visible from much farther than Falcon 9.");
       }
       tips.push("Gulf moisture can create haze — spring months usually offer the clearest views.");
@@ -796,15 +777,18 @@ function getSiteSpecificTips(site: LaunchSite, missionName: string): string[] {
 // ============================================================================
 
 export function calculateVisibility(
-  launchTimeUnix: number,
-  missionName: string,
+  launch: VisibilityLaunch,
   weatherLaunchSite: WeatherData | ExtendedWeatherData | null,
   weatherViewing: WeatherData | ExtendedWeatherData | null,
   viewingLocation?: ViewingLocation,
-  siteId?: string
+  tuning: TuningProfile = DEFAULT_TUNING_PROFILE
 ): VisibilityResult {
+  const weights = tuning.weights;
+  const launchTimeUnix = launch.date_unix;
+  const missionName = launch.name;
+
   // Resolve launch site
-  const site = getLaunchSite(siteId || "vandenberg")!;
+  const site = getLaunchSite(launch.siteId || "vandenberg")!;
 
   // Default viewing location (launch site itself if none set)
   const viewer: ViewingLocation = viewingLocation || {
@@ -826,13 +810,15 @@ export function calculateVisibility(
   );
 
   // Calculate solar position at viewer's location at launch time
-  const solarElevation = calculateSolarElevation(viewer.lat, viewer.lon, launchTimeUnix);
+  const { elevation: solarElevation, azimuth: solarAzimuth } =
+    calculateSolarPosition(viewer.lat, viewer.lon, launchTimeUnix);
 
-  // Determine rocket type
-  const { score: brightnessScore, rocketType } = calculateBrightnessScore(missionName);
+  // Identify the vehicle from the LL2 rocket configuration
+  const vehicle = identifyVehicle(launch.rocket?.configuration, missionName, site.defaultVehicle);
+  const rocketType = vehicle.key;
+  const brightnessScore = calculateBrightnessScore(vehicle, missionName);
 
   // Determine lighting condition and get appropriate max visible distance
-  type RocketType = "falcon9" | "falconHeavy" | "starship" | "smallRocket" | "default";
   let lightingCondition: "twilight" | "night" | "day";
   if (solarElevation <= 0 && solarElevation >= -18) {
     lightingCondition = "twilight";
@@ -842,8 +828,39 @@ export function calculateVisibility(
     lightingCondition = "day";
   }
 
-  const distanceTable = VISIBILITY_CONFIG.maxVisibleDistance[lightingCondition];
-  const maxVisibleDistance = distanceTable[rocketType as RocketType] || distanceTable.default;
+  // How far the plume is bright enough to see in this lighting; whether it clears the
+  // viewer's horizon at all comes from the sky track
+  const maxVisibleDistance =
+    (tuning.maxVisibleDistance[vehicle.key] ?? vehicle.maxVisibleDistance)[lightingCondition];
+
+  // Resolve launch azimuth from the target orbit, falling back to mission keywords
+  const azimuth = resolveLaunchAzimuth(
+    site,
+    missionName,
+    launch.mission?.orbit,
+    launch.mission?.description
+  );
+  const launchAzimuth = azimuth.azimuth;
+
+  // Mission trajectory and where the rocket appears in the viewer's sky,
+  // from liftoff to the end of the viewing window
+  const timing = vehicle.timing;
+  const trajectory = getSiteTrajectory(
+    site,
+    launchAzimuth,
+    vehicle.ascentProfile ?? site.defaultVehicle,
+    Math.round((timing.timeToAltitude + timing.totalDuration) / 1000)
+  );
+  const skyTrack = computeSkyTrack(trajectory, viewer);
+
+  // Height above the land around the viewer, not above sea level: a high plain is level ground
+  const viewerHeightM = getObserverHeightAboveTerrain(viewer);
+
+  // Is the plume sunlit while the viewer's sky is dark?
+  const jellyfish = calculateJellyfish(skyTrack, viewer, launchTimeUnix);
+
+  // In daylight: how close the rocket passes to the Sun, and which side of the plume is lit
+  const sunGlare = calculateSunGlareFactor(skyTrack, viewer.lat, viewer.lon, launchTimeUnix);
 
   // Extract weather data with fallbacks
   const cloudFraction = weatherViewing?.clouds ?? 50;
@@ -854,22 +871,37 @@ export function calculateVisibility(
   const upperWindSpeed = extendedWeather?.upperWindSpeed ?? null;
   const upperHumidity = extendedWeather?.upperHumidity ?? null;
 
-  // Calculate all sub-scores
-  // Detect launch azimuth based on mission type and site
-  const launchAzimuth = detectLaunchAzimuth(missionName, site);
+  // Cloud: per-layer line of sight along the sky track when the forecast has
+  // layer cover, total cover and cloud base otherwise
+  const cloudLayers = extendedWeather?.cloudLayers ?? null;
+  const lineOfSight = cloudLayers ? calculateCloudLineOfSight(cloudLayers, cloudBase, skyTrack) : null;
 
-  const cloudResult = calculateCloudScore(cloudFraction, cloudBase);
-  const sunScore = calculateSunScore(solarElevation);
+  // Calculate all sub-scores
+  const cloudResult = lineOfSight ?? calculateCloudScore(cloudFraction, cloudBase);
+  const sunScore = calculateSunScore(solarElevation, jellyfish.plumeSunlitFactor, sunGlare.factor);
   const distanceScore = calculateDistanceScore(distanceKm, maxVisibleDistance);
   const bearingScore = calculateBearingScore(bearingToLaunchSite, launchAzimuth);
-  const clarityScore = calculateClarityScore(surfaceVisibilityKm, aqi, site.visibilityModifiers.humidityPenalty);
-  const plumeScore = calculatePlumeScore(upperHumidity, upperWindSpeed);
+  const clarityScore = calculateClarityScore(
+    surfaceVisibilityKm,
+    aqi,
+    site.visibilityModifiers.humidityPenalty,
+    viewerHeightM
+  );
+  const plumeScore = calculatePlumeScore(upperHumidity, upperWindSpeed, jellyfish.probability);
+  // Terrain: how much of the ascent that clears a flat horizon is hidden behind the skyline
+  const terrain = summarizeTerrainBlocking(skyTrack, viewer.horizon);
+
   const obstructionScore = calculateObstructionScore(
     viewer.isUrban,
-    viewer.elevation,
-    site.visibilityModifiers.lightPollutionBase
+    viewerHeightM,
+    site.visibilityModifiers.lightPollutionBase,
+    viewer.lightPollution,
+    terrain ? 1 - terrain.blockedFraction : undefined
   );
 
+  // Moonlight near the rocket's path
+  const moonFactor = calculateMoonFactor(skyTrack, viewer.lat, viewer.lon, launchTimeUnix, solarElevation);
+
   const subScores: SubScores = {
     cloud: cloudResult.score,
     sun: sunScore,
@@ -879,12 +911,19 @@ export function calculateVisibility(
     plume: plumeScore,
     brightness: brightnessScore,
     obstruction: obstructionScore,
+    moon: moonFactor.score,
   };
 
   // Check for fatal blockers
   let fatalBlocker: string | null = null;
   if (cloudResult.isFatal) {
-    fatalBlocker = "Heavy cloud cover is likely blocking the view. Conditions can change quickly — worth checking again closer to launch.";
+    fatalBlocker = lineOfSight?.reason
+      ? `${lineOfSight.reason} and is likely blocking the view. Conditions can change quickly — worth checking again closer to launch.`
+      : "Heavy cloud cover is likely blocking the view. Conditions can change quickly — worth checking again closer to launch.";
+  } else if (!skyTrack.summary.firstVisible && skyTrack.summary.terrainBlockedSeconds === 0) {
+    // No point of the ascent clears even a flat horizon (terrain is handled below)
+    const distMi = Math.round(distanceKm * 0.621371);
+    fatalBlocker = `At ${distMi} miles, the rocket never climbs above your horizon — the curve of the Earth hides the whole ascent from here. Higher ground extends that range.`;
   } else if (distanceScore === 0 && distanceKm > maxVisibleDistance) {
     const distMi = Math.round(distanceKm * 0.621371);
     const maxMi = Math.round(maxVisibleDistance * 0.621371);
@@ -895,7 +934,10 @@ export function calculateVisibility(
     } else {
       fatalBlocker = `At ${distMi} miles, daytime launches are very hard to see — the bright sky washes out the exhaust plume. Twilight launches (30-60 min after sunset) are visible from much farther.`;
     }
-  } else if (sunScore < 0.1) {
+  } else if (terrain && terrain.blockedFraction >= 1) {
+    fatalBlocker = `Terrain to the ${terrain.compass} (skyline ${terrain.skyline}°) blocks your view of the whole ascent. A spot with a lower skyline in that direction would open up the view.`;
+  } else if (getLightingBandScore(solarElevation) < 0.1) {
+    // The Sun's height alone; glare near the Sun is listed as a limiting factor instead
     fatalBlocker = "Midday launches are very hard to see — the bright sky washes out the exhaust plume. Twilight launches (30-60 min after sunset) are visible from much farther.";
   }
 
@@ -903,34 +945,30 @@ export function calculateVisibility(
   let weightedScore = 0;
   if (!fatalBlocker) {
     weightedScore =
-      subScores.cloud * WEIGHTS.cloud +
-      subScores.sun * WEIGHTS.sun +
-      subScores.distance * WEIGHTS.distance +
-      subScores.bearing * WEIGHTS.bearing +
-      subScores.clarity * WEIGHTS.clarity +
-      subScores.plume * WEIGHTS.plume +
-      subScores.brightness * WEIGHTS.brightness +
-      subScores.obstruction * WEIGHTS.obstruction;
+      subScores.cloud * weights.cloud +
+      subScores.sun * weights.sun +
+      subScores.distance * weights.distance +
+      subScores.bearing * weights.bearing +
+      subScores.clarity * weights.clarity +
+      subScores.plume * weights.plume +
+      subScores.brightness * weights.brightness +
+      subScores.obstruction * weights.obstruction +
+      subScores.moon * weights.moon;
   }
 
   const percentage = Math.round(weightedScore * 100);
 
-  // Determine rating
-  let rating: VisibilityResult["rating"];
-  if (percentage >= 75) rating = "excellent";
-  else if (percentage >= 50) rating = "good";
-  else if (percentage >= 30) rating = "fair";
-  else rating = "poor";
+  const rating = getVisibilityRating(percentage);
 
   // Identify limiting factors (sorted by impact)
   const limitingFactors: LimitingFactor[] = [];
 
   const scoredFactors = [
-    { name: "cloud", score: subScores.cloud, weight: WEIGHTS.cloud },
-    { name: "sun", score: subScores.sun, weight: WEIGHTS.sun },
-    { name: "distance", score: subScores.distance, weight: WEIGHTS.distance },
-    { name: "clarity", score: subScores.clarity, weight: WEIGHTS.clarity },
-    { name: "plume", score: subScores.plume, weight: WEIGHTS.plume },
+    { name: "cloud", score: subScores.cloud, weight: weights.cloud },
+    { name: "sun", score: subScores.sun, weight: weights.sun },
+    { name: "distance", score: subScores.distance, weight: weights.distance },
+    { name: "clarity", score: subScores.clarity, weight: weights.clarity },
+    { name: "plume", score: subScores.plume, weight: weights.plume },
   ].sort((a, b) => (a.score * a.weight) - (b.score * b.weight));
 
   // Add top 2 limiting factors with conversational descriptions
@@ -938,7 +976,7 @@ export function calculateVisibility(
     if (factor.score < 0.5) {
       const twilightType = getTwilightType(solarElevation);
       const descriptions: Record<string, string> = {
-        cloud: `${Math.round(cloudFraction)}% cloud cover may block your view`,
+        cloud: lineOfSight?.reason ?? `${Math.round(cloudFraction)}% cloud cover may block your view`,
         sun: twilightType === "day"
           ? "Bright sky makes the exhaust plume hard to see"
           : `${twilightType} lighting reduces how far the plume is visible`,
@@ -954,10 +992,36 @@ export function calculateVisibility(
     }
   }
 
-  if (cloudResult.reason && !cloudResult.isFatal) {
+  if (moonFactor.description) {
+    limitingFactors.push({
+      factor: "moon",
+      description: moonFactor.description,
+      severity: moonFactor.score < 0.4 ? "major" : "minor",
+    });
+  }
+
+  if (sunGlare.description) {
+    limitingFactors.push({
+      factor: "glare",
+      description: sunGlare.description,
+      severity: sunGlare.factor < 0.6 ? "major" : "minor",
+    });
+  }
+
+  if (terrain && terrain.blockedFraction >= TERRAIN_LIMITING_FRACTION) {
+    limitingFactors.push({
+      factor: "terrain",
+      description: terrain.description,
+      severity: terrain.blockedFraction >= 0.5 ? "major" : "minor",
+    });
+  }
+
+  // Layer-specific reasons are already listed above when cloud made the top two
+  const cloudListed = limitingFactors.some((f) => f.factor === "cloud");
+  if (cloudResult.reason && !cloudResult.isFatal && !(lineOfSight && cloudListed)) {
     limitingFactors.unshift({
       factor: "cloud",
-      description: "Low clouds could block the view — check the forecast closer to launch",
+      description: lineOfSight?.reason ?? "Low clouds could block the view — check the forecast closer to launch",
       severity: subScores.cloud < 0.3 ? "major" : "minor",
     });
   }
@@ -980,6 +1044,19 @@ export function calculateVisibility(
     recommendations.push("Daytime launches are tough to spot — the bright sky washes out the plume. Twilight launches (30-60 min after sunset) are visible from much farther.");
   }
 
+  // Where to look, from the sky track
+  if (skyTrack.summary.guidance) {
+    recommendations.push(skyTrack.summary.guidance);
+  }
+
+  if (jellyfish.description) {
+    recommendations.push(jellyfish.description);
+  }
+
+  if (azimuth.dogLeg) {
+    recommendations.push(`${azimuth.detail}.`);
+  }
+
   // Cloud recommendations
   if (subScores.cloud < 0.5) {
     recommendations.push("Clouds could be an issue — check the forecast closer to launch and look for gaps in the sky.");
@@ -1001,7 +1078,7 @@ export function calculateVisibility(
   }
 
   // Site-specific tips
-  const siteTips = getSiteSpecificTips(site, missionName);
+  const siteTips = getSiteSpecificTips(site, missionName, rocketType);
   recommendations.push(...siteTips);
 
   if (recommendations.length === 0) {
@@ -1024,19 +1101,32 @@ export function calculateVisibility(
   // Build result
   const factors: VisibilityFactors = {
     subScores,
-    weights: WEIGHTS,
+    weights,
+    tuningVersion: tuning.version,
     rawData: {
       cloudFraction,
       cloudBase,
+      cloudLayers,
+      blockingCloudLayer: lineOfSight?.blockingLayer ?? null,
       solarElevation,
+      solarAzimuth: Math.round(solarAzimuth),
+      sunSeparation: sunGlare.separationDeg !== null && sunGlare.lighting !== null
+        ? Math.round(sunGlare.separationDeg)
+        : null,
+      plumeLighting: sunGlare.lighting,
       distanceKm,
       bearingDeg: bearingToLaunchSite,
+      launchAzimuth,
       surfaceVisibilityKm,
       aqi,
       upperWindSpeed,
       upperHumidity,
       rocketType,
       obstructionFactor: 1 - obstructionScore,
+      terrainBlockedFraction: terrain ? Math.round(terrain.blockedFraction * 100) / 100 : null,
+      moonIllumination: Math.round(moonFactor.moon.illumination * 100) / 100,
+      moonAltitude: Math.round(moonFactor.moon.altitude * 10) / 10,
+      moonSeparation: moonFactor.separationDeg !== null ? Math.round(moonFactor.separationDeg) : null,
     },
   };
 
@@ -1062,6 +1152,10 @@ export function calculateVisibility(
       bearing: Math.round(bearingToLaunchSite),
     },
     fatalBlocker,
+    skyTrack,
+    jellyfish,
+    azimuth,
+    model: { ...WEIGHTED_MODEL },
   };
 }
 
@@ -1069,6 +1163,16 @@ export function calculateVisibility(
 // UTILITY EXPORTS
 // ============================================================================
 
+/**
+ * Rating tier for a visibility percentage
+ */
+export function getVisibilityRating(percentage: number): VisibilityResult["rating"] {
+  if (percentage >= 75) return "excellent";
+  if (percentage >= 50) return "good";
+  if (percentage >= 30) return "fair";
+  return "poor";
+}
+
 export function getVisibilityColor(percentage: number): string {
   if (percentage >= 75) return "#00FF41"; // Green
   if (percentage >= 50) return "#FFB800"; // Yellow
@@ -0,0 +1,84 @@
+// Probabilistic visibility: the scoring model run once per ensemble weather member
+//
+// Instead of a fixed ± band around one score, the spread of member scores is the
+// uncertainty: a clear-sky forecast 6 hours out has members that all agree (tight band),
+// while a marginal forecast days out scatters them from "overcast" to "clear" (wide band).
+// Member weather comes from weatherEnsemble.ts.
+
+import {
+  type TuningProfile,
+  type ViewingLocation,
+  type VisibilityLaunch,
+  type VisibilityResult,
+} from "./visibility";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import { getVisibilityModel, type VisibilityModel } from "./visibilityModels";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface VisibilityDistribution {
+  members: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  probabilityGood: number; // 0-1, share of members rated "good" or "excellent"
+  ratings: Record<VisibilityResult["rating"], number>; // member count per rating
+}
+
+// ============================================================================
+// DISTRIBUTION
+// ============================================================================
+
+/**
+ * Percentile of a sorted list, linearly interpolated
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Score every ensemble member and summarise the spread.
+ * Launch-site and viewing members are paired by index (same model run) and scored
+ * with the given visibility model (the default one unless given).
+ * Returns null without any viewing members.
+ */
+export function calculateVisibilityDistribution(
+  launch: VisibilityLaunch,
+  launchSiteMembers: (WeatherData | ExtendedWeatherData | null)[],
+  viewingMembers: (WeatherData | ExtendedWeatherData | null)[],
+  viewingLocation?: ViewingLocation,
+  tuning?: TuningProfile,
+  model: VisibilityModel = getVisibilityModel()!
+): VisibilityDistribution | null {
+  if (viewingMembers.length === 0) return null;
+
+  const ratings: VisibilityDistribution["ratings"] = { poor: 0, fair: 0, good: 0, excellent: 0 };
+  const scores = viewingMembers.map((viewing, i) => {
+    const launchSite = launchSiteMembers.length > 0
+      ? launchSiteMembers[i % launchSiteMembers.length]
+      : null;
+    const result = model.calculate(launch, launchSite, viewing, viewingLocation, tuning);
+    ratings[result.rating]++;
+    return result.percentage;
+  });
+
+  const sorted = [...scores].sort((a, b) => a - b);
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+
+  return {
+    members: scores.length,
+    p10: Math.round(percentile(sorted, 10)),
+    p50: Math.round(percentile(sorted, 50)),
+    p90: Math.round(percentile(sorted, 90)),
+    mean: Math.round(mean),
+    probabilityGood: Math.round(((ratings.good + ratings.excellent) / scores.length) * 100) / 100,
+    ratings,
+  };
+}
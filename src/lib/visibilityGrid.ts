@@ -0,0 +1,197 @@
+// Visibility heatmap: the full scoring model evaluated over a lat/lon grid around a site
+//
+// Answers "how far inland do I need to drive?" — instead of one radius circle, every grid
+// cell gets its own score from its own geometry (distance, sky track, Earth shadow) and
+// its own weather. Weather is coarsened to WEATHER_CELL_DEG blocks so a grid costs a handful
+// of batched forecast calls rather than one per cell.
+//
+// Output is a compact raster: row-major percentages, row 0 at the southern edge.
+
+import type { TuningProfile, VisibilityLaunch } from "./visibility";
+import { getVisibilityModel, type VisibilityModel } from "./visibilityModels";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import { getVehicle } from "./vehicles";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+// Finest grid spacing; larger areas get coarser cells to stay under MAX_GRID_CELLS_PER_SIDE
+const MIN_CELL_KM = 40;
+const MAX_GRID_CELLS_PER_SIDE = 30;
+
+// Weather blocks in degrees (~200km): cloud decks are larger than that, and it keeps
+// a 1500km Starship grid to a couple of hundred forecast points
+export const WEATHER_CELL_DEG = 2;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface GridBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface GridCell {
+  row: number;
+  col: number;
+  lat: number;
+  lon: number;
+}
+
+export interface GridLayout {
+  bounds: GridBounds;
+  rows: number;
+  cols: number;
+  cellKm: number;
+  latStep: number;   // degrees per row
+  lonStep: number;   // degrees per column
+  cells: GridCell[]; // only cells inside the radius
+}
+
+export interface VisibilityGrid {
+  bounds: GridBounds;
+  rows: number;
+  cols: number;
+  cellKm: number;
+  values: (number | null)[]; // percentage per cell, null outside the evaluated radius
+  max: number;
+}
+
+// ============================================================================
+// GRID GEOMETRY
+// ============================================================================
+
+/**
+ * Lay out a square grid centred on a point, keeping only cells within the radius
+ */
+export function buildGridLayout(
+  centerLat: number,
+  centerLon: number,
+  radiusKm: number,
+  minCellKm: number = MIN_CELL_KM,
+  maxCellsPerSide: number = MAX_GRID_CELLS_PER_SIDE
+): GridLayout {
+  const cellKm = Math.max(minCellKm, (2 * radiusKm) / maxCellsPerSide);
+  const cellsPerSide = Math.ceil((2 * radiusKm) / cellKm - 1e-9);
+
+  const latStep = (cellKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lonStep = latStep / Math.max(0.1, Math.cos(centerLat * Math.PI / 180));
+
+  const south = centerLat - (cellsPerSide / 2) * latStep;
+  const west = centerLon - (cellsPerSide / 2) * lonStep;
+
+  const cells: GridCell[] = [];
+  for (let row = 0; row < cellsPerSide; row++) {
+    for (let col = 0; col < cellsPerSide; col++) {
+      const lat = south + (row + 0.5) * latStep;
+      const lon = west + (col + 0.5) * lonStep;
+      if (haversineKm(centerLat, centerLon, lat, lon) <= radiusKm) {
+        cells.push({ row, col, lat, lon });
+      }
+    }
+  }
+
+  return {
+    bounds: {
+      south,
+      west,
+      north: south + cellsPerSide * latStep,
+      east: west + cellsPerSide * lonStep,
+    },
+    rows: cellsPerSide,
+    cols: cellsPerSide,
+    cellKm,
+    latStep,
+    lonStep,
+    cells,
+  };
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Centre of the weather block a point falls in
+ */
+export function getWeatherCell(lat: number, lon: number): { lat: number; lon: number; key: string } {
+  const snap = (v: number) => (Math.floor(v / WEATHER_CELL_DEG) + 0.5) * WEATHER_CELL_DEG;
+  const cellLat = snap(lat);
+  const cellLon = snap(lon);
+  return { lat: cellLat, lon: cellLon, key: `${cellLat},${cellLon}` };
+}
+
+/**
+ * Distinct weather blocks needed to cover a set of points
+ */
+export function getWeatherCells(points: Array<{ lat: number; lon: number }>): Array<{ lat: number; lon: number; key: string }> {
+  const cells = new Map<string, { lat: number; lon: number; key: string }>();
+  for (const point of points) {
+    const cell = getWeatherCell(point.lat, point.lon);
+    cells.set(cell.key, cell);
+  }
+  return [...cells.values()];
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Score every cell in the layout with the given visibility model (the default one unless given)
+ */
+export function evaluateVisibilityGrid(
+  launch: VisibilityLaunch,
+  layout: GridLayout,
+  launchSiteWeather: WeatherData | ExtendedWeatherData | null,
+  getCellWeather: (lat: number, lon: number) => WeatherData | ExtendedWeatherData | null,
+  tuning?: TuningProfile,
+  model: VisibilityModel = getVisibilityModel()!
+): VisibilityGrid {
+  const values: (number | null)[] = new Array(layout.rows * layout.cols).fill(null);
+  let max = 0;
+
+  for (const cell of layout.cells) {
+    const result = model.calculate(
+      launch,
+      launchSiteWeather,
+      getCellWeather(cell.lat, cell.lon),
+      { lat: cell.lat, lon: cell.lon, name: `${cell.lat.toFixed(2)}, ${cell.lon.toFixed(2)}` },
+      tuning
+    );
+    values[cell.row * layout.cols + cell.col] = result.percentage;
+    max = Math.max(max, result.percentage);
+  }
+
+  return {
+    bounds: layout.bounds,
+    rows: layout.rows,
+    cols: layout.cols,
+    cellKm: Math.round(layout.cellKm),
+    values,
+    max,
+  };
+}
+
+/**
+ * Grid radius for a vehicle: a little past its best-case (twilight) visible range,
+ * so the heatmap fades out instead of being clipped. Lighting varies across the grid,
+ * so the twilight range is used even when the site itself is in daylight. The tuning
+ * profile's distance tables replace the catalog ones, as in the scores.
+ */
+export function getGridRadiusKm(rocketType: string, tuning?: TuningProfile): number {
+  const vehicle = getVehicle(rocketType);
+  const table = tuning?.maxVisibleDistance[vehicle.key] ?? vehicle.maxVisibleDistance;
+  return Math.round(table.twilight * 1.1);
+}
@@ -0,0 +1,123 @@
+// Visibility scoring models: versioned formulas behind one interface
+//
+// New scoring ideas are registered here next to the production formula instead of
+// replacing it, so they can be compared on the same inputs (/api/visibility?mode=compare)
+// and chosen per request (model=) before they become the default. Every result carries
+// the id and version of the model that produced it, and prediction snapshots store it,
+// so calibration metrics can be traced back to a formula.
+//
+// The alternative models reuse the weighted model's factor calculations (sub-scores, sky
+// track, explanations) and change how the factors turn into a percentage.
+
+import {
+  calculateVisibility,
+  getVisibilityRating,
+  WEIGHTED_MODEL,
+  type SubScores,
+  type TuningProfile,
+  type ViewingLocation,
+  type VisibilityLaunch,
+  type VisibilityResult,
+} from "./visibility";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface VisibilityModel {
+  id: string;
+  version: string;
+  description: string;
+  calculate: (
+    launch: VisibilityLaunch,
+    weatherLaunchSite: WeatherData | ExtendedWeatherData | null,
+    weatherViewing: WeatherData | ExtendedWeatherData | null,
+    viewingLocation?: ViewingLocation,
+    tuning?: TuningProfile
+  ) => VisibilityResult;
+}
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/**
+ * Re-score a weighted-model result with another model's percentage,
+ * keeping its confidence band width
+ */
+function rescore(
+  result: VisibilityResult,
+  percentage: number,
+  model: Pick<VisibilityModel, "id" | "version">
+): VisibilityResult {
+  const band = Math.max(result.confidence.high - result.percentage, result.percentage - result.confidence.low);
+  return {
+    ...result,
+    percentage,
+    rating: result.fatalBlocker ? "poor" : getVisibilityRating(percentage),
+    confidence: {
+      low: Math.max(0, percentage - band),
+      high: Math.min(100, percentage + band),
+    },
+    model: { id: model.id, version: model.version },
+  };
+}
+
+// The production formula: weighted sum of the sub-scores
+const weightedModel: VisibilityModel = {
+  ...WEIGHTED_MODEL,
+  description: "Weighted sum of cloud, lighting, distance and six secondary factors",
+  calculate: calculateVisibility,
+};
+
+// Factors that set how good a view is once clouds and lighting allow one
+const SECONDARY_FACTORS: Array<keyof SubScores> = [
+  "distance", "bearing", "clarity", "plume", "brightness", "obstruction", "moon",
+];
+
+// Clouds and lighting as gates: either one alone can rule a launch out, which a
+// weighted sum only approximates (100% cloud still leaves 65% of the weight)
+const gatedModel: VisibilityModel = {
+  id: "gated",
+  version: "1.3",
+  description: "Cloud and lighting multiply the score; the other factors scale it by up to half",
+  calculate(launch, weatherLaunchSite, weatherViewing, viewingLocation, tuning) {
+    const result = calculateVisibility(launch, weatherLaunchSite, weatherViewing, viewingLocation, tuning);
+    if (result.fatalBlocker) return rescore(result, result.percentage, gatedModel);
+
+    const { subScores, weights } = result.factors;
+    const secondaryWeight = SECONDARY_FACTORS.reduce((sum, f) => sum + weights[f], 0);
+    const secondary = SECONDARY_FACTORS.reduce((sum, f) => sum + subScores[f] * weights[f], 0) / secondaryWeight;
+
+    const score = subScores.cloud * subScores.sun * (0.5 + 0.5 * secondary);
+    return rescore(result, Math.round(score * 100), gatedModel);
+  },
+};
+
+// Reference point: the weighted formula with no forecast (50% cloud assumed), i.e. what
+// geometry and lighting alone predict. Any model should beat it on sighting reports.
+const noForecastModel: VisibilityModel = {
+  id: "no-forecast",
+  version: "1.3",
+  description: "Weighted formula ignoring the weather forecast — a baseline for comparisons",
+  calculate(launch, _weatherLaunchSite, _weatherViewing, viewingLocation, tuning) {
+    const result = calculateVisibility(launch, null, null, viewingLocation, tuning);
+    return rescore(result, result.percentage, noForecastModel);
+  },
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const VISIBILITY_MODELS: VisibilityModel[] = [weightedModel, gatedModel, noForecastModel];
+
+export const DEFAULT_MODEL_ID = weightedModel.id;
+
+/**
+ * Model by id (the default when no id is given). Returns null for an unknown id.
+ */
+export function getVisibilityModel(id?: string | null): VisibilityModel | null {
+  return VISIBILITY_MODELS.find((m) => m.id === (id || DEFAULT_MODEL_ID)) ?? null;
+}
@@ -1,10 +1,8 @@
 // Pure utility functions for computing visibility radius on the client side.
 // No API calls — safe to import in "use client" components.
 
-import { VISIBILITY_CONFIG } from "./visibility";
-
-type LightingCondition = "twilight" | "night" | "day";
-type RocketType = "falcon9" | "falconHeavy" | "starship" | "smallRocket" | "default";
+import { getVehicle, identifyVehicle, type LightingCondition, type RocketConfiguration, type VehicleKey } from "./vehicles";
+import type { TuningProfile } from "./visibility";
 
 /**
  * Determine the lighting condition from a solar elevation angle (degrees).
@@ -28,26 +26,29 @@ export function getLightingLabel(condition: LightingCondition): string {
 }
 
 /**
- * Detect the rocket type key from a mission name string.
- * Same heuristics as calculateBrightnessScore() in visibility.ts.
+ * Detect the rocket type key for a launch from its LL2 rocket configuration.
+ * Same vehicle catalog lookup as calculateVisibility(); pass the launch site's
+ * defaultVehicle as the fallback to match it for unrecognised vehicles.
  */
-export function detectRocketType(missionName: string): RocketType {
-  const n = missionName.toLowerCase();
-  if (n.includes("falcon heavy") || n.includes("fh")) return "falconHeavy";
-  if (n.includes("starship")) return "starship";
-  if (n.includes("electron") || n.includes("rocket lab")) return "smallRocket";
-  return "falcon9";
+export function detectRocketType(
+  missionName: string,
+  configuration?: RocketConfiguration | null,
+  fallback?: VehicleKey
+): VehicleKey {
+  return identifyVehicle(configuration, missionName, fallback).key;
 }
 
 /**
  * Look up the maximum visible distance (km) for a given solar elevation
- * and rocket type. This is the radius to draw on the map.
+ * and rocket type. This is the radius to draw on the map. Pass the active tuning
+ * profile's distance tables (returned by /api/visibility/grid) to match the scores.
  */
 export function getMaxVisibleRadiusKm(
   solarElevation: number,
   rocketType: string,
+  distanceTables?: TuningProfile["maxVisibleDistance"],
 ): number {
   const condition = getLightingCondition(solarElevation);
-  const table = VISIBILITY_CONFIG.maxVisibleDistance[condition];
-  return (table[rocketType as RocketType] ?? table.default);
+  const vehicle = getVehicle(rocketType);
+  return (distanceTables?.[vehicle.key] ?? vehicle.maxVisibleDistance)[condition];
 }
@@ -48,10 +48,18 @@ export interface WeatherData {
   timestamp: number;
 }
 
+// Cloud cover per altitude band (Open-Meteo / WMO definitions)
+export interface CloudLayers {
+  low: number;  // 0-100%, surface to ~2km (stratus, stratocumulus, marine layer)
+  mid: number;  // 0-100%, ~2-6km (altostratus, altocumulus)
+  high: number; // 0-100%, above ~6km (cirrus)
+}
+
 // Extended weather data for advanced visibility calculations
 export interface ExtendedWeatherData extends WeatherData {
   cloudBase: number | null;      // Cloud base altitude in meters
   cloudCeiling: number | null;   // Cloud ceiling in meters
+  cloudLayers: CloudLayers | null;
   surfaceVisibility: number;     // Surface visibility in km
   aqi: number | null;            // Air Quality Index (0-500)
   pm25: number | null;           // PM2.5 concentration
@@ -166,6 +174,99 @@ const WEATHER_CODES: Record<number, { description: string; icon: string }> = {
   99: { description: "Thunderstorm with heavy hail", icon: "11d" },
 };
 
+// Hourly forecast response from Open-Meteo (fields as requested in the forecast calls)
+// The ensemble API has no daily block.
+export interface OpenMeteoForecast {
+  hourly: Record<string, number[]> & { time: (string | number)[] };
+  daily?: { sunrise: (string | number)[]; sunset: (string | number)[] };
+}
+
+// Open-Meteo returns ISO strings by default, or Unix seconds with timeformat=unixtime
+function toUnixSeconds(time: string | number): number {
+  return typeof time === "number" ? time : new Date(time).getTime() / 1000;
+}
+
+/**
+ * Pick the forecast hour closest to the target time out of an Open-Meteo
+ * hourly response and convert it to ExtendedWeatherData
+ */
+export function parseForecastAt(data: OpenMeteoForecast, name: string, targetTimestamp: number): ExtendedWeatherData {
+  // Find the forecast closest to the target time
+  const hourlyTimes = data.hourly.time;
+  let closestIndex = 0;
+  let closestDiff = Infinity;
+
+  for (let i = 0; i < hourlyTimes.length; i++) {
+    const forecastTime = toUnixSeconds(hourlyTimes[i]);
+    const diff = Math.abs(forecastTime - targetTimestamp);
+    if (diff < closestDiff) {
+      closestDiff = diff;
+      closestIndex = i;
+    }
+  }
+
+  const hourly = data.hourly;
+  const weatherCode = hourly.weather_code?.[closestIndex] || 0;
+  const weatherInfo = WEATHER_CODES[weatherCode] || {
+    description: "Unknown",
+    icon: "03d",
+  };
+
+  let visibility = hourly.visibility?.[closestIndex] || 10000;
+  if (weatherCode >= 45 && weatherCode <= 48) {
+    visibility = Math.min(visibility, 1000);
+  } else if (weatherCode >= 51 && weatherCode <= 55) {
+    visibility = Math.min(visibility, 5000);
+  } else if (weatherCode >= 61 && weatherCode <= 65) {
+    visibility = Math.min(visibility, 3000);
+  }
+
+  // Estimate cloud base using improved algorithm
+  const lowClouds = hourly.cloud_cover_low?.[closestIndex] || 0;
+  const midClouds = hourly.cloud_cover_mid?.[closestIndex] || 0;
+  const highClouds = hourly.cloud_cover_high?.[closestIndex] || 0;
+  const cloudBase = estimateCloudBase(
+    weatherCode,
+    lowClouds,
+    midClouds,
+    highClouds,
+    hourly.temperature_2m?.[closestIndex],
+    hourly.relative_humidity_2m?.[closestIndex]
+  );
+
+  // Upper-air data
+  const upperWindSpeed = hourly.wind_speed_300hPa?.[closestIndex] || null;
+  const upperWindDirection = hourly.wind_direction_300hPa?.[closestIndex] || null;
+  const upperHumidity = hourly.relative_humidity_300hPa?.[closestIndex] || null;
+
+  return {
+    location: name,
+    temperature: Math.round(hourly.temperature_2m[closestIndex]),
+    feels_like: Math.round(hourly.apparent_temperature[closestIndex]),
+    humidity: hourly.relative_humidity_2m[closestIndex],
+    clouds: hourly.cloud_cover[closestIndex],
+    visibility: visibility,
+    wind_speed: Math.round(hourly.wind_speed_10m[closestIndex]),
+    wind_direction: hourly.wind_direction_10m[closestIndex],
+    description: weatherInfo.description,
+    icon: weatherInfo.icon,
+    sunrise: data.daily ? Math.floor(toUnixSeconds(data.daily.sunrise[0])) : 0,
+    sunset: data.daily ? Math.floor(toUnixSeconds(data.daily.sunset[0])) : 0,
+    timestamp: toUnixSeconds(hourlyTimes[closestIndex]),
+    // Extended data
+    cloudBase,
+    cloudCeiling: cloudBase,
+    // Not every model (e.g. some ensembles) provides layer cover
+    cloudLayers: hourly.cloud_cover_low ? { low: lowClouds, mid: midClouds, high: highClouds } : null,
+    surfaceVisibility: visibility / 1000,
+    aqi: null,
+    pm25: null,
+    upperWindSpeed: upperWindSpeed ? upperWindSpeed * 0.514444 : null,
+    upperWindDirection,
+    upperHumidity,
+  };
+}
+
 // Fetch current weather for a location using Open-Meteo with extended data
 export async function getWeather(
   location: LocationKey
@@ -270,6 +371,7 @@ export async function getWeather(
       // Extended data
       cloudBase,
       cloudCeiling: cloudBase, // Use same as base for now
+      cloudLayers: { low: lowClouds, mid: midClouds, high: highClouds },
       surfaceVisibility: visibility / 1000, // Convert to km
       aqi: null, // Would need separate AQI API
       pm25: null,
@@ -385,6 +487,7 @@ export async function getWeatherForCoords(
       // Extended data
       cloudBase,
       cloudCeiling: cloudBase,
+      cloudLayers: { low: lowClouds, mid: midClouds, high: highClouds },
       surfaceVisibility: visibility / 1000,
       aqi: null,
       pm25: null,
@@ -452,81 +555,7 @@ export async function getWeatherForecastForCoords(
 
     const data = await response.json();
 
-    // Find the forecast closest to the target time
-    const hourlyTimes = data.hourly.time as string[];
-    let closestIndex = 0;
-    let closestDiff = Infinity;
-
-    for (let i = 0; i < hourlyTimes.length; i++) {
-      const forecastTime = new Date(hourlyTimes[i]).getTime() / 1000;
-      const diff = Math.abs(forecastTime - targetTimestamp);
-      if (diff < closestDiff) {
-        closestDiff = diff;
-        closestIndex = i;
-      }
-    }
-
-    const hourly = data.hourly;
-    const weatherCode = hourly.weather_code[closestIndex] || 0;
-    const weatherInfo = WEATHER_CODES[weatherCode] || {
-      description: "Unknown",
-      icon: "03d",
-    };
-
-    let visibility = hourly.visibility?.[closestIndex] || 10000;
-    if (weatherCode >= 45 && weatherCode <= 48) {
-      visibility = Math.min(visibility, 1000);
-    } else if (weatherCode >= 51 && weatherCode <= 55) {
-      visibility = Math.min(visibility, 5000);
-    } else if (weatherCode >= 61 && weatherCode <= 65) {
-      visibility = Math.min(visibility, 3000);
-    }
-
-    // Estimate cloud base using improved algorithm
-    const lowClouds = hourly.cloud_cover_low?.[closestIndex] || 0;
-    const midClouds = hourly.cloud_cover_mid?.[closestIndex] || 0;
-    const highClouds = hourly.cloud_cover_high?.[closestIndex] || 0;
-    const cloudBase = estimateCloudBase(
-      weatherCode,
-      lowClouds,
-      midClouds,
-      highClouds,
-      hourly.temperature_2m?.[closestIndex],
-      hourly.relative_humidity_2m?.[closestIndex]
-    );
-
-    // Upper-air data
-    const upperWindSpeed = hourly.wind_speed_300hPa?.[closestIndex] || null;
-    const upperWindDirection = hourly.wind_direction_300hPa?.[closestIndex] || null;
-    const upperHumidity = hourly.relative_humidity_300hPa?.[closestIndex] || null;
-
-    const sunriseDate = new Date(data.daily.sunrise[0]);
-    const sunsetDate = new Date(data.daily.sunset[0]);
-
-    return {
-      location: name,
-      temperature: Math.round(hourly.temperature_2m[closestIndex]),
-      feels_like: Math.round(hourly.apparent_temperature[closestIndex]),
-      humidity: hourly.relative_humidity_2m[closestIndex],
-      clouds: hourly.cloud_cover[closestIndex],
-      visibility: visibility,
-      wind_speed: Math.round(hourly.wind_speed_10m[closestIndex]),
-      wind_direction: hourly.wind_direction_10m[closestIndex],
-      description: weatherInfo.description,
-      icon: weatherInfo.icon,
-      sunrise: Math.floor(sunriseDate.getTime() / 1000),
-      sunset: Math.floor(sunsetDate.getTime() / 1000),
-      timestamp: new Date(hourlyTimes[closestIndex]).getTime() / 1000,
-      // Extended data
-      cloudBase,
-      cloudCeiling: cloudBase,
-      surfaceVisibility: visibility / 1000,
-      aqi: null,
-      pm25: null,
-      upperWindSpeed: upperWindSpeed ? upperWindSpeed * 0.514444 : null,
-      upperWindDirection,
-      upperHumidity,
-    };
+    return parseForecastAt(data, name, targetTimestamp);
   } catch (error) {
     console.error(`Failed to fetch forecast for ${name}:`, error);
     return null;
@@ -577,85 +606,77 @@ export async function getWeatherForecast(
 
     const data = await response.json();
 
-    // Find the forecast closest to the target time
-    const hourlyTimes = data.hourly.time as string[];
-    let closestIndex = 0;
-    let closestDiff = Infinity;
-
-    for (let i = 0; i < hourlyTimes.length; i++) {
-      const forecastTime = new Date(hourlyTimes[i]).getTime() / 1000;
-      const diff = Math.abs(forecastTime - targetTimestamp);
-      if (diff < closestDiff) {
-        closestDiff = diff;
-        closestIndex = i;
-      }
-    }
-
-    const hourly = data.hourly;
-    const weatherCode = hourly.weather_code[closestIndex] || 0;
-    const weatherInfo = WEATHER_CODES[weatherCode] || {
-      description: "Unknown",
-      icon: "03d",
-    };
+    return parseForecastAt(data, name, targetTimestamp);
+  } catch (error) {
+    console.error(`Failed to fetch forecast for ${location}:`, error);
+    return null;
+  }
+}
 
-    let visibility = hourly.visibility?.[closestIndex] || 10000;
-    if (weatherCode >= 45 && weatherCode <= 48) {
-      visibility = Math.min(visibility, 1000);
-    } else if (weatherCode >= 51 && weatherCode <= 55) {
-      visibility = Math.min(visibility, 5000);
-    } else if (weatherCode >= 61 && weatherCode <= 65) {
-      visibility = Math.min(visibility, 3000);
-    }
+// Max coordinates per Open-Meteo multi-location request
+const FORECAST_BATCH_SIZE = 100;
 
-    // Estimate cloud base using improved algorithm
-    const lowClouds = hourly.cloud_cover_low?.[closestIndex] || 0;
-    const midClouds = hourly.cloud_cover_mid?.[closestIndex] || 0;
-    const highClouds = hourly.cloud_cover_high?.[closestIndex] || 0;
-    const cloudBase = estimateCloudBase(
-      weatherCode,
-      lowClouds,
-      midClouds,
-      highClouds,
-      hourly.temperature_2m?.[closestIndex],
-      hourly.relative_humidity_2m?.[closestIndex]
-    );
-
-    // Upper-air data
-    const upperWindSpeed = hourly.wind_speed_300hPa?.[closestIndex] || null;
-    const upperWindDirection = hourly.wind_direction_300hPa?.[closestIndex] || null;
-    const upperHumidity = hourly.relative_humidity_300hPa?.[closestIndex] || null;
+// Get weather forecasts for many points at once (e.g. a visibility grid)
+// Uses Open-Meteo's multi-location form: comma-separated latitude/longitude lists.
+// Entries are null for points whose batch failed.
+export async function getWeatherForecastForPoints(
+  points: Array<{ lat: number; lon: number; name: string }>,
+  targetTimestamp: number
+): Promise<(ExtendedWeatherData | null)[]> {
+  const results: (ExtendedWeatherData | null)[] = [];
+
+  for (let i = 0; i < points.length; i += FORECAST_BATCH_SIZE) {
+    const batch = points.slice(i, i + FORECAST_BATCH_SIZE);
+
+    try {
+      const params = new URLSearchParams({
+        latitude: batch.map((p) => p.lat.toFixed(2)).join(","),
+        longitude: batch.map((p) => p.lon.toFixed(2)).join(","),
+        hourly: [
+          "temperature_2m",
+          "relative_humidity_2m",
+          "apparent_temperature",
+          "weather_code",
+          "cloud_cover",
+          "cloud_cover_low",
+          "cloud_cover_mid",
+          "cloud_cover_high",
+          "wind_speed_10m",
+          "wind_direction_10m",
+          "visibility",
+          "wind_speed_300hPa",
+          "wind_direction_300hPa",
+          "relative_humidity_300hPa",
+        ].join(","),
+        daily: "sunrise,sunset",
+        temperature_unit: "fahrenheit",
+        wind_speed_unit: "mph",
+        timeformat: "unixtime",
+        forecast_days: "7",
+      });
+
+      const response = await fetch(`${OPEN_METEO_API}?${params}`, {
+        next: { revalidate: 1800 }, // Cache for 30 minutes
+      });
+
+      if (!response.ok) {
+        throw new Error(`Weather API error: ${response.status}`);
+      }
 
-    const sunriseDate = new Date(data.daily.sunrise[0]);
-    const sunsetDate = new Date(data.daily.sunset[0]);
+      // A single location comes back as an object, several as an array
+      const data = await response.json();
+      const forecasts: OpenMeteoForecast[] = Array.isArray(data) ? data : [data];
 
-    return {
-      location: name,
-      temperature: Math.round(hourly.temperature_2m[closestIndex]),
-      feels_like: Math.round(hourly.apparent_temperature[closestIndex]),
-      humidity: hourly.relative_humidity_2m[closestIndex],
-      clouds: hourly.cloud_cover[closestIndex],
-      visibility: visibility,
-      wind_speed: Math.round(hourly.wind_speed_10m[closestIndex]),
-      wind_direction: hourly.wind_direction_10m[closestIndex],
-      description: weatherInfo.description,
-      icon: weatherInfo.icon,
-      sunrise: Math.floor(sunriseDate.getTime() / 1000),
-      sunset: Math.floor(sunsetDate.getTime() / 1000),
-      timestamp: new Date(hourlyTimes[closestIndex]).getTime() / 1000,
-      // Extended data
-      cloudBase,
-      cloudCeiling: cloudBase,
-      surfaceVisibility: visibility / 1000,
-      aqi: null,
-      pm25: null,
-      upperWindSpeed: upperWindSpeed ? upperWindSpeed * 0.514444 : null,
-      upperWindDirection,
-      upperHumidity,
-    };
-  } catch (error) {
-    console.error(`Failed to fetch forecast for ${location}:`, error);
-    return null;
+      batch.forEach((point, j) => {
+        results.push(forecasts[j] ? parseForecastAt(forecasts[j], point.name, targetTimestamp) : null);
+      });
+    } catch (error) {
+      console.error(`Failed to fetch forecast batch of ${batch.length} points:`, error);
+      results.push(...batch.map(() => null));
+    }
   }
+
+  return results;
 }
 
 // Get viewing conditions description based on weather
@@ -0,0 +1,139 @@
+// Archived weather for past launches (Open-Meteo historical forecast API format)
+//
+// Backtests need the weather as it was forecast for a past launch time, not today's.
+// Open-Meteo's historical forecast API serves the archived model runs in the same hourly
+// format as the live forecast, so responses parse with parseForecastAt.
+//
+// Providers (WEATHER_ARCHIVE_PROVIDER):
+// - "open-meteo" (default): live historical API. With WEATHER_FIXTURE_RECORD=true each
+//   response is also written to the fixture directory.
+// - "fixture": replays recorded responses from WEATHER_FIXTURE_DIR (default
+//   fixtures/weather), one file per location and UTC day, so a backtest can be rerun
+//   offline with identical inputs.
+//
+// DATA SOURCES:
+// - Open-Meteo Historical Forecast API (https://open-meteo.com/en/docs/historical-forecast-api):
+//   archived high-resolution model runs from 2022 on.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseForecastAt, type ExtendedWeatherData, type OpenMeteoForecast } from "./weather";
+
+const OPEN_METEO_HISTORICAL_API = "https://historical-forecast-api.open-meteo.com/v1/forecast";
+
+const DEFAULT_FIXTURE_DIR = "fixtures/weather";
+
+const ARCHIVE_VARIABLES = [
+  "temperature_2m",
+  "relative_humidity_2m",
+  "apparent_temperature",
+  "weather_code",
+  "cloud_cover",
+  "cloud_cover_low",
+  "cloud_cover_mid",
+  "cloud_cover_high",
+  "wind_speed_10m",
+  "wind_direction_10m",
+  "visibility",
+  "wind_speed_300hPa",
+  "wind_direction_300hPa",
+  "relative_humidity_300hPa",
+];
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export interface ArchiveProvider {
+  name: string;
+  fetchArchive: (lat: number, lon: number, date: string) => Promise<OpenMeteoForecast | null>;
+}
+
+function getFixtureDir(): string {
+  return process.env.WEATHER_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+}
+
+// One file per location (to 0.1°) and UTC day
+function getFixtureFileName(lat: number, lon: number, date: string): string {
+  return `archive_${lat.toFixed(1)}_${lon.toFixed(1)}_${date}.json`;
+}
+
+const openMeteoArchiveProvider: ArchiveProvider = {
+  name: "open-meteo",
+  async fetchArchive(lat, lon, date) {
+    try {
+      const params = new URLSearchParams({
+        latitude: lat.toFixed(2),
+        longitude: lon.toFixed(2),
+        hourly: ARCHIVE_VARIABLES.join(","),
+        daily: "sunrise,sunset",
+        temperature_unit: "fahrenheit",
+        wind_speed_unit: "mph",
+        timeformat: "unixtime",
+        start_date: date,
+        end_date: date,
+      });
+
+      const response = await fetch(`${OPEN_METEO_HISTORICAL_API}?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Historical weather API error: ${response.status}`);
+      }
+
+      const data: OpenMeteoForecast = await response.json();
+
+      if (process.env.WEATHER_FIXTURE_RECORD === "true") {
+        await fs.mkdir(getFixtureDir(), { recursive: true });
+        await fs.writeFile(path.join(getFixtureDir(), getFixtureFileName(lat, lon, date)), JSON.stringify(data));
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Failed to fetch archived weather for ${lat}, ${lon} on ${date}:`, error);
+      return null;
+    }
+  },
+};
+
+const fixtureArchiveProvider: ArchiveProvider = {
+  name: "fixture",
+  async fetchArchive(lat, lon, date) {
+    const file = path.join(getFixtureDir(), getFixtureFileName(lat, lon, date));
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as OpenMeteoForecast;
+    } catch {
+      console.error(`No archived weather fixture ${file}`);
+      return null;
+    }
+  },
+};
+
+/**
+ * Archive provider selected by WEATHER_ARCHIVE_PROVIDER
+ */
+export function getArchiveProvider(): ArchiveProvider {
+  return process.env.WEATHER_ARCHIVE_PROVIDER === "fixture"
+    ? fixtureArchiveProvider
+    : openMeteoArchiveProvider;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Weather at a point as archived for a past time.
+ * Returns null when no archive could be fetched.
+ */
+export async function getArchivedWeather(
+  lat: number,
+  lon: number,
+  name: string,
+  timestamp: number
+): Promise<ExtendedWeatherData | null> {
+  const date = new Date(timestamp * 1000).toISOString().slice(0, 10);
+  const data = await getArchiveProvider().fetchArchive(lat, lon, date);
+  if (!data?.hourly?.time) return null;
+
+  return parseForecastAt(data, name, timestamp);
+}
@@ -0,0 +1,180 @@
+// Ensemble weather forecasts (Open-Meteo ensemble API format)
+//
+// A deterministic forecast gives one answer; an ensemble gives 30-50 equally likely
+// ones, and how much they disagree is the forecast uncertainty. Each member is parsed
+// into ExtendedWeatherData so the visibility model can run once per member
+// (see visibilityEnsemble.ts).
+//
+// Providers (WEATHER_ENSEMBLE_PROVIDER):
+// - "open-meteo" (default): live ensemble API. With WEATHER_FIXTURE_RECORD=true each
+//   response is also written to the fixture directory.
+// - "fixture": replays recorded responses from WEATHER_FIXTURE_DIR (default
+//   fixtures/weather) for offline development. Recordings are shifted by whole days so
+//   they always start today, keeping their time-of-day pattern.
+//
+// DATA SOURCES:
+// - Open-Meteo Ensemble API (https://open-meteo.com/en/docs/ensemble-api), GFS ensemble:
+//   31 members, 16 days.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseForecastAt, type ExtendedWeatherData, type OpenMeteoForecast } from "./weather";
+
+const OPEN_METEO_ENSEMBLE_API = "https://ensemble-api.open-meteo.com/v1/ensemble";
+
+// GFS ensemble (GEFS): 0.25° for 10 days, 0.5° out to 16
+const ENSEMBLE_MODEL = "gfs_seamless";
+export const ENSEMBLE_MAX_LEAD_HOURS = 16 * 24;
+
+const DEFAULT_FIXTURE_DIR = "fixtures/weather";
+
+// Per-member variables; members come back as e.g. cloud_cover_member01
+const ENSEMBLE_VARIABLES = [
+  "temperature_2m",
+  "relative_humidity_2m",
+  "apparent_temperature",
+  "weather_code",
+  "cloud_cover",
+  "cloud_cover_low",
+  "cloud_cover_mid",
+  "cloud_cover_high",
+  "wind_speed_10m",
+  "wind_direction_10m",
+  "visibility",
+];
+
+const MEMBER_SUFFIX = /_member(\d+)$/;
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export interface EnsembleProvider {
+  name: string;
+  fetchEnsemble: (lat: number, lon: number) => Promise<OpenMeteoForecast | null>;
+}
+
+function getFixtureDir(): string {
+  return process.env.WEATHER_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+}
+
+// Fixture files are keyed by location to 0.1°; ensemble.json is the catch-all
+function getFixtureFileName(lat: number, lon: number): string {
+  return `ensemble_${lat.toFixed(1)}_${lon.toFixed(1)}.json`;
+}
+
+const openMeteoEnsembleProvider: EnsembleProvider = {
+  name: "open-meteo",
+  async fetchEnsemble(lat, lon) {
+    try {
+      const params = new URLSearchParams({
+        latitude: lat.toFixed(2),
+        longitude: lon.toFixed(2),
+        hourly: ENSEMBLE_VARIABLES.join(","),
+        models: ENSEMBLE_MODEL,
+        temperature_unit: "fahrenheit",
+        wind_speed_unit: "mph",
+        timeformat: "unixtime",
+        forecast_days: "16",
+      });
+
+      const response = await fetch(`${OPEN_METEO_ENSEMBLE_API}?${params}`, {
+        next: { revalidate: 3600 }, // Ensembles update every 6 hours
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ensemble API error: ${response.status}`);
+      }
+
+      const data: OpenMeteoForecast = await response.json();
+
+      if (process.env.WEATHER_FIXTURE_RECORD === "true") {
+        const file = path.join(getFixtureDir(), getFixtureFileName(lat, lon));
+        await fs.mkdir(getFixtureDir(), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(data));
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Failed to fetch ensemble forecast for ${lat}, ${lon}:`, error);
+      return null;
+    }
+  },
+};
+
+const fixtureEnsembleProvider: EnsembleProvider = {
+  name: "fixture",
+  async fetchEnsemble(lat, lon) {
+    const dir = getFixtureDir();
+
+    for (const fileName of [getFixtureFileName(lat, lon), "ensemble.json"]) {
+      try {
+        const data: OpenMeteoForecast = JSON.parse(await fs.readFile(path.join(dir, fileName), "utf8"));
+
+        // Shift the recording by whole days so it starts today
+        const first = Number(data.hourly.time[0]);
+        const now = Math.floor(Date.now() / 1000);
+        const shift = Math.floor((now - first) / 86400) * 86400;
+        return {
+          ...data,
+          hourly: { ...data.hourly, time: data.hourly.time.map((t) => Number(t) + shift) },
+        };
+      } catch {
+        // Try the next candidate file
+      }
+    }
+
+    console.error(`No ensemble fixture for ${lat}, ${lon} in ${dir}`);
+    return null;
+  },
+};
+
+/**
+ * Ensemble provider selected by WEATHER_ENSEMBLE_PROVIDER
+ */
+export function getEnsembleProvider(): EnsembleProvider {
+  return process.env.WEATHER_ENSEMBLE_PROVIDER === "fixture"
+    ? fixtureEnsembleProvider
+    : openMeteoEnsembleProvider;
+}
+
+// ============================================================================
+// MEMBERS
+// ============================================================================
+
+/**
+ * Split an ensemble response into one single-run forecast per member.
+ * The control run has unsuffixed keys; perturbed members are _member01, _member02, ...
+ */
+export function splitEnsembleMembers(data: OpenMeteoForecast): OpenMeteoForecast[] {
+  const suffixes = new Set<string>([""]);
+  for (const key of Object.keys(data.hourly)) {
+    const match = MEMBER_SUFFIX.exec(key);
+    if (match) suffixes.add(match[0]);
+  }
+
+  return [...suffixes].map((suffix) => {
+    const series: Record<string, number[]> = {};
+    for (const variable of ENSEMBLE_VARIABLES) {
+      const values = data.hourly[`${variable}${suffix}`] ?? data.hourly[variable];
+      if (values) series[variable] = values;
+    }
+    return { hourly: { ...series, time: data.hourly.time } as OpenMeteoForecast["hourly"] };
+  });
+}
+
+/**
+ * Weather at a point and time for every ensemble member.
+ * Returns null when the ensemble couldn't be fetched.
+ */
+export async function getEnsembleForecast(
+  lat: number,
+  lon: number,
+  name: string,
+  targetTimestamp: number
+): Promise<ExtendedWeatherData[] | null> {
+  const data = await getEnsembleProvider().fetchEnsemble(lat, lon);
+  if (!data?.hourly?.time) return null;
+
+  return splitEnsembleMembers(data).map((member) => parseForecastAt(member, name, targetTimestamp));
+}
@@ -0,0 +1,245 @@
+// Fitting the visibility model to recorded sightings
+//
+// Each record is a historical launch, an observer location, the weather archived for
+// both, and whether the observer saw the rocket. The score is read as a probability, so
+// the fit minimises log loss between the score and the outcomes:
+// - Sub-score weights: logistic-loss fit constrained to the simplex (non-negative, sum 1)
+//   by exponentiated gradient descent, with an L2 pull toward the starting weights so a
+//   small dataset can't swing them far.
+// - Maximum visible distances: per vehicle and lighting condition, a search over scale
+//   factors of the current table, re-running the full model (the distance range also
+//   decides when the "too far" blocker fires, which the weights can't capture).
+// The two steps alternate for a few rounds.
+//
+// DATA SOURCES:
+// - Exponentiated gradient: Kivinen & Warmuth (1997), "Exponentiated gradient versus
+//   gradient descent for linear predictors", Information and Computation 132.
+
+import {
+  calculateVisibility,
+  type TuningProfile,
+  type ViewingLocation,
+  type VisibilityLaunch,
+  type VisibilityResult,
+  type VisibilityWeights,
+} from "./visibility";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import { computeCalibrationMetrics } from "./calibration";
+import { getLightingCondition } from "./visibilityRadius";
+import { getVehicle, type LightingCondition, type VehicleKey } from "./vehicles";
+import type { ProfileMetrics } from "./tuningProfile";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Scores are clamped away from 0 and 1 so one confident miss can't dominate the loss
+const PROBABILITY_FLOOR = 0.02;
+
+const WEIGHT_ITERATIONS = 400;
+const WEIGHT_LEARNING_RATE = 0.05;
+const WEIGHT_REGULARIZATION = 0.5;
+
+// Distance tables are searched from 0.5× to 2× their current value
+const DISTANCE_SCALES = Array.from({ length: 31 }, (_, i) => 0.5 + i * 0.05);
+
+// A vehicle/lighting group needs this many records before its distance is refitted
+const MIN_DISTANCE_GROUP_SIZE = 10;
+
+const FIT_ROUNDS = 3;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CalibrationRecord {
+  launch: VisibilityLaunch;
+  observer: ViewingLocation;
+  weather: {
+    launchSite: WeatherData | ExtendedWeatherData | null;
+    viewing: WeatherData | ExtendedWeatherData | null;
+  };
+  sawIt: boolean;
+}
+
+export interface FitResult {
+  profile: TuningProfile;
+  distanceGroupsFitted: string[]; // "falcon9/twilight", ...
+}
+
+type WeightKey = keyof VisibilityWeights;
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function score(record: CalibrationRecord, profile: TuningProfile): VisibilityResult {
+  return calculateVisibility(
+    record.launch,
+    record.weather.launchSite,
+    record.weather.viewing,
+    record.observer,
+    profile
+  );
+}
+
+function logLoss(probabilities: number[], outcomes: boolean[]): number {
+  const total = probabilities.reduce((sum, p, i) => {
+    const clamped = Math.min(1 - PROBABILITY_FLOOR, Math.max(PROBABILITY_FLOOR, p));
+    return sum - (outcomes[i] ? Math.log(clamped) : Math.log(1 - clamped));
+  }, 0);
+  return total / probabilities.length;
+}
+
+/**
+ * Brier score, log loss and hit rate of a profile over a set of records
+ */
+export function evaluateProfile(records: CalibrationRecord[], profile: TuningProfile): ProfileMetrics {
+  const results = records.map((record) => score(record, profile));
+  const overall = computeCalibrationMetrics(
+    results.map((result, i) => ({
+      model: `${result.model.id}@${result.model.version}/${profile.version}`,
+      siteId: records[i].launch.siteId || "vandenberg",
+      lighting: getLightingCondition(result.factors.rawData.solarElevation),
+      distanceKm: result.factors.rawData.distanceKm,
+      predicted: result.percentage,
+      sawIt: records[i].sawIt,
+    }))
+  )[0];
+
+  return {
+    samples: records.length,
+    brierScore: overall?.brierScore ?? 0,
+    logLoss: Math.round(logLoss(results.map((r) => r.percentage / 100), records.map((r) => r.sawIt)) * 1000) / 1000,
+    hitRate: overall?.hitRate ?? null,
+  };
+}
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+/**
+ * Round weights to three decimals, keeping the sum at exactly 1
+ */
+function roundWeights(weights: VisibilityWeights): VisibilityWeights {
+  const keys = Object.keys(weights) as WeightKey[];
+  const rounded = { ...weights };
+  for (const key of keys) rounded[key] = Math.round(weights[key] * 1000) / 1000;
+
+  const largest = keys.reduce((a, b) => (rounded[b] > rounded[a] ? b : a));
+  const drift = 1 - keys.reduce((sum, key) => sum + rounded[key], 0);
+  rounded[largest] = Math.round((rounded[largest] + drift) * 1000) / 1000;
+  return rounded;
+}
+
+/**
+ * Fit the weights to fixed sub-scores. Records whose score is forced to zero by a
+ * fatal blocker don't depend on the weights and are left out.
+ */
+function fitWeights(
+  records: CalibrationRecord[],
+  profile: TuningProfile,
+  prior: VisibilityWeights
+): VisibilityWeights {
+  const keys = Object.keys(prior) as WeightKey[];
+  const rows = records
+    .map((record) => ({ result: score(record, profile), sawIt: record.sawIt }))
+    .filter(({ result }) => !result.fatalBlocker)
+    .map(({ result, sawIt }) => ({ x: keys.map((key) => result.factors.subScores[key]), y: sawIt ? 1 : 0 }));
+  if (rows.length === 0) return profile.weights;
+
+  let w = keys.map((key) => profile.weights[key]);
+  const w0 = keys.map((key) => prior[key]);
+
+  for (let iter = 0; iter < WEIGHT_ITERATIONS; iter++) {
+    const gradient = new Array(keys.length).fill(0);
+    for (const { x, y } of rows) {
+      const raw = x.reduce((sum, xi, i) => sum + xi * w[i], 0);
+      const p = Math.min(1 - PROBABILITY_FLOOR, Math.max(PROBABILITY_FLOOR, raw));
+      const dLoss = (p - y) / (p * (1 - p));
+      for (let i = 0; i < keys.length; i++) gradient[i] += (dLoss * x[i]) / rows.length;
+    }
+    for (let i = 0; i < keys.length; i++) gradient[i] += 2 * WEIGHT_REGULARIZATION * (w[i] - w0[i]);
+
+    // Multiplicative update keeps every weight positive; renormalise back onto the simplex
+    w = w.map((wi, i) => wi * Math.exp(-WEIGHT_LEARNING_RATE * gradient[i]));
+    const sum = w.reduce((a, b) => a + b, 0);
+    w = w.map((wi) => wi / sum);
+  }
+
+  const fitted = { ...profile.weights };
+  keys.forEach((key, i) => (fitted[key] = w[i]));
+  return roundWeights(fitted);
+}
+
+/**
+ * Refit the maximum visible distance for each vehicle and lighting condition
+ * with enough records, keeping the other entries of the table
+ */
+function fitDistances(
+  profile: TuningProfile,
+  groups: Map<string, { vehicle: VehicleKey; lighting: LightingCondition; records: CalibrationRecord[] }>
+): TuningProfile["maxVisibleDistance"] {
+  const tables = { ...profile.maxVisibleDistance };
+
+  for (const group of groups.values()) {
+    if (group.records.length < MIN_DISTANCE_GROUP_SIZE) continue;
+
+    const table = tables[group.vehicle] ?? getVehicle(group.vehicle).maxVisibleDistance;
+    const current = table[group.lighting];
+    const outcomes = group.records.map((r) => r.sawIt);
+
+    let best = { distance: current, loss: Infinity };
+    for (const scale of DISTANCE_SCALES) {
+      const distance = Math.round((current * scale) / 10) * 10;
+      const candidate: TuningProfile = {
+        ...profile,
+        maxVisibleDistance: { ...tables, [group.vehicle]: { ...table, [group.lighting]: distance } },
+      };
+      const loss = logLoss(group.records.map((r) => score(r, candidate).percentage / 100), outcomes);
+      // On a tie, stay closest to the current value
+      if (loss < best.loss - 1e-9 ||
+          (Math.abs(loss - best.loss) <= 1e-9 && Math.abs(distance - current) < Math.abs(best.distance - current))) {
+        best = { distance, loss };
+      }
+    }
+
+    tables[group.vehicle] = { ...table, [group.lighting]: best.distance };
+  }
+
+  return tables;
+}
+
+/**
+ * Fit weights and distance tables to the records, starting from a base profile
+ */
+export function fitTuningProfile(
+  records: CalibrationRecord[],
+  base: TuningProfile,
+  version: string
+): FitResult {
+  // Vehicle and lighting don't depend on the profile, so group once
+  const groups = new Map<string, { vehicle: VehicleKey; lighting: LightingCondition; records: CalibrationRecord[] }>();
+  for (const record of records) {
+    const result = score(record, base);
+    const vehicle = result.factors.rawData.rocketType as VehicleKey;
+    const lighting = getLightingCondition(result.factors.rawData.solarElevation);
+    const key = `${vehicle}/${lighting}`;
+    if (!groups.has(key)) groups.set(key, { vehicle, lighting, records: [] });
+    groups.get(key)!.records.push(record);
+  }
+
+  let profile: TuningProfile = { ...base, version };
+  for (let round = 0; round < FIT_ROUNDS; round++) {
+    profile = { ...profile, maxVisibleDistance: fitDistances(profile, groups) };
+    profile = { ...profile, weights: fitWeights(records, profile, base.weights) };
+  }
+
+  return {
+    profile,
+    distanceGroupsFitted: [...groups.entries()]
+      .filter(([, group]) => group.records.length >= MIN_DISTANCE_GROUP_SIZE)
+      .map(([key]) => key),
+  };
+}
@@ -0,0 +1,186 @@
+// Launch-window sweep: how visibility changes across window_start..window_end
+//
+// Many launches have multi-hour windows, and a slip of a few minutes can move a launch
+// from daylight into twilight (or out of it). The sweep runs the full visibility model at
+// regular steps across the window and reports the curve, the best and worst times, and
+// where the lighting changes.
+
+import {
+  formatTime,
+  type TuningProfile,
+  type ViewingLocation,
+  type VisibilityLaunch,
+  type VisibilityResult,
+} from "./visibility";
+import type { WeatherData, ExtendedWeatherData } from "./weather";
+import { getVisibilityModel, type VisibilityModel } from "./visibilityModels";
+import { getLaunchSite } from "./launchSites";
+import { getLightingCondition, getLightingLabel } from "./visibilityRadius";
+import type { LightingCondition } from "./vehicles";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Default spacing between evaluated launch times
+export const DEFAULT_SWEEP_STEP_SEC = 10 * 60;
+
+// Upper bound on evaluations per sweep; long windows get a coarser step
+const MAX_SWEEP_POINTS = 48;
+
+// Minimum gain over the opening time worth calling out in the summary
+const NOTABLE_GAIN_POINTS = 10;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SweepWeather {
+  launchSite: WeatherData | ExtendedWeatherData | null;
+  viewing: WeatherData | ExtendedWeatherData | null;
+}
+
+export interface SweepPoint {
+  time: number;          // Unix seconds
+  timeFormatted: string; // site-local, "7:12 PM"
+  percentage: number;
+  rating: VisibilityResult["rating"];
+  solarElevation: number;
+  lightingCondition: LightingCondition;
+}
+
+export interface LightingTransition {
+  time: number;          // first sweep time in the new lighting condition
+  timeFormatted: string;
+  from: LightingCondition;
+  to: LightingCondition;
+  description: string;
+}
+
+export interface WindowSweep {
+  windowStart: number;
+  windowEnd: number;
+  stepSec: number;
+  points: SweepPoint[];
+  best: SweepPoint;
+  worst: SweepPoint;
+  transitions: LightingTransition[];
+  summary: string | null;
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+/**
+ * Launch times to evaluate across a window, always including both ends.
+ * An instantaneous window yields a single time.
+ */
+export function getSweepTimes(
+  windowStart: number,
+  windowEnd: number,
+  stepSec: number = DEFAULT_SWEEP_STEP_SEC
+): { times: number[]; stepSec: number } {
+  const span = Math.max(0, windowEnd - windowStart);
+  const step = Math.max(stepSec, Math.ceil(span / (MAX_SWEEP_POINTS - 1)));
+
+  const times: number[] = [];
+  for (let t = windowStart; t < windowEnd; t += step) {
+    times.push(t);
+  }
+  times.push(Math.max(windowStart, windowEnd));
+
+  return { times, stepSec: step };
+}
+
+/**
+ * Build the "what if it slips" sentence from the curve
+ */
+function buildSweepSummary(points: SweepPoint[], best: SweepPoint): string | null {
+  const opening = points[0];
+  if (points.length < 2) {
+    return null;
+  }
+
+  if (best.percentage - opening.percentage >= NOTABLE_GAIN_POINTS) {
+    // Earliest time that gets (close to) the best score
+    const firstGood = points.find((p) => p.percentage >= best.percentage - 2) ?? best;
+    return `Visibility rises to ${best.percentage}% if it slips past ${firstGood.timeFormatted}.`;
+  }
+
+  const worst = points.reduce((min, p) => (p.percentage < min.percentage ? p : min));
+  if (opening.percentage - worst.percentage >= NOTABLE_GAIN_POINTS) {
+    return `Visibility drops to ${worst.percentage}% if it slips to ${worst.timeFormatted} — the opening of the window is the time to watch.`;
+  }
+
+  return `Visibility stays around ${opening.percentage}% across the window.`;
+}
+
+/**
+ * Evaluate visibility at each step across a launch window with the given
+ * visibility model (the default one unless given)
+ */
+export function sweepLaunchWindow(
+  launch: VisibilityLaunch,
+  windowStart: number,
+  windowEnd: number,
+  getWeather: (time: number) => SweepWeather,
+  viewingLocation?: ViewingLocation,
+  stepSec: number = DEFAULT_SWEEP_STEP_SEC,
+  tuning?: TuningProfile,
+  model: VisibilityModel = getVisibilityModel()!
+): WindowSweep {
+  const timezone = getLaunchSite(launch.siteId || "vandenberg")?.timezone;
+  const { times, stepSec: step } = getSweepTimes(windowStart, windowEnd, stepSec);
+
+  const points: SweepPoint[] = times.map((time) => {
+    const weather = getWeather(time);
+    const result = model.calculate(
+      { ...launch, date_unix: time },
+      weather.launchSite,
+      weather.viewing,
+      viewingLocation,
+      tuning
+    );
+    const solarElevation = result.factors.rawData.solarElevation;
+
+    return {
+      time,
+      timeFormatted: formatTime(new Date(time * 1000), timezone),
+      percentage: result.percentage,
+      rating: result.rating,
+      solarElevation: Math.round(solarElevation * 10) / 10,
+      lightingCondition: getLightingCondition(solarElevation),
+    };
+  });
+
+  // Ties go to the earliest time — no point waiting for an equal score
+  const best = points.reduce((max, p) => (p.percentage > max.percentage ? p : max));
+  const worst = points.reduce((min, p) => (p.percentage < min.percentage ? p : min));
+
+  const transitions: LightingTransition[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1].lightingCondition;
+    const to = points[i].lightingCondition;
+    if (from !== to) {
+      transitions.push({
+        time: points[i].time,
+        timeFormatted: points[i].timeFormatted,
+        from,
+        to,
+        description: `Shifts from ${getLightingLabel(from)} to ${getLightingLabel(to)} lighting by ${points[i].timeFormatted}`,
+      });
+    }
+  }
+
+  return {
+    windowStart,
+    windowEnd,
+    stepSec: step,
+    points,
+    best,
+    worst,
+    transitions,
+    summary: buildSweepSummary(points, best),
+  };
+}
@@ -26,3 +26,171 @@ ALTER TABLE email_subscriptions ENABLE ROW LEVEL SECURITY;
 -- Allow service role full access (for API routes)
 CREATE POLICY "Service role has full access" ON email_subscriptions
   FOR ALL USING (auth.role() = 'service_role');
+
+-- Prediction snapshots: the visibility percentage a scoring model version served for a
+-- launch, location cell and lead time bucket (latest prediction in each bucket wins)
+CREATE TABLE prediction_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  launch_id TEXT NOT NULL,                   -- LL2 launch ID
+  site_id TEXT NOT NULL,
+  launch_time TIMESTAMPTZ NOT NULL,
+  cell_key TEXT NOT NULL,                    -- 0.25° grid cell centre, "lat:lon"
+  cell_lat DOUBLE PRECISION NOT NULL,
+  cell_lon DOUBLE PRECISION NOT NULL,
+  lead_bucket TEXT NOT NULL,                 -- "0-1h", "1-6h", "6-24h", "1-3d", "3d+"
+  lead_hours REAL NOT NULL,
+  predicted_percentage INTEGER NOT NULL,
+  rating TEXT NOT NULL,
+  lighting_condition TEXT NOT NULL,          -- "day", "twilight", "night"
+  distance_km REAL NOT NULL,
+  model_id TEXT NOT NULL,                    -- scoring model (see visibilityModels.ts)
+  model_version TEXT NOT NULL,
+  tuning_version TEXT NOT NULL,              -- tuning profile (see tuningProfile.ts)
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_snapshots_launch_time ON prediction_snapshots(launch_time);
+CREATE UNIQUE INDEX idx_snapshots_key ON prediction_snapshots(launch_id, cell_key, lead_bucket, model_id, model_version, tuning_version);
+
+-- "Did you see it?" answers, filed by location cell
+CREATE TABLE sighting_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  launch_id TEXT NOT NULL,
+  site_id TEXT NOT NULL,
+  cell_key TEXT NOT NULL,
+  cell_lat DOUBLE PRECISION NOT NULL,
+  cell_lon DOUBLE PRECISION NOT NULL,
+  saw_it BOOLEAN NOT NULL,
+  predicted_percentage INTEGER,              -- what the reporter was shown, if known
+  reporter_hash TEXT NOT NULL,               -- HMAC of reporter IP + launch ID, never the IP itself
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_sightings_launch ON sighting_reports(launch_id);
+-- One answer per reporter, launch and cell (a repeat answer replaces the earlier one)
+CREATE UNIQUE INDEX idx_sightings_reporter ON sighting_reports(launch_id, cell_key, reporter_hash);
+
+-- Calibration metrics, one row per model / site / lighting / distance band per job run
+CREATE TABLE calibration_metrics (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  computed_at TIMESTAMPTZ NOT NULL,
+  model TEXT NOT NULL,                       -- "id@version"
+  site_id TEXT NOT NULL,                     -- "all" for the overall row
+  lighting_condition TEXT NOT NULL,
+  distance_band TEXT NOT NULL,
+  sample_count INTEGER NOT NULL,
+  brier_score REAL NOT NULL,
+  hit_rate REAL,
+  base_rate REAL NOT NULL,
+  reliability JSONB NOT NULL                 -- [{lower, upper, count, meanPredicted, observedRate}]
+);
+
+CREATE INDEX idx_calibration_computed_at ON calibration_metrics(computed_at);
+
+ALTER TABLE prediction_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sighting_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calibration_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access" ON prediction_snapshots
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service role has full access" ON sighting_reports
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service role has full access" ON calibration_metrics
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Launch cache snapshots (LAUNCH_CACHE_STORE=supabase, see launchCache.ts), one row per
+-- provider and list, e.g. "ll2:upcoming:vandenberg"
+CREATE TABLE launch_cache (
+  cache_key TEXT PRIMARY KEY,
+  launches JSONB NOT NULL,                   -- EnrichedLaunch[]
+  fetched_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE launch_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access" ON launch_cache
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Launch history (LAUNCH_HISTORY_STORE=supabase, see launchHistory.ts): the last seen
+-- schedule of each launch, and every change found when a fetch differs from it
+CREATE TABLE launch_states (
+  launch_id TEXT PRIMARY KEY,
+  net TIMESTAMPTZ NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL,                      -- LL2 status abbreviation
+  pad TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE launch_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  launch_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,                  -- "net", "window", "status", "pad"
+  from_value TEXT NOT NULL,
+  to_value TEXT NOT NULL,
+  shift_seconds INTEGER,                     -- NET and window moves, later positive
+  scrub BOOLEAN NOT NULL DEFAULT FALSE,
+  detected_at TIMESTAMPTZ NOT NULL,
+  notified_at TIMESTAMPTZ                    -- update emails sent (see /api/cron/send-alerts)
+);
+
+CREATE INDEX idx_launch_events_launch ON launch_events(launch_id);
+CREATE INDEX idx_launch_events_detected_at ON launch_events(detected_at);
+
+ALTER TABLE launch_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE launch_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access" ON launch_states
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service role has full access" ON launch_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Upgrading a database created from an earlier version of this file: run the
+-- statements below. Each one is safe to run again.
+
+-- Sighting reports deduplicated per reporter; earlier reports count as distinct reporters
+ALTER TABLE sighting_reports ADD COLUMN IF NOT EXISTS reporter_hash TEXT;
+UPDATE sighting_reports SET reporter_hash = id::TEXT WHERE reporter_hash IS NULL;
+ALTER TABLE sighting_reports ALTER COLUMN reporter_hash SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sightings_reporter ON sighting_reports(launch_id, cell_key, reporter_hash);
+
+-- Prediction snapshots kept per model version; rows from before models were versioned
+-- came from the weighted formula 1.0
+ALTER TABLE prediction_snapshots ADD COLUMN IF NOT EXISTS model_id TEXT NOT NULL DEFAULT 'weighted';
+ALTER TABLE prediction_snapshots ADD COLUMN IF NOT EXISTS model_version TEXT NOT NULL DEFAULT '1.0';
+ALTER TABLE prediction_snapshots ALTER COLUMN model_id DROP DEFAULT;
+ALTER TABLE prediction_snapshots ALTER COLUMN model_version DROP DEFAULT;
+DO $$
+DECLARE
+  old_key TEXT;
+BEGIN
+  -- The earlier UNIQUE (launch_id, cell_key, lead_bucket[, model_id]) constraints
+  FOR old_key IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'prediction_snapshots'::regclass AND contype = 'u'
+  LOOP
+    EXECUTE format('ALTER TABLE prediction_snapshots DROP CONSTRAINT %I', old_key);
+  END LOOP;
+END $$;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_snapshots_key ON prediction_snapshots(launch_id, cell_key, lead_bucket, model_id, model_version);
+
+-- Prediction snapshots kept per tuning profile as well; earlier rows are attributed to
+-- the hand-tuned defaults
+ALTER TABLE prediction_snapshots ADD COLUMN IF NOT EXISTS tuning_version TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE prediction_snapshots ALTER COLUMN tuning_version DROP DEFAULT;
+DROP INDEX IF EXISTS idx_snapshots_key;
+CREATE UNIQUE INDEX idx_snapshots_key ON prediction_snapshots(launch_id, cell_key, lead_bucket, model_id, model_version, tuning_version);
+
+-- Launch events marked once update emails go out; events recorded before the column
+-- existed were already covered by earlier runs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'launch_events' AND column_name = 'notified_at'
+  ) THEN
+    ALTER TABLE launch_events ADD COLUMN notified_at TIMESTAMPTZ;
+    UPDATE launch_events SET notified_at = detected_at;
+  END IF;
+END $$;